@@ -0,0 +1,52 @@
+import React from 'react';
+import { Play } from 'lucide-react';
+import { Message } from '../../types/chat';
+import { ProgressiveImage } from './ProgressiveImage';
+
+interface AlbumGridProps {
+  messages: Message[];
+  onOpen: (message: Message) => void;
+}
+
+// Tiles shown before the rest collapse into a "+N" overlay
+const MAX_TILES = 4;
+
+export const AlbumGrid: React.FC<AlbumGridProps> = ({ messages, onOpen }) => {
+  const tiles = messages.slice(0, MAX_TILES);
+  const hidden = messages.length - tiles.length;
+
+  return (
+    <div className="grid grid-cols-2 gap-1 w-56 sm:w-64 mb-1">
+      {tiles.map((message, index) => (
+        <button
+          key={message.id}
+          type="button"
+          onClick={(e) => { e.stopPropagation(); onOpen(message); }}
+          className={`relative overflow-hidden rounded-md bg-gray-200 dark:bg-gray-800 ${
+            tiles.length === 3 && index === 0 ? 'col-span-2 aspect-[2/1]' : 'aspect-square'
+          }`}
+        >
+          {message.type === 'video' ? (
+            <>
+              <video src={message.content} preload="metadata" muted className="w-full h-full object-cover" />
+              <Play className="absolute inset-0 m-auto h-8 w-8 text-white drop-shadow" />
+            </>
+          ) : (
+            <ProgressiveImage
+              src={message.thumbnail_url || message.content}
+              placeholder={message.placeholder}
+              alt={message.file_name || 'album photo'}
+              wrapperClassName="w-full h-full"
+              className="w-full h-full object-cover"
+            />
+          )}
+          {hidden > 0 && index === tiles.length - 1 && (
+            <span className="absolute inset-0 flex items-center justify-center bg-black/50 text-white text-lg font-semibold">
+              +{hidden}
+            </span>
+          )}
+        </button>
+      ))}
+    </div>
+  );
+};
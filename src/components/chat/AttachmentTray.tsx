@@ -0,0 +1,121 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight, File as FileIcon, Plus, Send, X } from 'lucide-react';
+import { Button } from '../ui/Button';
+import { MAX_TRAY_FILES, TrayItem } from '../../hooks/useAttachmentUploads';
+import { formatFileSize } from '../../lib/media';
+
+interface AttachmentTrayProps {
+  items: TrayItem[];
+  sending: boolean;
+  onAddMore: () => void;
+  onRemove: (id: string) => void;
+  onMove: (id: string, offset: number) => void;
+  onCaptionChange: (id: string, caption: string) => void;
+  onClear: () => void;
+  onSend: () => void;
+}
+
+export const AttachmentTray: React.FC<AttachmentTrayProps> = ({
+  items,
+  sending,
+  onAddMore,
+  onRemove,
+  onMove,
+  onCaptionChange,
+  onClear,
+  onSend,
+}) => (
+  <div className="mb-2 p-2 rounded-xl bg-white/80 dark:bg-gray-900/80 border border-gray-200 dark:border-gray-800 shadow">
+    <div className="flex space-x-2 overflow-x-auto pb-1">
+      {items.map((item, index) => {
+        const uploading = item.status === 'uploading';
+        return (
+          <div
+            key={item.id}
+            className={`relative flex-shrink-0 w-36 rounded-lg border p-1.5 text-xs ${
+              item.status === 'failed' ? 'border-red-400' : 'border-gray-200 dark:border-gray-700'
+            } bg-white dark:bg-gray-800 text-gray-900 dark:text-white`}
+          >
+            <div className="relative h-20 rounded-md overflow-hidden bg-gray-100 dark:bg-gray-700 flex items-center justify-center">
+              {item.previewUrl ? (
+                <img src={item.previewUrl} alt={item.file.name} className="w-full h-full object-cover" />
+              ) : (
+                <FileIcon className="h-8 w-8 text-gray-400" />
+              )}
+              <button
+                type="button"
+                onClick={() => onRemove(item.id)}
+                className="absolute top-1 right-1 p-0.5 rounded-full bg-black/60 text-white hover:bg-black/80"
+                title={uploading ? 'Cancel upload' : 'Remove'}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+              {uploading && (
+                <div className="absolute inset-x-0 bottom-0 h-1.5 bg-black/30">
+                  <div className="h-full bg-blue-500 transition-all" style={{ width: `${Math.round(item.progress * 100)}%` }} />
+                </div>
+              )}
+            </div>
+            <p className="mt-1 truncate font-medium" title={item.file.name}>{item.file.name}</p>
+            <p className={item.status === 'failed' ? 'text-red-500 truncate' : 'opacity-70'} title={item.error}>
+              {item.status === 'failed'
+                ? item.error || 'Upload failed'
+                : uploading
+                  ? `${Math.round(item.progress * 100)}% of ${formatFileSize(item.file.size)}`
+                  : formatFileSize(item.file.size)}
+            </p>
+            <input
+              value={item.caption}
+              maxLength={1024}
+              disabled={uploading}
+              onChange={(e) => onCaptionChange(item.id, e.target.value)}
+              placeholder="Add a caption"
+              className="mt-1 w-full px-1.5 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 focus:outline-none focus:ring-1 focus:ring-blue-500"
+            />
+            {!sending && items.length > 1 && (
+              <div className="mt-1 flex justify-between">
+                <button
+                  type="button"
+                  onClick={() => onMove(item.id, -1)}
+                  disabled={index === 0}
+                  className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                  title="Move earlier"
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </button>
+                <button
+                  type="button"
+                  onClick={() => onMove(item.id, 1)}
+                  disabled={index === items.length - 1}
+                  className="p-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+                  title="Move later"
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </button>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {!sending && items.length < MAX_TRAY_FILES && (
+        <button
+          type="button"
+          onClick={onAddMore}
+          className="flex-shrink-0 w-20 rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-700 flex flex-col items-center justify-center text-xs text-gray-500 hover:text-blue-500 hover:border-blue-400"
+        >
+          <Plus className="h-5 w-5" />
+          Add
+        </button>
+      )}
+    </div>
+    <div className="flex justify-end space-x-2 mt-2">
+      <Button type="button" variant="ghost" size="sm" onClick={onClear}>
+        {sending ? 'Cancel all' : 'Cancel'}
+      </Button>
+      <Button type="button" size="sm" onClick={onSend} loading={sending} disabled={items.length === 0}>
+        <Send className="h-4 w-4 mr-1" />
+        Send {items.length === 1 ? 'file' : `${items.length} files`}
+      </Button>
+    </div>
+  </div>
+);
@@ -3,6 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { MessageCircle, Users, Settings, Sun, Moon, LogOut } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useNotifications } from '../../hooks/useNotifications';
 import { Button } from '../ui/Button';
 import { ChatSidebar } from './ChatSidebar';
 import { ChatWindow } from './ChatWindow';
@@ -13,6 +14,7 @@ import { LoadingSpinner } from '../ui/LoadingSpinner';
 export const ChatLayout: React.FC = () => {
   const [currentView, setCurrentView] = useState<'chats' | 'friends' | 'settings'>('chats');
   const [selectedChat, setSelectedChat] = useState<string | null>(null);
+  const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
   const [showFriendsPanel, setShowFriendsPanel] = useState(false);
   const { user, signOut } = useAuth();
   const { theme, toggleTheme } = useTheme();
@@ -23,6 +25,14 @@ export const ChatLayout: React.FC = () => {
     // Additional logic to start chat with user
   };
 
+  // Open a chat scrolled to a specific message, e.g. from search or a notification
+  const handleOpenMessage = (chatId: string, messageId: string) => {
+    setSelectedChat(chatId);
+    setFocusedMessageId(messageId);
+  };
+
+  useNotifications(user?.id, selectedChat, handleOpenMessage);
+
   return (
     <div className="h-screen min-h-0 min-w-0 flex flex-col bg-gradient-to-br from-blue-100 via-purple-100 to-pink-100 dark:from-black dark:via-gray-900 dark:to-black text-sm">
       {/* Header removed */}
@@ -53,6 +63,7 @@ export const ChatLayout: React.FC = () => {
             >
               <ChatSidebar
                 onSelectChat={setSelectedChat}
+                onOpenSearchResult={handleOpenMessage}
                 selectedChatId={selectedChat}
                 onShowFriends={() => setShowFriendsPanel(true)}
                 onShowSettings={() => setCurrentView('settings')}
@@ -78,6 +89,8 @@ export const ChatLayout: React.FC = () => {
             >
               <ChatWindow
                 chatId={selectedChat}
+                focusedMessageId={focusedMessageId}
+                onFocusHandled={() => setFocusedMessageId(null)}
                 onBack={() => setSelectedChat(null)}
                 onShowFriends={() => setShowFriendsPanel(true)}
                 onSelectChat={setSelectedChat}
@@ -1,21 +1,35 @@
 import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
-import { MessageCircle, Plus, Users } from 'lucide-react';
+import { MessageCircle, Plus, Users, CheckCheck, Mail } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { Button } from '../ui/Button';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { Chat, ChatMember } from '../../types/chat';
 import { useAuth } from '../../contexts/AuthContext';
+import { useDrafts } from '../../contexts/DraftsContext';
 import { Database } from '../../types/supabase';
 import { Avatar } from '../ui/Avatar';
+import { markChatsDelivered } from '../../lib/receipts';
+import { getMessagePreview } from '../../lib/messages';
+import { markdownToPlainText } from '../../lib/markdown';
+import { MIN_SEARCH_LENGTH } from '../../lib/search';
+import { MessageSearchResults } from './MessageSearchResults';
+import toast from 'react-hot-toast';
 
 type ChatRow = Database['public']['Tables']['chats']['Row'];
 type ChatMemberRow = Database['public']['Tables']['chat_members']['Row'];
 type ProfileRow = Database['public']['Tables']['profiles']['Row'];
 
+interface UnreadCount {
+  chat_id: string;
+  unread_count: number;
+  marked_unread: boolean;
+}
+
 interface ChatSidebarProps {
   selectedChatId: string | null;
   onSelectChat: (chatId: string) => void;
+  onOpenSearchResult: (chatId: string, messageId: string) => void;
   onShowFriends: () => void;
   onShowSettings: () => void;
 }
@@ -23,6 +37,7 @@ interface ChatSidebarProps {
 export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   selectedChatId,
   onSelectChat,
+  onOpenSearchResult,
   onShowFriends,
   onShowSettings
 }) => {
@@ -30,6 +45,7 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const { user } = useAuth();
+  const { drafts } = useDrafts();
   const [searchQuery, setSearchQuery] = useState('');
 
   useEffect(() => {
@@ -66,8 +82,12 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
             messages (
               id,
           content,
+          type,
+          file_name,
+          caption,
           created_at,
-              sender_id
+              sender_id,
+              deleted_at
             )
         `)
           .order('updated_at', { ascending: false });
@@ -75,6 +95,14 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
         if (chatsError) throw chatsError;
         if (!chats) return;
 
+        const { data: unreadCounts, error: unreadError } = await supabase.rpc('get_unread_counts');
+
+        if (unreadError) throw unreadError;
+
+        const unreadByChat = new Map<string, UnreadCount>(
+          ((unreadCounts || []) as UnreadCount[]).map((row) => [row.chat_id, row])
+        );
+
         // Process chats with last messages
         const processedChats = chats.map(chat => {
           const otherUser = chat.chat_members
@@ -91,13 +119,17 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
             updated_at: chat.updated_at,
             other_user: otherUser,
             last_message: lastMessage,
-            unread_count: 0
+            unread_count: Number(unreadByChat.get(chat.id)?.unread_count ?? 0),
+            marked_unread: unreadByChat.get(chat.id)?.marked_unread ?? false
           } as Chat;
         });
 
         if (mounted) {
       setChats(processedChats);
         }
+
+        // Everything the sidebar just loaded has reached this client
+        markChatsDelivered();
       } catch (err) {
         console.error('Error fetching chats:', err);
         setError(err instanceof Error ? err.message : 'Failed to fetch chats');
@@ -160,10 +192,39 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
     };
   }, [user]);
 
+  const markAsRead = async (chatId: string) => {
+    setChats(prev => prev.map(chat =>
+      chat.id === chatId ? { ...chat, unread_count: 0, marked_unread: false } : chat
+    ));
+
+    try {
+      const { error } = await supabase.rpc('mark_chat_read', { p_chat_id: chatId });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking chat as read:', error);
+      toast.error('Failed to mark chat as read');
+    }
+  };
+
+  const markAsUnread = async (chatId: string) => {
+    setChats(prev => prev.map(chat =>
+      chat.id === chatId ? { ...chat, marked_unread: true } : chat
+    ));
+
+    try {
+      const { error } = await supabase.rpc('mark_chat_unread', { p_chat_id: chatId });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error marking chat as unread:', error);
+      toast.error('Failed to mark chat as unread');
+    }
+  };
+
   const filteredChats = chats.filter(chat =>
     (chat.name?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false) ||
     chat.other_user?.full_name.toLowerCase().includes(searchQuery.toLowerCase())
   );
+  const searchingMessages = searchQuery.trim().length >= MIN_SEARCH_LENGTH;
 
   if (loading) {
     return (
@@ -217,7 +278,7 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
         <div className="relative">
           <input
             type="text"
-            placeholder="Search chats..."
+            placeholder="Search chats and messages..."
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full pl-8 pr-2 py-1 rounded-full border border-gray-300 dark:border-gray-700 bg-white/80 dark:bg-black/80 text-gray-900 dark:text-gray-100 placeholder-gray-400 dark:placeholder-gray-500 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400 dark:focus:ring-purple-500 focus:border-transparent shadow-md transition-all duration-300"
@@ -248,7 +309,7 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
           <div className="flex items-center justify-center h-full text-red-500">
             {error}
           </div>
-        ) : filteredChats.length === 0 ? (
+        ) : filteredChats.length === 0 && !searchingMessages ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400 p-4">
             <svg
               className="w-12 h-12 mb-4"
@@ -270,28 +331,67 @@ export const ChatSidebar: React.FC<ChatSidebarProps> = ({
           </div>
         ) : (
           <div className="space-y-2">
-            {filteredChats.map((chat, idx) => (
-              <motion.div
-                key={chat.id}
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                transition={{ delay: idx * 0.04, type: 'spring', stiffness: 120 }}
-                className={`cursor-pointer rounded-xl px-2 py-2 flex items-center space-x-2 transition-all duration-200 shadow-md bg-white/80 dark:bg-black/80 hover:bg-gradient-to-r hover:from-blue-400 hover:to-purple-400 dark:hover:from-purple-900 dark:hover:to-black hover:text-white dark:hover:text-gray-100 text-sm ${selectedChatId === chat.id ? 'ring-2 ring-blue-400 dark:ring-purple-500' : ''}`}
-                onClick={() => onSelectChat(chat.id)}
-              >
-                <Avatar
-                  src={chat.other_user?.avatar_url}
-                  name={chat.other_user?.full_name || chat.name || 'User'}
-                  size="sm"
-                />
-                <div className="flex-1 min-w-0">
-                  <div className="font-semibold truncate text-xs text-gray-900 dark:text-gray-100">{chat.name || chat.other_user?.full_name}</div>
-                  {chat.last_message && (
-                    <div className="text-xs truncate opacity-80 mt-0.5 text-gray-500 dark:text-gray-400">{chat.last_message.content}</div>
-                  )}
-                </div>
-              </motion.div>
-            ))}
+            {filteredChats.map((chat, idx) => {
+              const isUnread = chat.unread_count > 0 || !!chat.marked_unread;
+              // The open chat shows its draft in the composer instead
+              const draft = chat.id !== selectedChatId ? drafts[chat.id]?.content.trim() : undefined;
+              return (
+                <motion.div
+                  key={chat.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  transition={{ delay: idx * 0.04, type: 'spring', stiffness: 120 }}
+                  className={`group cursor-pointer rounded-xl px-2 py-2 flex items-center space-x-2 transition-all duration-200 shadow-md bg-white/80 dark:bg-black/80 hover:bg-gradient-to-r hover:from-blue-400 hover:to-purple-400 dark:hover:from-purple-900 dark:hover:to-black hover:text-white dark:hover:text-gray-100 text-sm ${selectedChatId === chat.id ? 'ring-2 ring-blue-400 dark:ring-purple-500' : ''}`}
+                  onClick={() => onSelectChat(chat.id)}
+                >
+                  <Avatar
+                    src={chat.other_user?.avatar_url}
+                    name={chat.other_user?.full_name || chat.name || 'User'}
+                    size="sm"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className={`truncate text-xs text-gray-900 dark:text-gray-100 ${isUnread ? 'font-extrabold' : 'font-semibold'}`}>{chat.name || chat.other_user?.full_name}</div>
+                    {draft ? (
+                      <div className="text-xs truncate mt-0.5 text-gray-500 dark:text-gray-400">
+                        <span className="font-semibold text-red-500">Draft:</span> {markdownToPlainText(draft)}
+                      </div>
+                    ) : chat.last_message && (
+                      <div className={`text-xs truncate mt-0.5 ${isUnread ? 'text-gray-800 dark:text-gray-200' : 'opacity-80 text-gray-500 dark:text-gray-400'}`}>{getMessagePreview(chat.last_message)}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-1 flex-shrink-0">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        if (isUnread) {
+                          markAsRead(chat.id);
+                        } else {
+                          markAsUnread(chat.id);
+                        }
+                      }}
+                      className="hidden group-hover:block p-1 rounded-full text-gray-400 hover:text-blue-500 dark:hover:text-purple-400"
+                      title={isUnread ? 'Mark as read' : 'Mark as unread'}
+                    >
+                      {isUnread ? <CheckCheck className="w-4 h-4" /> : <Mail className="w-4 h-4" />}
+                    </button>
+                    {chat.unread_count > 0 ? (
+                      <span className="min-w-[1.25rem] h-5 px-1.5 rounded-full bg-gradient-to-r from-blue-500 to-purple-500 text-white text-[10px] font-bold flex items-center justify-center">
+                        {chat.unread_count > 99 ? '99+' : chat.unread_count}
+                      </span>
+                    ) : chat.marked_unread ? (
+                      <span className="w-3 h-3 rounded-full bg-gradient-to-r from-blue-500 to-purple-500" title="Marked as unread" />
+                    ) : null}
+                  </div>
+                </motion.div>
+              );
+            })}
+            {searchingMessages && (
+              <MessageSearchResults
+                query={searchQuery}
+                chats={chats}
+                onSelectResult={onOpenSearchResult}
+              />
+            )}
           </div>
         )}
       </div>
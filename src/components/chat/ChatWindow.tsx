@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useLayoutEffect, useState, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   ArrowLeft, 
@@ -10,35 +10,100 @@ import {
   Phone,
   Video,
   Info,
-  Users,
-  Image as ImageIcon,
-  MessageCircle
+  MessageCircle,
+  Check,
+  CheckCheck,
+  Pencil,
+  Ban,
+  Reply,
+  MessagesSquare,
+  ArrowDown,
+  X,
+  Clock,
+  AlertCircle,
+  Search,
+  AtSign,
+  Bell,
+  BellOff,
+  CalendarClock,
+  Timer,
+  BarChart2,
+  UploadCloud,
+  Forward
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { useAuth } from '../../contexts/AuthContext';
-import { useRealtime } from '../../hooks/useRealtime';
+import { useOutbox } from '../../contexts/OutboxContext';
+import { useDrafts } from '../../contexts/DraftsContext';
+import { useMessages } from '../../hooks/useMessages';
+import { useReadPosition } from '../../hooks/useReadPosition';
+import { useReceipts } from '../../hooks/useReceipts';
+import { useReactions } from '../../hooks/useReactions';
+import { DELETE_UNDO_WINDOW, DeleteMode, useMessageDeletion } from '../../hooks/useMessageDeletion';
+import { getReceiptStatus, ReceiptStatus } from '../../lib/receipts';
+import { QUICK_REACTIONS, Reaction, summarizeReactions } from '../../lib/reactions';
+import { canEditMessage, editMessage, getMessagePreview, mergeMessages } from '../../lib/messages';
+import { toPendingMessage } from '../../lib/outbox';
 import { useTyping } from '../../hooks/useTyping';
+import { useChatFind } from '../../hooks/useChatFind';
+import { useScheduledMessages } from '../../hooks/useScheduledMessages';
+import { usePolls } from '../../hooks/usePolls';
+import { useAttachmentUploads } from '../../hooks/useAttachmentUploads';
+import { useFileDrop } from '../../hooks/useFileDrop';
+import {
+  MentionCandidate,
+  extractMentions,
+  filterMentionCandidates,
+  getMentionQuery,
+  insertMention,
+} from '../../lib/mentions';
+import { setChatMuted } from '../../lib/notifications';
+import { describeSystemNotice, formatMessageTtl, parseSystemNotice, setMessageTtl } from '../../lib/disappearing';
+import { NewPoll, createPoll } from '../../lib/polls';
+import {
+  CommandContext,
+  CommandError,
+  SlashCommand,
+  filterCommands,
+  getCommandQuery,
+  runCommand,
+  unescapeCommand,
+} from '../../lib/commands';
+import { leaveChat, setChatTopic } from '../../lib/chats';
+import { FORWARDED_MANY_TIMES, canForwardMessage } from '../../lib/forward';
+import { ATTACHMENT_ACCEPT, getChatMediaPath, getPastedFiles } from '../../lib/media';
 import { Button } from '../ui/Button';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { formatDistanceToNow, format, isSameDay } from 'date-fns';
 import toast from 'react-hot-toast';
-import { Database } from '../../types/supabase';
 import { Input } from '../ui/Input';
 import { EmojiPicker } from '../ui/EmojiPicker';
 import { Avatar } from '../ui/Avatar';
 import { Modal } from '../ui/Modal';
+import { MessageInfoModal } from './MessageInfoModal';
+import { EditHistoryModal } from './EditHistoryModal';
+import { ThreadPanel } from './ThreadPanel';
+import { DeleteMessageModal } from './DeleteMessageModal';
+import { FindBar } from './FindBar';
+import { MentionsPanel } from './MentionsPanel';
+import { SharedMediaPanel } from './SharedMediaPanel';
+import { Lightbox } from './Lightbox';
+import { MentionSuggestions } from './MentionSuggestions';
+import { CommandSuggestions } from './CommandSuggestions';
+import { MessageText, TextOptions } from './MessageText';
+import { ScheduleMessageModal } from './ScheduleMessageModal';
+import { ScheduledMessagesPanel } from './ScheduledMessagesPanel';
+import { DisappearingMessagesModal } from './DisappearingMessagesModal';
+import { CreatePollModal } from './CreatePollModal';
+import { PollMessage } from './PollMessage';
+import { PollResultsModal } from './PollResultsModal';
+import { FileAttachment } from './FileAttachment';
+import { ProgressiveImage } from './ProgressiveImage';
+import { AttachmentTray } from './AttachmentTray';
+import { AlbumGrid } from './AlbumGrid';
+import { ForwardModal } from './ForwardModal';
 import './MessageBubble.css';
-import { Message } from '../../types/chat';
-
-type Profile = Database['public']['Tables']['profiles']['Row'];
-type Message = Database['public']['Tables']['messages']['Row'] & {
-  sender: {
-    id: string;
-    name: string;
-    username: string;
-    avatar_url: string | null;
-  };
-};
+import { LinkPreview as LinkPreviewData, Message } from '../../types/chat';
 
 interface ChatInfo {
   id: string;
@@ -53,6 +118,11 @@ interface ChatInfo {
     avatar_url: string | null;
   };
   member_count?: number;
+  // Group topic, empty when none is set
+  topic?: string;
+  muted: boolean;
+  // Disappearing messages timer in seconds, null when off
+  message_ttl: number | null;
   members: {
     id: string;
     full_name: string;
@@ -74,135 +144,113 @@ interface ChatMemberProfile {
 interface ChatMember {
   user_id: string;
   role: string;
+  muted: boolean;
   profiles: ChatMemberProfile;
 }
 
 interface ChatWindowProps {
   chatId: string;
+  focusedMessageId?: string | null;
+  onFocusHandled?: () => void;
   onBack: () => void;
   onShowFriends: () => void;
   onSelectChat?: (chatId: string) => void;
 }
 
-// --- URL detection utility ---
-const urlRegex = /((https?:\/\/|www\.)[\w-]+(\.[\w-]+)+(\/[\w-./?%&=]*)?)/gi;
-
-function extractUrls(text: string): string[] {
-  return (text.match(urlRegex) || []).map(url => {
-    if (!/^https?:\/\//i.test(url)) return 'https://' + url;
-    return url;
-  });
-}
-
-function linkify(text: string) {
-  let i = 0;
-  return text.replace(urlRegex, (url) => {
-    let href = url;
-    if (!/^https?:\/\//i.test(url)) href = 'https://' + url;
-    return `<a href="${href}" target="_blank" rel="noopener noreferrer" class="text-blue-500 underline break-all">${url}</a>`;
-  });
-}
-
 // --- LinkPreview component ---
-const LinkPreview: React.FC<{ url: string }> = ({ url }) => {
-  const [meta, setMeta] = useState<any>(null);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    let cancelled = false;
-    async function fetchMeta() {
-      setLoading(true);
-      setError(null);
-      try {
-        // Use a public Open Graph API proxy (for demo; in production, use your own serverless function)
-        const res = await fetch(`https://jsonlink.io/api/extract?url=${encodeURIComponent(url)}`);
-        if (!res.ok) throw new Error('Failed to fetch preview');
-        const data = await res.json();
-        if (!cancelled) setMeta(data);
-      } catch (e: any) {
-        if (!cancelled) setError('No preview available');
-      } finally {
-        if (!cancelled) setLoading(false);
-      }
-    }
-    fetchMeta();
-    return () => { cancelled = true; };
-  }, [url]);
-
-  if (loading) return <div className="mt-2 text-xs text-gray-400">Loading preview...</div>;
-  if (error || !meta) return null;
-
-  return (
-    <a href={meta.url || url} target="_blank" rel="noopener noreferrer" className="block mt-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white/80 dark:bg-black/80 shadow hover:shadow-lg transition overflow-hidden">
-      {meta.images && meta.images[0] && (
-        <img src={meta.images[0]} alt={meta.title || meta.url} className="w-full h-32 object-cover" />
-      )}
-      <div className="p-3">
-        <div className="font-semibold text-gray-900 dark:text-white text-sm truncate">{meta.title || meta.url}</div>
-        {meta.description && <div className="text-xs text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{meta.description}</div>}
-        <div className="text-xs text-blue-500 mt-1">{meta.domain || (meta.url || url).replace(/^https?:\/\//, '').split('/')[0]}</div>
-      </div>
-    </a>
-  );
-};
-
-// Friend type for forward modal
-interface FriendForForward {
-  id: string;
-  full_name: string;
-  username: string;
-  avatar_url: string | null;
-}
+// Rendered from the preview stored on the message by the link-preview edge
+// function. Its image is a copy in chat-media; older previews that still point
+// at the linked site are shown without one so nothing third-party is loaded.
+const LinkPreview: React.FC<{ preview: LinkPreviewData }> = ({ preview }) => (
+  <a href={preview.url} target="_blank" rel="noopener noreferrer" className="block mt-2 rounded-xl border border-gray-200 dark:border-gray-700 bg-white/80 dark:bg-black/80 shadow hover:shadow-lg transition overflow-hidden">
+    {preview.image && getChatMediaPath(preview.image) && (
+      <img src={preview.image} alt={preview.title || preview.url} loading="lazy" referrerPolicy="no-referrer" className="w-full h-32 object-cover" />
+    )}
+    <div className="p-3">
+      <div className="font-semibold text-gray-900 dark:text-white text-sm truncate">{preview.title || preview.url}</div>
+      {preview.description && <div className="text-xs text-gray-600 dark:text-gray-300 mt-1 line-clamp-2">{preview.description}</div>}
+      <div className="text-xs text-blue-500 mt-1">{preview.site_name}</div>
+    </div>
+  </a>
+);
 
-// --- Forward Modal ---
-const ForwardModal: React.FC<{
-  isOpen: boolean;
-  onClose: () => void;
-  messages: Message[];
-  friends: FriendForForward[];
-  onForward: (friend: FriendForForward) => void;
-}> = ({ isOpen, onClose, messages, friends, onForward }) => {
-  if (!isOpen || !messages || messages.length === 0) return null;
-  return (
-    <Modal isOpen={isOpen} onClose={onClose} title="Forward Messages">
-      <div className="mb-4 text-gray-700 dark:text-gray-200">Select a friend to forward {messages.length > 1 ? `${messages.length} messages` : 'this message'}:</div>
-      <div className="max-h-64 overflow-y-auto space-y-2">
-        {friends.map(friend => (
-          <button
-            key={friend.id}
-            onClick={() => onForward(friend)}
-            className="w-full flex items-center space-x-3 p-3 rounded-lg hover:bg-blue-50 dark:hover:bg-gray-800 transition"
-          >
-            <div className="w-10 h-10 rounded-full bg-gradient-to-br from-blue-400 via-purple-400 to-pink-400 dark:from-purple-900 dark:via-blue-900 dark:to-black flex items-center justify-center">
-              {friend.avatar_url ? (
-                <img src={friend.avatar_url} alt={friend.full_name} className="w-full h-full rounded-full object-cover" />
-              ) : (
-                <Users className="h-6 w-6 text-white" />
-              )}
-            </div>
-            <div className="flex-1 min-w-0 text-left">
-              <div className="font-medium text-gray-900 dark:text-white truncate">{friend.full_name}</div>
-              <div className="text-xs text-gray-500 dark:text-gray-400 truncate">@{friend.username}</div>
-            </div>
-          </button>
-        ))}
-      </div>
-    </Modal>
-  );
+// --- Delivery state ticks for own messages ---
+const ReceiptIndicator: React.FC<{ status: ReceiptStatus }> = ({ status }) => {
+  if (status === 'read') {
+    return <CheckCheck className="h-3.5 w-3.5 text-sky-300" aria-label="Read" />;
+  }
+  if (status === 'delivered') {
+    return <CheckCheck className="h-3.5 w-3.5" aria-label="Delivered" />;
+  }
+  return <Check className="h-3.5 w-3.5" aria-label="Sent" />;
 };
 
-export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFriends, onSelectChat }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
+export const ChatWindow: React.FC<ChatWindowProps> = ({
+  chatId,
+  focusedMessageId,
+  onFocusHandled,
+  onBack,
+  onShowFriends,
+  onSelectChat,
+}) => {
+  const { user, profile } = useAuth();
+  const { entries: outboxEntries, enqueue, retry: retrySend, discard: discardSend } = useOutbox();
+  const {
+    messages,
+    setMessages,
+    loading,
+    loadingOlder,
+    loadingNewer,
+    hasMore,
+    hasNewer,
+    error: messagesError,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+    jumpToLatest,
+  } = useMessages(chatId, user?.id);
   const [chatInfo, setChatInfo] = useState<ChatInfo | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [chatInfoError, setChatInfoError] = useState<string | null>(null);
+  const error = messagesError || chatInfoError;
   const [newMessage, setNewMessage] = useState('');
-  const [sending, setSending] = useState(false);
+  const { getDraft, setDraft } = useDrafts();
+  const draftChatIdRef = useRef<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messageListRef = useRef<HTMLDivElement>(null);
+  const topSentinelRef = useRef<HTMLDivElement>(null);
+  const bottomSentinelRef = useRef<HTMLDivElement>(null);
+  const messageInputRef = useRef<HTMLInputElement>(null);
+  const scrollToLatestRef = useRef(false);
+  const scrollAnchorRef = useRef<{ id: string; top: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { user } = useAuth();
+  useReadPosition(chatId, messages, messageListRef);
+  const receiptPositions = useReceipts(chatId);
+  const { reactions, toggleReaction } = useReactions(chatId, messages, user?.id);
+  const { polls, vote: votePoll, close: closePoll } = usePolls(chatId, messages, user?.id);
+  const [showCreatePoll, setShowCreatePoll] = useState(false);
+  const [pollResultsFor, setPollResultsFor] = useState<string | null>(null);
+  const [reactionBarFor, setReactionBarFor] = useState<string | null>(null);
+  const [reactionPickerFor, setReactionPickerFor] = useState<string | null>(null);
+  const { pendingDeletes, deleteMessages } = useMessageDeletion(chatId, user?.id, setMessages);
+  const [deleteTargets, setDeleteTargets] = useState<Message[]>([]);
+  const [infoMessage, setInfoMessage] = useState<Message | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [historyMessage, setHistoryMessage] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [threadRootId, setThreadRootId] = useState<string | null>(null);
+  const [showMentions, setShowMentions] = useState(false);
+  const [showSharedMedia, setShowSharedMedia] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<{ query: string; start: number } | null>(null);
+  const [mentionIndex, setMentionIndex] = useState(0);
+  const [commandQuery, setCommandQuery] = useState<string | null>(null);
+  const [commandIndex, setCommandIndex] = useState(0);
+  const { scheduled, schedule, update: updateScheduled, cancel: cancelScheduled } = useScheduledMessages(chatId, user?.id);
+  const [scheduleDraft, setScheduleDraft] = useState<{ id?: string; content: string; sendAt?: Date } | null>(null);
+  const [showScheduled, setShowScheduled] = useState(false);
+  const [showDisappearing, setShowDisappearing] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
   const [typingUsers, setTypingUsers] = useState<string[]>([]);
   const [typingUserNames, setTypingUserNames] = useState<{[key: string]: string}>({});
   const typingTimeoutRef = useRef<NodeJS.Timeout>();
@@ -210,290 +258,52 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
   const [selectionMode, setSelectionMode] = useState(false);
   const [selectedMessages, setSelectedMessages] = useState<string[]>([]);
   const longPressTimeout = useRef<NodeJS.Timeout | null>(null);
-  const imageInputRef = useRef<HTMLInputElement>(null);
-  const [uploadingImage, setUploadingImage] = useState(false);
-  const [mediaModal, setMediaModal] = useState<{ url: string; type: 'image' | 'video' } | null>(null);
+  const attachmentInputRef = useRef<HTMLInputElement>(null);
+  const attachments = useAttachmentUploads(chatId, user?.id);
+  const { isDragging, dropHandlers } = useFileDrop(attachments.addFiles);
+  const [lightboxMessage, setLightboxMessage] = useState<Message | null>(null);
   const [forwardModalOpen, setForwardModalOpen] = useState(false);
   const [forwardMessages, setForwardMessages] = useState<Message[]>([]);
-  const [friendsForForward, setFriendsForForward] = useState<FriendForForward[]>([]);
   const [selectedForForward, setSelectedForForward] = useState<string | null>(null);
 
   useEffect(() => {
-    let mounted = true;
-    let pollInterval: NodeJS.Timeout;
-
-    const fetchMessages = async () => {
-      if (!user) return;
-
-      try {
-        setLoading(true);
-        setError(null);
-
-        // Fetch chat info first
-        await fetchChatInfo();
-
-        const { data: messages, error: messagesError } = await supabase
-          .from('messages')
-          .select(`
-            id,
-            content,
-            type,
-            created_at,
-            sender_id,
-            chat_id,
-            profiles!inner (
-              id,
-              full_name,
-              username,
-              avatar_url
-            )
-          `)
-          .eq('chat_id', chatId)
-          .order('created_at', { ascending: true });
-
-        if (messagesError) throw messagesError;
-
-        if (mounted) {
-          setMessages(
-            (messages as unknown as Array<Message & { profiles: Profile }>).map(
-              (message) => ({
-                id: message.id,
-                content: message.content,
-                type: message.type,
-                created_at: message.created_at,
-                sender_id: message.sender_id,
-                chat_id: message.chat_id,
-                sender: {
-                  id: message.profiles.id,
-                  name: message.profiles.full_name,
-                  username: message.profiles.username,
-                  avatar_url: message.profiles.avatar_url,
-                },
-              })
-            )
-          );
-        }
-      } catch (error) {
-        console.error('Error fetching messages:', error);
-        if (mounted) {
-          setError('Failed to load messages. Please try again.');
-        }
-      } finally {
-        if (mounted) {
-          setLoading(false);
-        }
-      }
-    };
-
-    const pollForNewMessages = async () => {
-      if (!user) return;
-
-      try {
-        const { data: messages, error: messagesError } = await supabase
-          .from('messages')
-          .select(`
-            id,
-            content,
-            type,
-            created_at,
-            sender_id,
-            chat_id,
-            profiles!inner (
-              id,
-              full_name,
-              username,
-              avatar_url
-            )
-          `)
-          .eq('chat_id', chatId)
-          .order('created_at', { ascending: true });
-
-        if (messagesError) throw messagesError;
-
-        if (mounted && messages) {
-          setMessages((currentMessages) => {
-            const newMessages = (messages as unknown as Array<Message & { profiles: Profile }>).map(
-              (message) => ({
-                id: message.id,
-                content: message.content,
-                type: message.type,
-                created_at: message.created_at,
-                sender_id: message.sender_id,
-                chat_id: message.chat_id,
-                sender: {
-                  id: message.profiles.id,
-                  name: message.profiles.full_name,
-                  username: message.profiles.username,
-                  avatar_url: message.profiles.avatar_url,
-                },
-              })
-            );
-
-            // Only update if there are new messages
-            if (newMessages.length > currentMessages.length) {
-              return newMessages;
-            }
-            return currentMessages;
-          });
-        }
-      } catch (error) {
-        console.error('Error polling for messages:', error);
-      }
-    };
-
-    // Initial fetch
-    fetchMessages();
-
-    // Set up polling interval
-    pollInterval = setInterval(pollForNewMessages, 1000);
-
-    // Subscribe to new messages
-    const channel = supabase
-      .channel(`messages:${chatId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `chat_id=eq.${chatId}`,
-        },
-        async (payload) => {
-          console.log('New message received:', payload);
-          if (mounted) {
-            try {
-              const { data: profile, error: profileError } = await supabase
-                .from('profiles')
-                .select('id, full_name, username, avatar_url')
-                .eq('id', payload.new.sender_id)
-                .single();
-
-              if (profileError) {
-                console.error('Error fetching sender profile:', profileError);
-                return;
-              }
-
-              if (profile) {
-                const newMessage = {
-                  id: payload.new.id,
-                  content: payload.new.content,
-                  type: payload.new.type,
-                  created_at: payload.new.created_at,
-                  sender_id: payload.new.sender_id,
-                  chat_id: payload.new.chat_id,
-                  sender: {
-                    id: profile.id,
-                    name: profile.full_name,
-                    username: profile.username,
-                    avatar_url: profile.avatar_url,
-                  },
-                };
-
-                console.log('Adding new message:', newMessage);
-                setMessages((prev) => [...prev, newMessage]);
-                scrollToBottom();
-              }
-            } catch (error) {
-              console.error('Error handling new message:', error);
-            }
-          }
-        }
-      )
-      .on(
-        'postgres_changes',
-        {
-          event: 'DELETE',
-          schema: 'public',
-          table: 'messages',
-          filter: `chat_id=eq.${chatId}`,
-        },
-        (payload) => {
-          console.log('Message deleted:', payload);
-          if (mounted) {
-            setMessages((prev) => prev.filter((msg) => msg.id !== payload.old.id));
-          }
-        }
-      )
-      .subscribe((status) => {
-        console.log('Subscription status:', status);
-      });
-
-    return () => {
-      mounted = false;
-      clearInterval(pollInterval);
-      channel.unsubscribe();
-    };
+    if (!user) return;
+    setChatInfoError(null);
+    fetchChatInfo();
   }, [chatId, user]);
 
-  // Real-time message updates
-  useRealtime(
-    'messages',
-    `chat_id=eq.${chatId}`,
-    (payload) => {
-      const newMessage = payload.new as Message;
-      // Fetch sender info
-      fetchMessageWithSender(newMessage.id);
-    },
-    undefined,
-    (payload) => {
-      // Handle message deletion for both sender and receiver
-      setMessages(prev => prev.filter(msg => msg.id !== payload.old.id));
-    }
-  );
-
-  const fetchMessageWithSender = async (messageId: string) => {
-    const { data, error } = await supabase
-      .from('messages')
-      .select(`
-        id,
-        content,
-        type,
-        created_at,
-        sender_id,
-        chat_id,
-        profiles (
-          id,
-          full_name,
-          username,
-          avatar_url
-        )
-      `)
-      .eq('id', messageId)
-      .single();
-
-    if (error) {
-      console.error('Error fetching message:', error);
+  useEffect(() => {
+    setReplyingTo(null);
+    setThreadRootId(null);
+    setShowMentions(false);
+    setShowSharedMedia(false);
+    setLightboxMessage(null);
+    setMentionQuery(null);
+    setCommandQuery(null);
+    setHighlightedMessageId(null);
+    setScheduleDraft(null);
+    setShowScheduled(false);
+    setShowDisappearing(false);
+    setShowCreatePoll(false);
+    setPollResultsFor(null);
+  }, [chatId]);
+
+  // Restore the chat's draft when switching chats and save it as it changes
+  useEffect(() => {
+    if (draftChatIdRef.current !== chatId) {
+      draftChatIdRef.current = chatId;
+      setNewMessage(getDraft(chatId));
       return;
     }
-
-    if (data) {
-      const message = data as unknown as Message & { profiles: Profile };
-      setMessages(prev => [
-        ...prev,
-        {
-          id: message.id,
-          content: message.content,
-          type: message.type,
-          created_at: message.created_at,
-          sender_id: message.sender_id,
-          chat_id: message.chat_id,
-          sender: {
-            id: message.profiles.id,
-            name: message.profiles.full_name,
-            username: message.profiles.username,
-            avatar_url: message.profiles.avatar_url,
-          },
-        },
-      ]);
-    }
-  };
+    setDraft(chatId, newMessage);
+  }, [chatId, newMessage, getDraft, setDraft]);
 
   const fetchChatInfo = async () => {
     try {
       // First, get the basic chat info
       const { data: chat, error: chatError } = await supabase
         .from('chats')
-        .select('id, type, name, avatar_url')
+        .select('id, type, name, avatar_url, message_ttl, description')
         .eq('id', chatId)
         .single();
 
@@ -508,6 +318,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
         .select(`
           user_id,
           role,
+          muted,
           profiles (
             id,
             full_name,
@@ -530,6 +341,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
       }
 
       const typedMembers = members as unknown as ChatMember[];
+      const muted = typedMembers.find(m => m.user_id === user?.id)?.muted ?? false;
 
       if (chat.type === 'direct') {
         // Find the other user in the chat
@@ -556,6 +368,8 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
             last_seen: otherMember.profiles.last_seen,
             avatar_url: otherMember.profiles.avatar_url
           },
+          muted,
+          message_ttl: chat.message_ttl ?? null,
           members: [
             {
               id: otherMember.profiles.id,
@@ -582,12 +396,15 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
           name: chat.name || 'Unnamed Group',
           avatar_url: chat.avatar_url,
           member_count: formattedMembers.length,
+          topic: chat.description ?? '',
+          muted,
+          message_ttl: chat.message_ttl ?? null,
           members: formattedMembers,
         });
       }
     } catch (error) {
       console.error('Error fetching chat info:', error);
-      setError('Failed to load chat information');
+      setChatInfoError('Failed to load chat information');
     }
   };
 
@@ -599,35 +416,177 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
     }
   };
 
+  // Other group members can be @mentioned from the composer
+  const mentionCandidates: MentionCandidate[] = chatInfo?.type === 'group'
+    ? chatInfo.members.filter((member) => member.id !== user?.id)
+    : [];
+  const mentionSuggestions = mentionQuery
+    ? filterMentionCandidates(mentionCandidates, mentionQuery.query)
+    : [];
+
+  const handleSelectMention = (candidate: MentionCandidate) => {
+    if (!mentionQuery) return;
+    const caret = messageInputRef.current?.selectionStart ?? newMessage.length;
+    const next = insertMention(newMessage, mentionQuery.start, caret, candidate.username);
+    setNewMessage(next.text);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      messageInputRef.current?.focus();
+      messageInputRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  // Messages go through the outbox, which shows them straight away and keeps
+  // retrying while offline
+  const sendToOutbox = (content: string, type: 'text' | 'action' = 'text') => {
+    enqueue({
+      chat_id: chatId,
+      content,
+      type,
+      mentions: extractMentions(content, mentionCandidates),
+      reply_to: replyingTo?.id ?? null,
+      reply: replyingTo
+        ? {
+            id: replyingTo.id,
+            content: replyingTo.content,
+            type: replyingTo.type,
+            sender_id: replyingTo.sender_id,
+            sender_name: replyingTo.sender.name,
+          }
+        : null,
+    });
+
+    setReplyingTo(null);
+    // The sent message only shows up once the window is back at the present
+    if (hasNewer) handleJumpToLatest();
+  };
+
+  // Text starting with a known command is run instead of sent; see lib/commands
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!newMessage.trim() || !user) return;
-
-    setSending(true);
+    const content = newMessage.trim();
+    if (!content || !user) return;
 
     try {
-      const { error } = await supabase.from('messages').insert([
-        {
-          chat_id: chatId,
-          sender_id: user.id,
-          content: newMessage.trim(),
-        },
-      ]);
+      if (!(await runCommand(content, commandContext))) {
+        sendToOutbox(unescapeCommand(content));
+      }
+    } catch (error) {
+      if (error instanceof CommandError) {
+        toast.error(error.message);
+      } else {
+        console.error('Error running command:', error);
+        toast.error('Command failed');
+      }
+      return;
+    }
 
-      if (error) throw error;
+    setNewMessage('');
+    setMentionQuery(null);
+    setCommandQuery(null);
+    // Clear typing status when sending message
+    updateTypingStatus(false);
+  };
 
+  // Used for both new and edited scheduled messages; errors are shown by the modal
+  const handleSubmitSchedule = async (content: string, sendAt: Date) => {
+    const mentions = extractMentions(content, mentionCandidates);
+    if (scheduleDraft?.id) {
+      await updateScheduled(scheduleDraft.id, content, mentions, sendAt);
+      toast.success('Scheduled message updated');
+    } else {
+      await schedule(content, mentions, sendAt);
       setNewMessage('');
-      // Clear typing status when sending message
+      setMentionQuery(null);
       updateTypingStatus(false);
-    } catch (error: any) {
-      console.error('Error sending message:', error);
-      toast.error('Failed to send message');
-    } finally {
-      setSending(false);
+      toast.success(`Message scheduled for ${format(sendAt, 'EEE, MMM d · HH:mm')}`);
+    }
+    setScheduleDraft(null);
+  };
+
+  // Polls are posted directly rather than through the outbox; errors are
+  // shown by the modal
+  const handleCreatePoll = async (poll: NewPoll) => {
+    await createPoll(chatId, poll);
+    setShowCreatePoll(false);
+    if (hasNewer) handleJumpToLatest();
+  };
+
+  const handleVotePoll = async (messageId: string, optionIds: string[]) => {
+    try {
+      await votePoll(messageId, optionIds);
+    } catch (error) {
+      console.error('Error voting in poll:', error);
+      toast.error('Failed to record your vote');
+    }
+  };
+
+  const handleClosePoll = async (messageId: string) => {
+    try {
+      await closePoll(messageId);
+    } catch (error) {
+      console.error('Error closing poll:', error);
+      toast.error('Failed to close poll');
+    }
+  };
+
+  const handleCancelScheduled = async (id: string) => {
+    try {
+      await cancelScheduled(id);
+      toast.success('Scheduled message cancelled');
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      toast.error('Failed to cancel scheduled message');
     }
   };
 
+  const handleSelectCommand = (command: SlashCommand) => {
+    const text = `/${command.name} `;
+    setNewMessage(text);
+    setCommandQuery(null);
+    requestAnimationFrame(() => {
+      messageInputRef.current?.focus();
+      messageInputRef.current?.setSelectionRange(text.length, text.length);
+    });
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (commandSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setCommandIndex((index) => (index + step + commandSuggestions.length) % commandSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handleSelectCommand(commandSuggestions[Math.min(commandIndex, commandSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCommandQuery(null);
+        return;
+      }
+    }
+    if (mentionSuggestions.length > 0) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setMentionIndex((index) => (index + step + mentionSuggestions.length) % mentionSuggestions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        handleSelectMention(mentionSuggestions[Math.min(mentionIndex, mentionSuggestions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setMentionQuery(null);
+        return;
+      }
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSendMessage(e);
@@ -636,6 +595,10 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
 
   const handleTyping = (e: React.ChangeEvent<HTMLInputElement>) => {
     setNewMessage(e.target.value);
+    setMentionQuery(getMentionQuery(e.target.value, e.target.selectionStart ?? e.target.value.length));
+    setMentionIndex(0);
+    setCommandQuery(getCommandQuery(e.target.value));
+    setCommandIndex(0);
     
     // Clear existing timeout
     if (typingTimeoutRef.current) {
@@ -651,41 +614,178 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
     }, 3000);
   };
 
+  // Muted chats stay quiet except for mentions
+  const handleSetMuted = async (muted: boolean) => {
+    if (!chatInfo) return;
+    setChatInfo((prev) => prev && { ...prev, muted });
+    try {
+      await setChatMuted(chatId, muted);
+      toast.success(muted ? "Chat muted. You'll still be notified when mentioned." : 'Chat unmuted');
+    } catch (error) {
+      console.error('Error updating chat notifications:', error);
+      setChatInfo((prev) => prev && { ...prev, muted: !muted });
+      toast.error('Failed to update notifications');
+    }
+  };
+
+  const handleToggleMuted = () => handleSetMuted(!chatInfo?.muted);
+
+  const isGroupAdmin = chatInfo?.members.find((member) => member.id === user?.id)?.member_role === 'admin';
+  const canChangeMessageTtl = chatInfo?.type === 'direct' || isGroupAdmin;
+
+  // What slash commands typed in the composer act on. Errors from the
+  // server are handled by handleSendMessage.
+  const commandContext: CommandContext = {
+    chatType: chatInfo?.type,
+    isAdmin: isGroupAdmin,
+    muted: chatInfo?.muted ?? false,
+    sendText: (content) => sendToOutbox(content),
+    sendAction: (content) => sendToOutbox(content, 'action'),
+    openPollComposer: () => setShowCreatePoll(true),
+    createPoll: (question, options) =>
+      handleCreatePoll({ question, options, multiple_choice: false, anonymous: false, closes_at: null }),
+    schedule: async (content, sendAt) => {
+      await schedule(content, [], sendAt);
+      toast.success(`Reminder set for ${format(sendAt, 'EEE, MMM d · HH:mm')}`);
+    },
+    setMuted: handleSetMuted,
+    setTopic: async (topic) => {
+      await setChatTopic(chatId, topic);
+      setChatInfo((prev) => prev && { ...prev, topic: topic.trim() });
+    },
+    leave: async () => {
+      await leaveChat(chatId);
+      toast.success(`You left ${chatInfo?.name ?? 'the group'}`);
+      onBack();
+    },
+  };
+  const commandSuggestions = commandQuery !== null ? filterCommands(commandQuery, commandContext) : [];
+
+  const handleChangeMessageTtl = async (ttl: number | null) => {
+    setShowDisappearing(false);
+    if (!chatInfo || ttl === chatInfo.message_ttl) return;
+    const previous = chatInfo.message_ttl;
+    setChatInfo((prev) => prev && { ...prev, message_ttl: ttl });
+    try {
+      await setMessageTtl(chatId, ttl);
+    } catch (error) {
+      console.error('Error updating disappearing messages:', error);
+      setChatInfo((prev) => prev && { ...prev, message_ttl: previous });
+      toast.error('Failed to update disappearing messages');
+    }
+  };
+
   const handleFileUpload = () => {
     fileInputRef.current?.click();
   };
 
-  const deleteMessage = async (messageId: string) => {
+  const handleConfirmDelete = (mode: DeleteMode) => {
+    const targets = deleteTargets;
+    setDeleteTargets([]);
+    const undo = deleteMessages(targets, mode);
+    toast((t) => (
+      <span className="flex items-center space-x-3">
+        <span>{targets.length > 1 ? `${targets.length} messages deleted` : 'Message deleted'}</span>
+        <button
+          className="font-semibold text-blue-500 hover:underline"
+          onClick={() => { undo(); toast.dismiss(t.id); }}
+        >
+          Undo
+        </button>
+      </span>
+    ), { duration: DELETE_UNDO_WINDOW });
+  };
+
+  const handleStartReply = (message: Message) => {
+    setReplyingTo(message);
+    messageInputRef.current?.focus();
+  };
+
+  // Load the message if it is outside the current window, then scroll to it
+  const handleJumpToMessage = useCallback(async (messageId: string) => {
+    const found = await jumpToMessage(messageId);
+    if (!found) {
+      toast.error('Original message is no longer available');
+      return;
+    }
+    setHighlightedMessageId(messageId);
+  }, [jumpToMessage]);
+
+  const find = useChatFind(chatId, handleJumpToMessage);
+  const findInputRef = useRef<HTMLInputElement>(null);
+  const findQuery = find.isOpen ? find.query.trim() : '';
+  const openFind = find.open;
+
+  // Take over Ctrl+F / Cmd+F while a chat is open
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f') {
+        e.preventDefault();
+        openFind();
+        findInputRef.current?.select();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [openFind]);
+
+  // Jump to a message opened from search once the chat's first page is in,
+  // so the initial load doesn't overwrite the window around it
+  useEffect(() => {
+    if (!focusedMessageId || loading || messages[0]?.chat_id !== chatId) return;
+    onFocusHandled?.();
+    handleJumpToMessage(focusedMessageId);
+  }, [focusedMessageId, loading, messages, chatId, onFocusHandled, handleJumpToMessage]);
+
+  const handleJumpToLatest = async () => {
+    scrollToLatestRef.current = true;
+    await jumpToLatest();
+  };
+
+  const handleToggleReaction = async (messageId: string, emoji: string) => {
+    setReactionBarFor(null);
+    setReactionPickerFor(null);
     try {
-      const { error } = await supabase
-        .from('messages')
-        .delete()
-        .eq('id', messageId)
-        .eq('sender_id', user?.id);
-
-      if (error) throw error;
-      // Remove the message from the local state
-      setMessages((prev) => prev.filter((msg) => msg.id !== messageId));
-      toast.success('Message deleted');
+      await toggleReaction(messageId, emoji);
     } catch (error) {
-      console.error('Error deleting message:', error);
-      toast.error('Failed to delete message');
+      console.error('Error updating reaction:', error);
+      toast.error('Failed to update reaction');
     }
   };
 
-  const deleteAllMessages = async () => {
+  const handleStartEdit = (message: Message) => {
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const handleCancelEdit = () => {
+    setEditingMessageId(null);
+    setEditDraft('');
+  };
+
+  const handleSaveEdit = async (message: Message) => {
+    const content = editDraft.trim();
+    if (!content || savingEdit) return;
+    if (content === message.content) {
+      handleCancelEdit();
+      return;
+    }
+
+    setSavingEdit(true);
     try {
-      const { error } = await supabase
-        .from('messages')
-        .delete()
-        .eq('chat_id', chatId)
-        .eq('sender_id', user?.id);
-
-      if (error) throw error;
-      toast.success('All your messages deleted');
+      await editMessage(message.id, content);
+      // The realtime UPDATE event brings the authoritative edited_at
+      setMessages((prev) =>
+        prev.map((msg) =>
+          msg.id === message.id ? { ...msg, content, edited_at: msg.edited_at || new Date().toISOString() } : msg
+        )
+      );
+      handleCancelEdit();
     } catch (error) {
-      console.error('Error deleting messages:', error);
-      toast.error('Failed to delete messages');
+      console.error('Error editing message:', error);
+      toast.error('Failed to edit message');
+    } finally {
+      setSavingEdit(false);
     }
   };
 
@@ -769,10 +869,16 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
         : [...prev, messageId]
     );
   };
-  const handleDeleteSelected = async () => {
-    for (const id of selectedMessages) {
-      await deleteMessage(id);
-    }
+  const handleDeleteSelected = () => {
+    // Selecting an album selects all of it
+    const selectedAlbums = new Set(
+      messages.filter((message) => selectedMessages.includes(message.id)).map((message) => message.album_id)
+    );
+    setDeleteTargets(
+      messages.filter(
+        (message) => selectedMessages.includes(message.id) || (message.album_id && selectedAlbums.has(message.album_id))
+      )
+    );
     setSelectedMessages([]);
     setSelectionMode(false);
     setSelectedForForward(null);
@@ -783,156 +889,162 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
     setSelectedForForward(null);
   };
 
-  const handleHeaderMediaChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (!file || !chatId || !user) return;
-    setUploadingImage(true);
-    try {
-      const ext = file.name.split('.').pop()?.toLowerCase();
-      const isImage = file.type.startsWith('image/');
-      const isVideo = file.type.startsWith('video/');
-      if (!isImage && !isVideo) {
-        toast.error('Only images and videos are supported');
-        setUploadingImage(false);
-        return;
-      }
-      const filePath = `${chatId}/${user.id}/${Date.now()}.${ext}`;
-      const { error: uploadError } = await supabase.storage.from('chat-media').upload(filePath, file, { upsert: true });
-      if (uploadError) throw uploadError;
-      const { data } = supabase.storage.from('chat-media').getPublicUrl(filePath);
-      const publicUrl = data.publicUrl;
-      const type = isImage ? 'image' : 'video';
-      const { error } = await supabase.from('messages').insert([
-        {
-          chat_id: chatId,
-          sender_id: user.id,
-          content: publicUrl,
-          type,
-        },
-      ]);
-      if (error) throw error;
-      toast.success(`${isImage ? 'Image' : 'Video'} sent!`);
-    } catch (error) {
-      console.error('Error uploading media:', error);
-      toast.error('Failed to send file');
-    } finally {
-      setUploadingImage(false);
-      if (imageInputRef.current) imageInputRef.current.value = '';
-    }
+  const handleAttachmentChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    if (attachmentInputRef.current) attachmentInputRef.current.value = '';
+    attachments.addFiles(files);
   };
 
-  const handleOpenMedia = (url: string, type: 'image' | 'video') => {
-    setMediaModal({ url, type });
-  };
-  const handleCloseMedia = () => setMediaModal(null);
-  const handleDownloadMedia = () => {
-    if (!mediaModal) return;
-    const link = document.createElement('a');
-    link.href = mediaModal.url;
-    link.download = mediaModal.url.split('/').pop() || 'media';
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const handlePaste = (e: React.ClipboardEvent<HTMLInputElement>) => {
+    const files = getPastedFiles(e.clipboardData);
+    if (files.length === 0) return;
+    e.preventDefault();
+    attachments.addFiles(files);
   };
 
-  // Fetch friends for forwarding
-  useEffect(() => {
-    if (!user) return;
-    async function fetchFriends() {
-      const { data, error } = await supabase
-        .from('friendships')
-        .select(`
-          user1_id,
-          user2_id,
-          user1:profiles!friendships_user1_id_fkey (id, full_name, username, avatar_url),
-          user2:profiles!friendships_user2_id_fkey (id, full_name, username, avatar_url)
-        `)
-        .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`);
-      if (!error && data) {
-        const friendsList: FriendForForward[] = data.map((friendship: any) => {
-          const friend = friendship.user1_id === user.id ? friendship.user2 : friendship.user1;
-          return {
-            id: friend.id,
-            full_name: friend.full_name,
-            username: friend.username,
-            avatar_url: friend.avatar_url,
-          };
-        });
-        setFriendsForForward(friendsList);
-      }
-    }
-    fetchFriends();
-  }, [user]);
-
-  // Forward handler: create/find direct chat, then send message
-  const handleForwardToFriend = async (friend: FriendForForward) => {
-    if (!forwardMessages || forwardMessages.length === 0 || !user) return;
-    let chatId: string | null = null;
-    const { data: chats, error: chatError } = await supabase
-      .from('chats')
-      .select('id, type, chat_members!inner(user_id)')
-      .eq('type', 'direct');
-    if (!chatError && chats) {
-      for (const chat of chats) {
-        const memberIds = chat.chat_members.map((m: any) => m.user_id);
-        if (memberIds.includes(user.id) && memberIds.includes(friend.id) && memberIds.length === 2) {
-          chatId = chat.id;
-          break;
-        }
-      }
-    }
-    if (!chatId) {
-      const { data: newChat, error: createError } = await supabase.rpc('create_direct_chat', {
-        p_user1_id: user.id,
-        p_user2_id: friend.id
-      });
-      if (createError) {
-        toast.error('Failed to create chat');
-        return;
-      }
-      chatId = newChat;
+  const handleOpenMedia = (message: Message) => setLightboxMessage(message);
+  const handleOpenForward = (items: Message[]) => {
+    const forwardable = items.filter(canForwardMessage);
+    if (forwardable.length === 0) {
+      toast.error("These messages can't be forwarded");
+      return;
     }
-    // Forward all selected messages in order
-    await Promise.all(forwardMessages.map(msg =>
-      supabase.from('messages').insert([
-        {
-          chat_id: chatId,
-          sender_id: user.id,
-          content: msg.content,
-          type: msg.type || 'text',
-        },
-      ])
-    ));
+    setForwardMessages(forwardable);
+    setForwardModalOpen(true);
+  };
+
+  // After forwarding into a single other chat, follow the messages there
+  const handleForwarded = (chatIds: string[]) => {
     setForwardModalOpen(false);
     setForwardMessages([]);
     setSelectionMode(false);
     setSelectedMessages([]);
-    setSelectedForForward(null);
-    toast.success('Messages forwarded!');
-    // Open the chat programmatically if handler is available
-    if (typeof onSelectChat === 'function' && chatId) {
-      onSelectChat(chatId);
-    } else if (typeof window !== 'undefined') {
-      setTimeout(() => {
-        window.location.hash = `#chat-${chatId}`;
-        window.location.reload();
-      }, 300);
-    }
+    if (chatIds.length === 1 && chatIds[0] !== chatId) onSelectChat?.(chatIds[0]);
   };
 
-  // Allow forwarding for both sent and received messages
-  const canForward = true;
+  // Only scroll to bottom if user is near the bottom or if the last message is from the current user.
+  // Keyed on the newest message so that prepending older pages never moves the view.
+  // Messages still in the outbox are listed after the loaded ones until the
+  // server copy arrives through realtime or catch-up
+  const loadedMessageIds = new Set(messages.map((message) => message.id));
+  const pendingMessages = hasNewer
+    ? []
+    : outboxEntries
+        .filter((entry) => entry.chat_id === chatId && !loadedMessageIds.has(entry.id))
+        .map((entry) =>
+          toPendingMessage(entry, {
+            id: entry.sender_id,
+            name: profile?.full_name || 'You',
+            username: profile?.username || '',
+            avatar_url: profile?.avatar_url ?? null,
+          })
+        );
+  // Follow timer and topic changes made by other members while the chat is open
+  const latestNoticeContent = hasNewer
+    ? undefined
+    : [...messages].reverse().find((message) => message.type === 'system')?.content;
+  useEffect(() => {
+    if (!latestNoticeContent) return;
+    const notice = parseSystemNotice(latestNoticeContent);
+    if (notice?.event === 'message_ttl') {
+      setChatInfo((prev) => prev && { ...prev, message_ttl: notice.ttl });
+    } else if (notice?.event === 'topic') {
+      setChatInfo((prev) => prev && { ...prev, topic: notice.topic ?? '' });
+    }
+  }, [latestNoticeContent]);
+
+  const displayedMessages = (pendingMessages.length > 0 ? mergeMessages(messages, pendingMessages) : messages)
+    .filter((message) => pendingDeletes[message.id] !== 'me');
 
-  // Only scroll to bottom if user is near the bottom or if the last message is from the current user
+  // Images and videos sent together render as one grid at the album's first message
+  const albums = new Map<string, Message[]>();
+  displayedMessages.forEach((message) => {
+    if (!message.album_id || message.deleted_at || pendingDeletes[message.id] === 'everyone') return;
+    albums.set(message.album_id, [...(albums.get(message.album_id) || []), message]);
+  });
+
+  const lastMessageId = displayedMessages[displayedMessages.length - 1]?.id;
+  const lastMessageSenderId = displayedMessages[displayedMessages.length - 1]?.sender_id;
   useEffect(() => {
-    if (!messageListRef.current) return;
+    if (!messageListRef.current || !lastMessageId || hasNewer) return;
     const el = messageListRef.current;
     const isNearBottom = el.scrollHeight - el.scrollTop - el.clientHeight < 120;
-    const lastMsg = messages[messages.length - 1];
-    if (isNearBottom || (lastMsg && user && lastMsg.sender_id === user.id)) {
+    if (isNearBottom || scrollToLatestRef.current || (user && lastMessageSenderId === user.id)) {
+      scrollToLatestRef.current = false;
       scrollToBottom();
     }
-  }, [messages, user]);
+  }, [lastMessageId, lastMessageSenderId, user, hasNewer]);
+
+  // Bring a jumped-to message into view and highlight it briefly
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const el = messageListRef.current?.querySelector(`[data-message-id="${highlightedMessageId}"]`);
+    el?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timeout = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timeout);
+  }, [highlightedMessageId]);
+
+  // Remember where a loaded message sits on screen before fetching the next
+  // page, so the view can be restored once the page is added around it
+  const anchorScroll = useCallback((message: Message | undefined) => {
+    const el = message && messageListRef.current?.querySelector(`[data-message-id="${message.id}"]`);
+    if (message && el) {
+      scrollAnchorRef.current = { id: message.id, top: el.getBoundingClientRect().top };
+    }
+  }, []);
+
+  const handleLoadOlder = useCallback(() => {
+    if (!messages[0] || loadingOlder) return;
+    anchorScroll(messages[0]);
+    loadOlder();
+  }, [messages, loadingOlder, loadOlder, anchorScroll]);
+
+  const handleLoadNewer = useCallback(() => {
+    if (!messages.length || loadingNewer) return;
+    anchorScroll(messages[messages.length - 1]);
+    loadNewer();
+  }, [messages, loadingNewer, loadNewer, anchorScroll]);
+
+  useLayoutEffect(() => {
+    const anchor = scrollAnchorRef.current;
+    const list = messageListRef.current;
+    if (!anchor || !list || loadingOlder || loadingNewer) return;
+    const el = list.querySelector(`[data-message-id="${anchor.id}"]`);
+    if (el) {
+      list.scrollTop += el.getBoundingClientRect().top - anchor.top;
+    }
+    scrollAnchorRef.current = null;
+  }, [messages, loadingOlder, loadingNewer]);
+
+  // Load the previous page when the top of the list scrolls into view
+  useEffect(() => {
+    const sentinel = topSentinelRef.current;
+    const list = messageListRef.current;
+    if (!sentinel || !list || !hasMore) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) handleLoadOlder();
+      },
+      { root: list, rootMargin: '200px 0px 0px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, handleLoadOlder]);
+
+  // After jumping back in history, load newer pages as the bottom comes into view
+  useEffect(() => {
+    const sentinel = bottomSentinelRef.current;
+    const list = messageListRef.current;
+    if (!sentinel || !list || !hasNewer) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) handleLoadNewer();
+      },
+      { root: list, rootMargin: '0px 0px 200px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNewer, handleLoadNewer]);
 
   React.useEffect(() => {
     const input = document.querySelector('input[type="text"]');
@@ -942,6 +1054,44 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
     return () => input.removeEventListener('focus', handler);
   }, []);
 
+  // In group chats the "seen by" line is shown under the newest own message anyone has read
+  const lastSeenOwnMessageId = [...messages]
+    .reverse()
+    .find((message) =>
+      message.sender_id === user?.id &&
+      getReceiptStatus(message, receiptPositions).readBy.length > 0
+    )?.id;
+
+  // Close the quick reaction bar on any click outside it
+  useEffect(() => {
+    if (!reactionBarFor) return;
+    const close = () => setReactionBarFor(null);
+    document.addEventListener('click', close);
+    return () => document.removeEventListener('click', close);
+  }, [reactionBarFor]);
+
+  const reactionsByMessage = reactions.reduce((groups: Record<string, Reaction[]>, reaction) => {
+    if (!groups[reaction.message_id]) groups[reaction.message_id] = [];
+    groups[reaction.message_id].push(reaction);
+    return groups;
+  }, {});
+
+  const membersById = new Map((chatInfo?.members || []).map((member) => [member.id, member]));
+
+  const formatReactors = (userIds: string[]) =>
+    userIds
+      .map((id) => id === user?.id ? 'You' : chatInfo?.members.find((member) => member.id === id)?.full_name || 'Someone')
+      .join(', ');
+
+  const formatSeenBy = (userIds: string[]) => {
+    const names = userIds.map(
+      (id) => chatInfo?.members.find((member) => member.id === id)?.full_name.split(' ')[0] || 'Someone'
+    );
+    return names.length > 3
+      ? `${names.slice(0, 3).join(', ')} +${names.length - 3}`
+      : names.join(', ');
+  };
+
   // Helper to group messages by day
   function groupMessagesByDay(messages: Message[]): Record<string, Message[]> {
     return messages.reduce((groups: Record<string, Message[]>, message: Message) => {
@@ -977,7 +1127,17 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
   }
 
   return (
-    <div className="flex flex-col min-w-0 min-h-0 h-full bg-white/60 dark:bg-black/80 backdrop-blur-2xl rounded-2xl shadow-2xl overflow-hidden h-full">
+    <div
+      className="relative flex flex-col min-w-0 min-h-0 h-full bg-white/60 dark:bg-black/80 backdrop-blur-2xl rounded-2xl shadow-2xl overflow-hidden h-full"
+      {...dropHandlers}
+    >
+      {/* Drop zone */}
+      {isDragging && (
+        <div className="absolute inset-2 z-40 pointer-events-none flex flex-col items-center justify-center rounded-2xl border-4 border-dashed border-blue-400 bg-blue-50/90 dark:bg-gray-900/90 text-blue-600 dark:text-purple-300">
+          <UploadCloud className="h-12 w-12 mb-2" />
+          <p className="font-semibold">Drop files to send</p>
+        </div>
+      )}
       {/* Header */}
       <motion.div
         initial={{ opacity: 0, y: -20 }}
@@ -1008,8 +1168,58 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
             <h2 className="text-base font-bold text-white truncate drop-shadow-lg">
               {chatInfo?.other_user?.full_name || 'Loading...'}
             </h2>
+            {chatInfo?.topic && (
+              <p className="text-xs text-white/80 truncate" title={chatInfo.topic}>{chatInfo.topic}</p>
+            )}
           </div>
         </div>
+        {!selectionMode && (
+          <div className="flex items-center">
+            {chatInfo && (
+              <button
+                onClick={() => setShowSharedMedia(true)}
+                className="p-2 rounded-full text-white hover:bg-white/20 transition"
+                title="Shared media, files and links"
+              >
+                <Info className="w-5 h-5" />
+              </button>
+            )}
+            {chatInfo?.type === 'group' && (
+              <button
+                onClick={() => setShowMentions(true)}
+                className="p-2 rounded-full text-white hover:bg-white/20 transition"
+                title="Mentions"
+              >
+                <AtSign className="w-5 h-5" />
+              </button>
+            )}
+            {chatInfo && (
+              <button
+                onClick={handleToggleMuted}
+                className="p-2 rounded-full text-white hover:bg-white/20 transition"
+                title={chatInfo.muted ? 'Unmute chat' : 'Mute chat'}
+              >
+                {chatInfo.muted ? <BellOff className="w-5 h-5" /> : <Bell className="w-5 h-5" />}
+              </button>
+            )}
+            {chatInfo && (
+              <button
+                onClick={() => setShowDisappearing(true)}
+                className={`p-2 rounded-full text-white hover:bg-white/20 transition ${chatInfo.message_ttl ? 'bg-white/20' : ''}`}
+                title={`Disappearing messages: ${formatMessageTtl(chatInfo.message_ttl)}`}
+              >
+                <Timer className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={find.open}
+              className="p-2 rounded-full text-white hover:bg-white/20 transition"
+              title="Find in conversation (Ctrl+F)"
+            >
+              <Search className="w-5 h-5" />
+            </button>
+          </div>
+        )}
         {/* Forward and Delete buttons in header when messages are selected */}
         {selectionMode && selectedMessages.length > 0 && (
           <div className="flex items-center ml-4 space-x-4">
@@ -1017,11 +1227,13 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
           <button
               className="p-2 rounded-md bg-blue-500 text-white hover:bg-blue-600 shadow transition-all duration-200 z-10"
               onClick={() => {
-                const msgs = messages.filter(m => selectedMessages.includes(m.id));
-                if (msgs.length > 0) {
-                  setForwardMessages(msgs);
-                  setForwardModalOpen(true);
-                }
+                // Selecting an album forwards all of it
+                const selectedAlbums = new Set(
+                  messages.filter((m) => selectedMessages.includes(m.id)).map((m) => m.album_id)
+                );
+                handleOpenForward(
+                  messages.filter((m) => selectedMessages.includes(m.id) || (m.album_id && selectedAlbums.has(m.album_id)))
+                );
               }}
               title="Forward selected messages"
             >
@@ -1029,19 +1241,17 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
                 <path strokeLinecap="round" strokeLinejoin="round" d="M15 12H3m0 0l6-6m-6 6l6 6m6-6h6" />
             </svg>
           </button>
-            {/* Delete button (only if all selected messages are sent by the current user) */}
-            {selectedMessages.every(id => messages.find(m => m.id === id)?.sender_id === user?.id) && (
-          <button
-                className="p-2 rounded-md bg-red-500 text-white hover:bg-red-600 shadow transition-all duration-200 z-10"
-                onClick={handleDeleteSelected}
-                title="Delete selected messages"
-          >
-                {/* Trash bin icon */}
-                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                  <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M1 7h22M8 7V5a2 2 0 012-2h4a2 2 0 012 2v2" />
-            </svg>
-              </button>
-            )}
+            {/* Delete button (delete for everyone is only offered for own messages) */}
+            <button
+              className="p-2 rounded-md bg-red-500 text-white hover:bg-red-600 shadow transition-all duration-200 z-10"
+              onClick={handleDeleteSelected}
+              title="Delete selected messages"
+            >
+              {/* Trash bin icon */}
+              <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6M1 7h22M8 7V5a2 2 0 012-2h4a2 2 0 012 2v2" />
+              </svg>
+            </button>
             {/* Cancel button */}
             <button
               className="p-2 rounded-md bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 shadow transition-all duration-200 z-10"
@@ -1053,8 +1263,28 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
         </div>
         )}
       </motion.div>
+      {find.isOpen && (
+        <FindBar
+          query={find.query}
+          matchCount={find.matches.length}
+          activeIndex={find.activeIndex}
+          loading={find.loading}
+          error={find.error}
+          inputRef={findInputRef}
+          onQueryChange={find.setQuery}
+          onNext={find.next}
+          onPrevious={find.previous}
+          onClose={find.close}
+        />
+      )}
       {/* Messages */}
       <div ref={messageListRef} className="flex-1 h-0 overflow-y-auto p-1 sm:p-2 flex flex-col-reverse space-y-2 space-y-reverse" style={{ paddingBottom: '4.5rem' }}>
+        {/* Newer messages loader, only while viewing an older part of the history */}
+        {hasNewer && (
+          <div ref={bottomSentinelRef} className="flex justify-center py-2">
+            {loadingNewer && <LoadingSpinner size="sm" />}
+          </div>
+        )}
         {loading ? (
           <div className="flex justify-center items-center h-full">
             <LoadingSpinner size="lg" />
@@ -1063,20 +1293,52 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
           <div className="flex justify-center items-center h-full">
             <p className="text-red-500">{error}</p>
       </div>
-        ) : messages.length === 0 ? (
+        ) : displayedMessages.length === 0 ? (
           <div className="flex flex-col items-center justify-center h-full text-gray-500 dark:text-gray-400">
             <MessageCircle className="w-12 h-12 mb-4 opacity-50" />
             <p>No messages yet. Start the conversation!</p>
           </div>
         ) : (
-          Object.entries(groupMessagesByDay([...messages].reverse())).map(([day, dayMessages]) => (
+          Object.entries(groupMessagesByDay([...displayedMessages].reverse())).map(([day, dayMessages]) => (
             <React.Fragment key={day}>
               {dayMessages.map((message: Message) => {
                 const isOwn = message.sender_id === user?.id;
+                if (message.type === 'system') {
+                  return (
+                    <div key={message.id} data-message-id={message.id} className="flex justify-center">
+                      <span className="flex items-center px-3 py-1 rounded-full bg-white/70 dark:bg-black/70 text-xs text-gray-600 dark:text-gray-300 shadow">
+                        {parseSystemNotice(message.content)?.event === 'message_ttl' ? (
+                          <Timer className="h-3.5 w-3.5 mr-1" />
+                        ) : (
+                          <Info className="h-3.5 w-3.5 mr-1" />
+                        )}
+                        {describeSystemNotice(message.content, isOwn ? 'You' : message.sender.name)}
+                      </span>
+                    </div>
+                  );
+                }
+                const album = message.album_id ? albums.get(message.album_id) : undefined;
+                const albumMessages = album && album.length > 1 ? album : null;
+                if (albumMessages && albumMessages[0].id !== message.id) return null;
+                // Actions on an album apply to every message in it
+                const groupMessages = albumMessages || [message];
                 const isSelected = selectedMessages.includes(message.id);
+                const isHighlighted = message.id === highlightedMessageId;
+                const isDeleted = !!message.deleted_at || pendingDeletes[message.id] === 'everyone';
+                const reactionSummaries = summarizeReactions(reactionsByMessage[message.id] || [], user?.id);
+                const textOptions: TextOptions = {
+                  query: findQuery,
+                  activeMatch: message.id === find.activeMatchId,
+                  mentions: (message.mentions || []).flatMap((id) => {
+                    const member = membersById.get(id);
+                    return member ? [{ id, username: member.username }] : [];
+                  }),
+                  userId: user?.id,
+                };
                 return (
                   <motion.div
                     key={message.id}
+                    data-message-id={message.id}
                     initial={{ opacity: 0, y: 20 }}
                     animate={{ opacity: 1, y: 0 }}
                     transition={{ type: "spring", stiffness: 300, damping: 30 }}
@@ -1095,7 +1357,7 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
                           : isSelected
                             ? 'bg-white/80 dark:bg-gray-900/80 text-gray-900 dark:text-white border-2 border-pink-400 animate-glow'
                             : 'bg-white/70 dark:bg-black/70 text-gray-900 dark:text-white border border-gray-200 dark:border-gray-800 backdrop-blur-2xl'
-                        } hover:scale-[1.03] hover:shadow-2xl`}
+                        } ${isHighlighted ? 'ring-4 ring-yellow-300 dark:ring-yellow-500' : ''} hover:scale-[1.03] hover:shadow-2xl`}
                       style={{ boxShadow: isSelected ? '0 0 8px 2px #f472b6, 0 4px 32px 0 rgba(31,38,135,0.18)' : '0 2px 16px 0 rgba(31,38,135,0.10)' }}
                     >
                       {/* Forward button (visible for all messages, not just own) */}
@@ -1104,24 +1366,103 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
                           className="absolute top-1 right-1 p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200 z-10"
                           style={{ display: selectionMode ? (isSelected ? 'block' : 'none') : 'none' }}
                           title="Forward message"
-                          onClick={(e) => { e.stopPropagation(); setForwardMessages([message]); setForwardModalOpen(true); }}
+                          onClick={(e) => { e.stopPropagation(); handleOpenForward(groupMessages); }}
                         >
                           <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
                             <path strokeLinecap="round" strokeLinejoin="round" d="M15 12H3m0 0l6-6m-6 6l6 6m6-6h6" />
                           </svg>
                         </button>
                       )}
-                      {/* Forward button on hover (desktop) */}
-                      {!selectionMode && (
-                        <button
-                          className="absolute top-1 right-1 p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200 z-10 hidden group-hover:block"
-                          title="Forward message"
-                          onClick={(e) => { e.stopPropagation(); setForwardMessages([message]); setForwardModalOpen(true); }}
+                      {/* Message actions on hover (desktop) */}
+                      {!selectionMode && !message.status && (
+                        <div className="absolute top-1 right-1 z-10 hidden group-hover:flex items-center space-x-1">
+                          {!isDeleted && (
+                            <>
+                              <button
+                                className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                title="React"
+                                onClick={(e) => { e.stopPropagation(); setReactionBarFor(reactionBarFor === message.id ? null : message.id); }}
+                              >
+                                <Smile className="w-5 h-5" />
+                              </button>
+                              <button
+                                className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                title="Reply"
+                                onClick={(e) => { e.stopPropagation(); handleStartReply(message); }}
+                              >
+                                <Reply className="w-5 h-5" />
+                              </button>
+                              <button
+                                className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                title="Reply in thread"
+                                onClick={(e) => { e.stopPropagation(); setThreadRootId(message.thread_root_id || message.id); }}
+                              >
+                                <MessagesSquare className="w-5 h-5" />
+                              </button>
+                              {canEditMessage(message, user?.id) && editingMessageId !== message.id && (
+                                <button
+                                  className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                  title="Edit message"
+                                  onClick={(e) => { e.stopPropagation(); handleStartEdit(message); }}
+                                >
+                                  <Pencil className="w-5 h-5" />
+                                </button>
+                              )}
+                              {isOwn && (
+                                <button
+                                  className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                  title="Message info"
+                                  onClick={(e) => { e.stopPropagation(); setInfoMessage(message); }}
+                                >
+                                  <Info className="w-5 h-5" />
+                                </button>
+                              )}
+                              {canForwardMessage(message) && (
+                                <button
+                                  className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-blue-100 dark:hover:bg-blue-900 text-blue-500 dark:text-purple-400 shadow transition-all duration-200"
+                                  title="Forward message"
+                                  onClick={(e) => { e.stopPropagation(); handleOpenForward(groupMessages); }}
+                                >
+                                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
+                                    <path strokeLinecap="round" strokeLinejoin="round" d="M15 12H3m0 0l6-6m-6 6l6 6m6-6h6" />
+                                  </svg>
+                                </button>
+                              )}
+                            </>
+                          )}
+                          <button
+                            className="p-1 rounded-full bg-white/80 dark:bg-black/80 hover:bg-red-100 dark:hover:bg-red-900 text-red-500 shadow transition-all duration-200"
+                            title="Delete message"
+                            onClick={(e) => { e.stopPropagation(); setDeleteTargets(groupMessages); }}
+                          >
+                            <Trash2 className="w-5 h-5" />
+                          </button>
+                        </div>
+                      )}
+                      {/* Quick reactions */}
+                      {reactionBarFor === message.id && (
+                        <div
+                          className={`absolute -top-10 ${isOwn ? 'right-0' : 'left-0'} z-20 flex items-center space-x-1 px-2 py-1 rounded-full bg-white dark:bg-gray-800 shadow-xl border border-gray-200 dark:border-gray-700`}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onClick={(e) => e.stopPropagation()}
                         >
-                          <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2} stroke="currentColor" className="w-5 h-5">
-                            <path strokeLinecap="round" strokeLinejoin="round" d="M15 12H3m0 0l6-6m-6 6l6 6m6-6h6" />
-                          </svg>
-                        </button>
+                          {QUICK_REACTIONS.map((emoji) => (
+                            <button
+                              key={emoji}
+                              className="text-lg leading-none hover:scale-125 transition-transform"
+                              onClick={() => handleToggleReaction(message.id, emoji)}
+                            >
+                              {emoji}
+                            </button>
+                          ))}
+                          <button
+                            className="p-1 rounded-full text-gray-500 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700"
+                            title="More reactions"
+                            onClick={() => { setReactionBarFor(null); setReactionPickerFor(message.id); }}
+                          >
+                            <Smile className="w-4 h-4" />
+                          </button>
+                        </div>
                       )}
                       {selectionMode && isOwn && (
                         <button
@@ -1137,43 +1478,224 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
                           ) : null}
                         </button>
                       )}
+                      {/* Original author of a forwarded copy */}
+                      {message.forwarded_from && !isDeleted && (
+                        <p className="flex items-center text-xs italic opacity-80 mb-1 min-w-0">
+                          <Forward className="w-3 h-3 mr-1 flex-shrink-0" />
+                          <span className="truncate">Forwarded from {message.forwarded_from}</span>
+                          {(message.forward_count ?? 0) >= FORWARDED_MANY_TIMES && (
+                            <span className="ml-1 flex-shrink-0 font-semibold" title={`Forwarded ${message.forward_count} times`}>
+                              · Forwarded many times
+                            </span>
+                          )}
+                        </p>
+                      )}
+                      {/* Quoted message this one replies to */}
+                      {message.reply_to && !isDeleted && (
+                        <button
+                          className={`block w-full text-left mb-1 pl-2 pr-1 py-1 rounded-md border-l-4 text-xs ${
+                            isOwn ? 'bg-white/20 border-white/70' : 'bg-gray-100 dark:bg-gray-800 border-blue-400'
+                          }`}
+                          title="Show original message"
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onClick={(e) => { e.stopPropagation(); handleJumpToMessage(message.reply_to!); }}
+                        >
+                          {message.reply ? (
+                            <>
+                              <span className="block font-semibold truncate">
+                                {message.reply.sender_id === user?.id ? 'You' : message.reply.sender_name}
+                              </span>
+                              <span className="block opacity-80 line-clamp-2 break-words">{getMessagePreview(message.reply)}</span>
+                            </>
+                          ) : (
+                            <span className="italic opacity-80">Original message was deleted</span>
+                          )}
+                        </button>
+                      )}
                       {/* Message content rendering */}
-                      {message.type === 'image' ? (
-                        <img
-                          src={message.content}
-                          alt="sent media"
-                          className="max-w-[60vw] sm:max-w-[120px] max-h-24 rounded-md object-cover mb-1 border border-gray-200 dark:border-gray-700 cursor-pointer"
-                          style={{ display: 'block' }}
-                          onClick={() => handleOpenMedia(message.content, 'image')}
+                      {isDeleted ? (
+                        <p className="text-sm italic opacity-70 flex items-center">
+                          <Ban className="w-4 h-4 mr-1" />
+                          This message was deleted
+                        </p>
+                      ) : editingMessageId === message.id ? (
+                        <div
+                          className="min-w-[200px]"
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onContextMenu={(e) => e.stopPropagation()}
+                        >
+                          <textarea
+                            value={editDraft}
+                            onChange={(e) => setEditDraft(e.target.value)}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                handleSaveEdit(message);
+                              } else if (e.key === 'Escape') {
+                                handleCancelEdit();
+                              }
+                            }}
+                            autoFocus
+                            rows={2}
+                            className="w-full resize-none rounded-md p-1 text-sm text-gray-900 dark:text-white bg-white/90 dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-400"
+                          />
+                          <div className="flex justify-end space-x-2 mt-1 text-xs">
+                            <button onClick={handleCancelEdit} className="px-2 py-0.5 rounded-full bg-white/30 hover:bg-white/50">
+                              Cancel
+                            </button>
+                            <button
+                              onClick={() => handleSaveEdit(message)}
+                              disabled={savingEdit || !editDraft.trim()}
+                              className="px-2 py-0.5 rounded-full bg-white text-blue-600 font-semibold hover:bg-blue-50 disabled:opacity-50"
+                            >
+                              Save
+                            </button>
+                          </div>
+                        </div>
+                      ) : message.type === 'poll' ? (
+                        <div onMouseDown={(e) => e.stopPropagation()}>
+                          <PollMessage
+                            poll={polls[message.id]}
+                            question={message.content}
+                            isOwn={isOwn}
+                            userId={user?.id}
+                            onVote={(optionIds) => handleVotePoll(message.id, optionIds)}
+                            onClosePoll={() => handleClosePoll(message.id)}
+                            onShowResults={() => setPollResultsFor(message.id)}
+                          />
+                        </div>
+                      ) : albumMessages ? (
+                        <AlbumGrid messages={albumMessages} onOpen={handleOpenMedia} />
+                      ) : message.type === 'image' ? (
+                        <ProgressiveImage
+                          src={message.thumbnail_url || message.content}
+                          placeholder={message.placeholder}
+                          width={message.width}
+                          height={message.height}
+                          alt={message.file_name || 'sent media'}
+                          wrapperClassName="w-fit rounded-md mb-1 border border-gray-200 dark:border-gray-700"
+                          className="max-w-[60vw] sm:max-w-[120px] max-h-24 h-auto object-cover cursor-pointer"
+                          onClick={() => handleOpenMedia(message)}
                         />
+                      ) : message.type === 'file' ? (
+                        <FileAttachment
+                          url={message.content}
+                          fileName={message.file_name}
+                          fileSize={message.file_size}
+                          mimeType={message.mime_type}
+                          isOwn={isOwn}
+                        />
+                      ) : message.type === 'action' ? (
+                        <div className="flex flex-wrap items-baseline gap-x-1 text-sm leading-snug italic break-words">
+                          <span className="font-semibold">{message.sender.name}</span>
+                          <MessageText content={message.content} options={textOptions} />
+                        </div>
                       ) : message.type === 'video' ? (
                         <video
                           src={message.content}
                           controls
                           className="max-w-[60vw] sm:max-w-[120px] max-h-24 rounded-md mb-1 border border-gray-200 dark:border-gray-700 cursor-pointer"
                           style={{ display: 'block' }}
-                          onClick={() => handleOpenMedia(message.content, 'video')}
+                          onClick={() => handleOpenMedia(message)}
                         />
                       ) : (
-                        (() => {
-                          const urls = extractUrls(message.content);
-                          if (urls.length > 0) {
-                            return (
-                              <>
-                                <div className="text-sm leading-snug animate-fade-in break-words" dangerouslySetInnerHTML={{ __html: linkify(message.content) }} />
-                                <LinkPreview url={urls[0]} />
-                              </>
-                            );
-                          } else {
-                            return (
-                              <p className="text-sm leading-snug animate-fade-in break-words">{message.content}</p>
-                            );
-                          }
-                        })()
+                        <>
+                          <MessageText
+                            content={message.content}
+                            options={textOptions}
+                            className="text-sm leading-snug animate-fade-in break-words"
+                          />
+                          {!isDeleted && message.link_preview && <LinkPreview preview={message.link_preview} />}
+                        </>
+                      )}
+                      {!isDeleted && groupMessages.some((m) => m.caption) && (
+                        <div className="space-y-0.5">
+                          {groupMessages.filter((m) => m.caption).map((m) => (
+                            <MessageText
+                              key={m.id}
+                              content={m.caption as string}
+                              options={textOptions}
+                              className="text-sm leading-snug break-words"
+                            />
+                          ))}
+                        </div>
+                      )}
+                      {reactionSummaries.length > 0 && !isDeleted && (
+                        <div className="flex flex-wrap gap-1 mt-1" onMouseDown={(e) => e.stopPropagation()}>
+                          {reactionSummaries.map((summary) => (
+                            <button
+                              key={summary.emoji}
+                              title={formatReactors(summary.userIds)}
+                              onClick={(e) => { e.stopPropagation(); handleToggleReaction(message.id, summary.emoji); }}
+                              className={`flex items-center space-x-1 px-1.5 py-0.5 rounded-full text-xs border transition ${
+                                summary.reacted
+                                  ? 'bg-blue-100 border-blue-400 text-blue-700 dark:bg-blue-900/60 dark:border-blue-500 dark:text-blue-200'
+                                  : 'bg-white/60 border-gray-200 text-gray-700 dark:bg-black/40 dark:border-gray-700 dark:text-gray-200'
+                              }`}
+                            >
+                              <span>{summary.emoji}</span>
+                              <span>{summary.userIds.length}</span>
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {!!message.reply_count && (
+                        <button
+                          className="text-xs font-semibold mt-1 hover:underline"
+                          onClick={(e) => { e.stopPropagation(); setThreadRootId(message.id); }}
+                        >
+                          {message.reply_count} {message.reply_count === 1 ? 'reply' : 'replies'}
+                        </button>
+                      )}
+                      <p className="text-xs mt-1 opacity-70 text-right flex items-center justify-end space-x-1">
+                        {message.edited_at && !isDeleted && (
+                          <button
+                            className="italic hover:underline"
+                            title="View edit history"
+                            onClick={(e) => { e.stopPropagation(); setHistoryMessage(message); }}
+                          >
+                            edited
+                          </button>
+                        )}
+                        {message.expires_at && (
+                          <Timer
+                            className="h-3 w-3"
+                            aria-label={`Disappears ${formatDistanceToNow(new Date(message.expires_at), { addSuffix: true })}`}
+                          />
+                        )}
+                        <span>{new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+                        {isOwn && (
+                          message.status === 'pending' ? (
+                            <Clock className="h-3.5 w-3.5" aria-label="Sending" />
+                          ) : message.status === 'failed' ? (
+                            <AlertCircle className="h-3.5 w-3.5 text-red-300" aria-label="Not sent" />
+                          ) : (
+                            <ReceiptIndicator status={getReceiptStatus(message, receiptPositions).status} />
+                          )
+                        )}
+                      </p>
+                      {message.status === 'failed' && (
+                        <div className="flex items-center justify-end space-x-2 mt-1 text-xs" onMouseDown={(e) => e.stopPropagation()}>
+                          <span className="opacity-80">Not sent</span>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); retrySend(message.id); }}
+                            className="px-2 py-0.5 rounded-full bg-white text-blue-600 font-semibold hover:bg-blue-50"
+                          >
+                            Retry
+                          </button>
+                          <button
+                            onClick={(e) => { e.stopPropagation(); discardSend(message.id); }}
+                            className="px-2 py-0.5 rounded-full bg-white/30 hover:bg-white/50"
+                          >
+                            Discard
+                          </button>
+                        </div>
+                      )}
+                      {isOwn && chatInfo?.type === 'group' && message.id === lastSeenOwnMessageId && (
+                        <p className="text-[10px] mt-0.5 opacity-80 text-right truncate">
+                          Seen by {formatSeenBy(getReceiptStatus(message, receiptPositions).readBy)}
+                        </p>
                       )}
-                      <p className="text-xs mt-1 opacity-70 text-right">
-                {new Date(message.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-              </p>
                     </div>
                   </motion.div>
                 );
@@ -1195,35 +1717,123 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
             <div className="w-3 h-3 rounded-full bg-gradient-to-br from-blue-400 via-purple-400 to-pink-400 animate-pulse delay-300" />
           </div>
         )}
+        {/* Older messages loader (rendered last so it sits at the top of the reversed list) */}
+        {hasMore && (
+          <div ref={topSentinelRef} className="flex justify-center py-2">
+            {loadingOlder && <LoadingSpinner size="sm" />}
+          </div>
+        )}
       </div>
 
       {/* Input */}
       <div className="p-2 sm:p-4 bg-white dark:bg-gray-800 border-t border-gray-200 dark:border-gray-700 fixed bottom-0 left-0 w-full z-40" style={{ maxWidth: 'inherit' }}>
+        {hasNewer && (
+          <button
+            onClick={handleJumpToLatest}
+            className="absolute -top-12 right-4 p-2 rounded-full bg-blue-500 text-white shadow-lg hover:bg-blue-600 transition"
+            title="Jump to latest messages"
+          >
+            <ArrowDown className="h-5 w-5" />
+          </button>
+        )}
+        {commandSuggestions.length > 0 && (
+          <CommandSuggestions
+            suggestions={commandSuggestions}
+            activeIndex={Math.min(commandIndex, commandSuggestions.length - 1)}
+            onSelect={handleSelectCommand}
+          />
+        )}
+        {mentionSuggestions.length > 0 && (
+          <MentionSuggestions
+            suggestions={mentionSuggestions}
+            activeIndex={Math.min(mentionIndex, mentionSuggestions.length - 1)}
+            onSelect={handleSelectMention}
+          />
+        )}
+        {attachments.items.length > 0 && (
+          <AttachmentTray
+            items={attachments.items}
+            sending={attachments.sending}
+            onAddMore={() => attachmentInputRef.current?.click()}
+            onRemove={attachments.removeItem}
+            onMove={attachments.moveItem}
+            onCaptionChange={attachments.setCaption}
+            onClear={attachments.clear}
+            onSend={attachments.send}
+          />
+        )}
+        {scheduled.length > 0 && !replyingTo && (
+          <button
+            onClick={() => setShowScheduled(true)}
+            className="flex items-center mb-2 px-2 py-1 rounded-md text-xs text-blue-600 dark:text-blue-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <CalendarClock className="h-4 w-4 mr-1" />
+            {scheduled.length} scheduled {scheduled.length === 1 ? 'message' : 'messages'}
+          </button>
+        )}
+        {replyingTo && (
+          <div className="flex items-center mb-2 pl-2 pr-1 py-1 rounded-md border-l-4 border-blue-400 bg-gray-100 dark:bg-gray-700 text-xs">
+            <div className="flex-1 min-w-0">
+              <div className="font-semibold text-blue-600 dark:text-blue-300 truncate">
+                Replying to {replyingTo.sender_id === user?.id ? 'yourself' : replyingTo.sender.name}
+              </div>
+              <div className="text-gray-600 dark:text-gray-300 truncate">{getMessagePreview(replyingTo)}</div>
+            </div>
+            <button
+              onClick={() => setReplyingTo(null)}
+              className="p-1 text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+              title="Cancel reply"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        )}
         <div className="flex items-center space-x-1">
           <button
             type="button"
-            onClick={() => imageInputRef.current?.click()}
+            onClick={() => attachmentInputRef.current?.click()}
             className="p-1 bg-white/70 dark:bg-black/70 rounded-full text-blue-500 dark:text-purple-400 hover:bg-blue-100 dark:hover:bg-purple-900 shadow transition-all duration-200"
-            disabled={uploadingImage}
-            title="Send image or video"
+            title="Attach files"
           >
-            <ImageIcon className="h-4 w-4" />
+            <Paperclip className="h-4 w-4" />
           </button>
+          {chatInfo?.type === 'group' && (
+            <button
+              type="button"
+              onClick={() => setShowCreatePoll(true)}
+              className="p-1 bg-white/70 dark:bg-black/70 rounded-full text-blue-500 dark:text-purple-400 hover:bg-blue-100 dark:hover:bg-purple-900 shadow transition-all duration-200"
+              title="Create poll"
+            >
+              <BarChart2 className="h-4 w-4" />
+            </button>
+          )}
           <input
             type="file"
-            accept="image/*,video/*"
-            ref={imageInputRef}
-            onChange={handleHeaderMediaChange}
+            accept={ATTACHMENT_ACCEPT}
+            multiple
+            ref={attachmentInputRef}
+            onChange={handleAttachmentChange}
             className="hidden"
           />
           <input
+            ref={messageInputRef}
             type="text"
             value={newMessage}
             onChange={handleTyping}
             onKeyDown={handleKeyPress}
+            onPaste={handlePaste}
             placeholder="Type a message..."
             className="flex-1 p-1 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
           />
+          <button
+            type="button"
+            onClick={() => setScheduleDraft({ content: newMessage.trim() })}
+            disabled={!newMessage.trim()}
+            className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:text-blue-500 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50 disabled:hover:bg-transparent"
+            title="Schedule send"
+          >
+            <CalendarClock className="h-5 w-5" />
+          </button>
           <button
             onClick={handleSendMessage}
             disabled={!newMessage.trim()}
@@ -1240,33 +1850,164 @@ export const ChatWindow: React.FC<ChatWindowProps> = ({ chatId, onBack, onShowFr
         </div>
           </div>
 
-      {/* Media Modal */}
-      {mediaModal && (
-        <Modal isOpen={!!mediaModal} onClose={handleCloseMedia}>
-          <div className="flex flex-col items-center justify-center p-4">
-            {mediaModal.type === 'image' ? (
-              <img src={mediaModal.url} alt="media" className="max-w-[90vw] max-h-[70vh] rounded-xl shadow-2xl" />
-            ) : (
-              <video src={mediaModal.url} controls autoPlay className="max-w-[90vw] max-h-[70vh] rounded-xl shadow-2xl" />
-            )}
-            <a
-              href={mediaModal.url}
-              download={mediaModal.url.split('/').pop() || 'media'}
-              className="mt-4 px-4 py-2 bg-gradient-to-r from-blue-500 to-pink-500 text-white rounded-lg shadow hover:scale-105 transition text-center"
-            >
-              Download
-            </a>
-      </div>
-        </Modal>
+      {/* Lightbox */}
+      <Lightbox
+        chatId={chatId}
+        message={lightboxMessage}
+        onClose={() => setLightboxMessage(null)}
+        onJumpToMessage={handleJumpToMessage}
+        onForward={(message) => handleOpenForward([message])}
+      />
+
+      {/* Message Info */}
+      <MessageInfoModal
+        message={infoMessage}
+        members={chatInfo?.members || []}
+        onClose={() => setInfoMessage(null)}
+      />
+
+      {/* Edit History */}
+      <EditHistoryModal
+        message={historyMessage}
+        onClose={() => setHistoryMessage(null)}
+      />
+
+      {/* Full reaction picker */}
+      <Modal isOpen={!!reactionPickerFor} onClose={() => setReactionPickerFor(null)} title="Add reaction" size="sm">
+        <div className="flex justify-center">
+          <EmojiPicker
+            onEmojiSelect={(emoji) => {
+              if (reactionPickerFor) handleToggleReaction(reactionPickerFor, emoji.native);
+            }}
+          />
+        </div>
+      </Modal>
+
+      {/* Thread */}
+      <AnimatePresence>
+        {threadRootId && (
+          <motion.div
+            initial={{ x: 300, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 300, opacity: 0 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="fixed inset-y-0 right-0 w-full sm:w-96 z-50 shadow-2xl"
+          >
+            <ThreadPanel
+              chatId={chatId}
+              rootId={threadRootId}
+              onClose={() => setThreadRootId(null)}
+              onJumpToMessage={handleJumpToMessage}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Mentions */}
+      <AnimatePresence>
+        {showMentions && (
+          <motion.div
+            initial={{ x: 300, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 300, opacity: 0 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="fixed inset-y-0 right-0 w-full sm:w-96 z-50 shadow-2xl"
+          >
+            <MentionsPanel
+              chatId={chatId}
+              onClose={() => setShowMentions(false)}
+              onJumpToMessage={handleJumpToMessage}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Shared media */}
+      <AnimatePresence>
+        {showSharedMedia && (
+          <motion.div
+            initial={{ x: 300, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 300, opacity: 0 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="fixed inset-y-0 right-0 w-full sm:w-96 z-40 shadow-2xl"
+          >
+            <SharedMediaPanel
+              chatId={chatId}
+              onClose={() => setShowSharedMedia(false)}
+              onOpenMedia={handleOpenMedia}
+              onJumpToMessage={handleJumpToMessage}
+            />
+          </motion.div>
         )}
+      </AnimatePresence>
+
+      {/* Scheduled messages */}
+      <AnimatePresence>
+        {showScheduled && (
+          <motion.div
+            initial={{ x: 300, opacity: 0 }}
+            animate={{ x: 0, opacity: 1 }}
+            exit={{ x: 300, opacity: 0 }}
+            transition={{ type: "spring", stiffness: 300, damping: 30 }}
+            className="fixed inset-y-0 right-0 w-full sm:w-96 z-50 shadow-2xl"
+          >
+            <ScheduledMessagesPanel
+              scheduled={scheduled}
+              onEdit={(message) =>
+                setScheduleDraft({ id: message.id, content: message.content, sendAt: new Date(message.send_at) })
+              }
+              onCancel={(message) => handleCancelScheduled(message.id)}
+              onClose={() => setShowScheduled(false)}
+            />
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      <ScheduleMessageModal
+        isOpen={!!scheduleDraft}
+        title={scheduleDraft?.id ? 'Edit scheduled message' : 'Schedule message'}
+        submitLabel={scheduleDraft?.id ? 'Save' : 'Schedule'}
+        initialContent={scheduleDraft?.content ?? ''}
+        initialSendAt={scheduleDraft?.sendAt}
+        onSubmit={handleSubmitSchedule}
+        onClose={() => setScheduleDraft(null)}
+      />
+
+      {/* Polls */}
+      <CreatePollModal
+        isOpen={showCreatePoll}
+        onSubmit={handleCreatePoll}
+        onClose={() => setShowCreatePoll(false)}
+      />
+      <PollResultsModal
+        poll={pollResultsFor ? polls[pollResultsFor] ?? null : null}
+        onClose={() => setPollResultsFor(null)}
+      />
+
+      {/* Disappearing messages */}
+      <DisappearingMessagesModal
+        isOpen={showDisappearing}
+        ttl={chatInfo?.message_ttl ?? null}
+        canChange={canChangeMessageTtl}
+        onChange={handleChangeMessageTtl}
+        onClose={() => setShowDisappearing(false)}
+      />
+
+      {/* Delete */}
+      <DeleteMessageModal
+        messages={deleteTargets}
+        userId={user?.id}
+        onDelete={handleConfirmDelete}
+        onClose={() => setDeleteTargets([])}
+      />
 
       {/* Forward Modal */}
       <ForwardModal
         isOpen={forwardModalOpen}
         onClose={() => setForwardModalOpen(false)}
         messages={forwardMessages}
-        friends={friendsForForward}
-        onForward={handleForwardToFriend}
+        onForwarded={handleForwarded}
       />
     </div>
   );
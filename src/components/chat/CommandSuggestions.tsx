@@ -0,0 +1,35 @@
+import React from 'react';
+import { SlashCommand } from '../../lib/commands';
+
+interface CommandSuggestionsProps {
+  suggestions: SlashCommand[];
+  activeIndex: number;
+  onSelect: (command: SlashCommand) => void;
+}
+
+export const CommandSuggestions: React.FC<CommandSuggestionsProps> = ({ suggestions, activeIndex, onSelect }) => (
+  <div className="absolute bottom-full left-2 right-2 sm:right-auto sm:w-96 mb-2 rounded-xl bg-white dark:bg-gray-800 shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+    {suggestions.map((command, index) => (
+      <button
+        key={command.name}
+        type="button"
+        // Keep focus in the composer
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(command)}
+        className={`w-full px-3 py-2 text-left text-sm transition ${
+          index === activeIndex
+            ? 'bg-blue-50 dark:bg-gray-700'
+            : 'hover:bg-gray-50 dark:hover:bg-gray-700/60'
+        }`}
+      >
+        <div className="flex items-baseline space-x-2 min-w-0">
+          <span className="font-medium text-gray-900 dark:text-white">/{command.name}</span>
+          {command.args && (
+            <span className="truncate text-xs text-gray-500 dark:text-gray-400">{command.args}</span>
+          )}
+        </div>
+        <div className="truncate text-xs text-gray-500 dark:text-gray-400">{command.description}</div>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,157 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { MAX_POLL_OPTIONS, MIN_POLL_OPTIONS, NewPoll } from '../../lib/polls';
+
+interface CreatePollModalProps {
+  isOpen: boolean;
+  onSubmit: (poll: NewPoll) => Promise<void>;
+  onClose: () => void;
+}
+
+const emptyOptions = () => Array.from({ length: MIN_POLL_OPTIONS }, () => '');
+
+export const CreatePollModal: React.FC<CreatePollModalProps> = ({ isOpen, onSubmit, onClose }) => {
+  const [question, setQuestion] = useState('');
+  const [options, setOptions] = useState<string[]>(emptyOptions);
+  const [multipleChoice, setMultipleChoice] = useState(false);
+  const [anonymous, setAnonymous] = useState(false);
+  const [closesAt, setClosesAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setQuestion('');
+    setOptions(emptyOptions());
+    setMultipleChoice(false);
+    setAnonymous(false);
+    setClosesAt('');
+    setError(null);
+  }, [isOpen]);
+
+  const updateOption = (index: number, value: string) =>
+    setOptions((prev) => prev.map((option, i) => (i === index ? value : option)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const filled = options.map((option) => option.trim()).filter(Boolean);
+    if (!question.trim()) {
+      setError('Ask a question');
+      return;
+    }
+    if (filled.length < MIN_POLL_OPTIONS) {
+      setError(`Add at least ${MIN_POLL_OPTIONS} options`);
+      return;
+    }
+    if (new Set(filled.map((option) => option.toLowerCase())).size !== filled.length) {
+      setError('Options must be different');
+      return;
+    }
+    const closeDate = closesAt ? new Date(closesAt) : null;
+    if (closeDate && closeDate.getTime() <= Date.now()) {
+      setError('The closing time must be in the future');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit({
+        question: question.trim(),
+        options: filled,
+        multiple_choice: multipleChoice,
+        anonymous,
+        closes_at: closeDate ? closeDate.toISOString() : null,
+      });
+    } catch (error) {
+      console.error('Error creating poll:', error);
+      setError('Failed to create poll');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Create poll" size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <Input
+          label="Question"
+          value={question}
+          maxLength={300}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask something..."
+        />
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Options</label>
+          {options.map((option, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <input
+                value={option}
+                maxLength={100}
+                onChange={(e) => updateOption(index, e.target.value)}
+                placeholder={`Option ${index + 1}`}
+                className="flex-1 p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+              {options.length > MIN_POLL_OPTIONS && (
+                <button
+                  type="button"
+                  onClick={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+                  className="p-1 rounded-full text-gray-500 hover:text-red-500 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title="Remove option"
+                >
+                  <X className="h-4 w-4" />
+                </button>
+              )}
+            </div>
+          ))}
+          {options.length < MAX_POLL_OPTIONS && (
+            <button
+              type="button"
+              onClick={() => setOptions((prev) => [...prev, ''])}
+              className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add option
+            </button>
+          )}
+        </div>
+
+        <div className="space-y-2 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={multipleChoice} onChange={(e) => setMultipleChoice(e.target.checked)} />
+            <span>Allow multiple answers</span>
+          </label>
+          <label className="flex items-center space-x-2">
+            <input type="checkbox" checked={anonymous} onChange={(e) => setAnonymous(e.target.checked)} />
+            <span>Anonymous votes</span>
+          </label>
+          <div>
+            <label className="block mb-1">Close automatically (optional)</label>
+            <input
+              type="datetime-local"
+              value={closesAt}
+              min={format(new Date(), "yyyy-MM-dd'T'HH:mm")}
+              onChange={(e) => setClosesAt(e.target.value)}
+              className="w-full p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saving}>
+            Create poll
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,42 @@
+import React from 'react';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { DeleteMode } from '../../hooks/useMessageDeletion';
+import { Message } from '../../types/chat';
+
+interface DeleteMessageModalProps {
+  messages: Message[];
+  userId?: string;
+  onDelete: (mode: DeleteMode) => void;
+  onClose: () => void;
+}
+
+export const DeleteMessageModal: React.FC<DeleteMessageModalProps> = ({ messages, userId, onDelete, onClose }) => {
+  // Only the sender can delete for everyone, and only once
+  const canDeleteForEveryone =
+    messages.length > 0 &&
+    messages.every((message) => message.sender_id === userId && !message.deleted_at);
+
+  return (
+    <Modal
+      isOpen={messages.length > 0}
+      onClose={onClose}
+      title={messages.length > 1 ? `Delete ${messages.length} messages?` : 'Delete message?'}
+      size="sm"
+    >
+      <div className="space-y-2">
+        {canDeleteForEveryone && (
+          <Button variant="danger" className="w-full" onClick={() => onDelete('everyone')}>
+            Delete for everyone
+          </Button>
+        )}
+        <Button variant="secondary" className="w-full" onClick={() => onDelete('me')}>
+          Delete for me
+        </Button>
+        <Button variant="ghost" className="w-full" onClick={onClose}>
+          Cancel
+        </Button>
+      </div>
+    </Modal>
+  );
+};
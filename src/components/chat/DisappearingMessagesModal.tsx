@@ -0,0 +1,45 @@
+import React from 'react';
+import { Check } from 'lucide-react';
+import { Modal } from '../ui/Modal';
+import { MESSAGE_TTL_OPTIONS } from '../../lib/disappearing';
+
+interface DisappearingMessagesModalProps {
+  isOpen: boolean;
+  ttl: number | null;
+  canChange: boolean;
+  onChange: (ttl: number | null) => void;
+  onClose: () => void;
+}
+
+export const DisappearingMessagesModal: React.FC<DisappearingMessagesModalProps> = ({
+  isOpen,
+  ttl,
+  canChange,
+  onChange,
+  onClose,
+}) => (
+  <Modal isOpen={isOpen} onClose={onClose} title="Disappearing messages" size="sm">
+    <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+      When on, new messages in this chat are removed for everyone once the timer runs out.
+      Messages sent before the timer was set are not affected.
+    </p>
+    <div className="space-y-1">
+      {MESSAGE_TTL_OPTIONS.map((option) => (
+        <button
+          key={option.label}
+          onClick={() => onChange(option.value)}
+          disabled={!canChange}
+          className="w-full flex items-center justify-between px-3 py-2 rounded-md text-sm text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 disabled:cursor-not-allowed disabled:hover:bg-transparent"
+        >
+          <span>{option.label}</span>
+          {option.value === ttl && <Check className="h-4 w-4 text-blue-500" />}
+        </button>
+      ))}
+    </div>
+    {!canChange && (
+      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+        Only group admins can change this setting.
+      </p>
+    )}
+  </Modal>
+);
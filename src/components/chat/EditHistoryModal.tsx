@@ -0,0 +1,83 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Modal } from '../ui/Modal';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { MessageText } from './MessageText';
+import { fetchMessageEdits, MessageEdit } from '../../lib/messages';
+import { Message } from '../../types/chat';
+
+interface EditHistoryModalProps {
+  message: Message | null;
+  onClose: () => void;
+}
+
+export const EditHistoryModal: React.FC<EditHistoryModalProps> = ({ message, onClose }) => {
+  const [edits, setEdits] = useState<MessageEdit[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message) return;
+    let cancelled = false;
+
+    const loadEdits = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchMessageEdits(message.id);
+        if (!cancelled) setEdits(data);
+      } catch (error) {
+        console.error('Error fetching edit history:', error);
+        if (!cancelled) setError('Failed to load edit history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadEdits();
+    return () => { cancelled = true; };
+  }, [message]);
+
+  // Each edit row holds the content that was replaced, so version n was
+  // written when edit n-1 happened (or when the message was sent)
+  const versions = message
+    ? [
+        ...edits.map((edit, index) => ({
+          key: edit.id,
+          content: edit.previous_content,
+          at: index === 0 ? message.created_at : edits[index - 1].edited_at,
+        })),
+        {
+          key: 'current',
+          content: message.content,
+          at: edits.length > 0 ? edits[edits.length - 1].edited_at : message.created_at,
+        },
+      ].reverse()
+    : [];
+
+  return (
+    <Modal isOpen={!!message} onClose={onClose} title="Edit History" size="sm">
+      {loading ? (
+        <LoadingSpinner />
+      ) : error ? (
+        <p className="text-sm text-red-500">{error}</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto space-y-3">
+          {versions.map((version, index) => (
+            <div
+              key={version.key}
+              className="rounded-xl bg-gray-100 dark:bg-gray-800 p-3 text-sm text-gray-900 dark:text-white break-words"
+            >
+              <MessageText content={version.content} />
+              <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 text-right">
+                {index === 0 ? 'Current' : index === versions.length - 1 ? 'Original' : 'Edited'}
+                {' · '}
+                {format(new Date(version.at), 'MMM d, HH:mm')}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Modal>
+  );
+};
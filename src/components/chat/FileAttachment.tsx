@@ -0,0 +1,65 @@
+import React from 'react';
+import {
+  Download,
+  File as FileIcon,
+  FileArchive,
+  FileAudio,
+  FileImage,
+  FileSpreadsheet,
+  FileText,
+  FileVideo,
+} from 'lucide-react';
+import { formatFileSize, getAttachmentDownloadUrl } from '../../lib/media';
+
+interface FileAttachmentProps {
+  url: string;
+  fileName?: string | null;
+  fileSize?: number | null;
+  mimeType?: string | null;
+  isOwn: boolean;
+}
+
+const getFileIcon = (mimeType: string) => {
+  if (mimeType.startsWith('image/')) return FileImage;
+  if (mimeType.startsWith('video/')) return FileVideo;
+  if (mimeType.startsWith('audio/')) return FileAudio;
+  if (/zip|rar|7z|tar|gzip/.test(mimeType)) return FileArchive;
+  if (/spreadsheet|excel|csv/.test(mimeType)) return FileSpreadsheet;
+  if (/pdf|text|document|word|presentation|powerpoint|rtf|json/.test(mimeType)) return FileText;
+  return FileIcon;
+};
+
+export const FileAttachment: React.FC<FileAttachmentProps> = ({ url, fileName, fileSize, mimeType, isOwn }) => {
+  const name = fileName || decodeURIComponent(url.split('?')[0].split('/').pop() || 'file');
+  const Icon = getFileIcon(mimeType || '');
+  const extension = name.includes('.') ? name.split('.').pop()?.toUpperCase() : null;
+  const details = [fileSize != null ? formatFileSize(fileSize) : null, extension].filter(Boolean).join(' · ');
+
+  return (
+    <div className="flex items-center space-x-3 min-w-[12rem] max-w-xs mb-1">
+      <div
+        className={`flex-shrink-0 h-10 w-10 rounded-lg flex items-center justify-center ${
+          isOwn ? 'bg-white/20' : 'bg-blue-100 text-blue-600 dark:bg-gray-800 dark:text-purple-400'
+        }`}
+      >
+        <Icon className="h-5 w-5" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-medium truncate" title={name}>{name}</p>
+        {details && <p className="text-xs opacity-70">{details}</p>}
+      </div>
+      <a
+        href={getAttachmentDownloadUrl(url, name)}
+        download={name}
+        onClick={(e) => e.stopPropagation()}
+        className={`flex-shrink-0 p-1.5 rounded-full transition ${
+          isOwn ? 'hover:bg-white/20' : 'hover:bg-gray-200 dark:hover:bg-gray-800'
+        }`}
+        title={`Download ${name}`}
+        aria-label={`Download ${name}`}
+      >
+        <Download className="h-4 w-4" />
+      </a>
+    </div>
+  );
+};
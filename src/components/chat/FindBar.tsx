@@ -0,0 +1,99 @@
+import React from 'react';
+import { ChevronDown, ChevronUp, Search, X } from 'lucide-react';
+import { FIND_LIMIT } from '../../lib/search';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+
+interface FindBarProps {
+  query: string;
+  matchCount: number;
+  activeIndex: number;
+  loading: boolean;
+  error: string | null;
+  inputRef: React.RefObject<HTMLInputElement>;
+  onQueryChange: (query: string) => void;
+  onNext: () => void;
+  onPrevious: () => void;
+  onClose: () => void;
+}
+
+export const FindBar: React.FC<FindBarProps> = ({
+  query,
+  matchCount,
+  activeIndex,
+  loading,
+  error,
+  inputRef,
+  onQueryChange,
+  onNext,
+  onPrevious,
+  onClose,
+}) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onPrevious();
+      } else {
+        onNext();
+      }
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  let countLabel = '';
+  if (error) {
+    countLabel = error;
+  } else if (matchCount > 0) {
+    countLabel = `${activeIndex + 1} of ${matchCount}${matchCount === FIND_LIMIT ? '+' : ''}`;
+  } else if (query.trim()) {
+    countLabel = 'No results';
+  }
+
+  return (
+    <div className="flex items-center space-x-2 px-2 sm:px-4 py-1.5 bg-white/90 dark:bg-gray-900/90 border-b border-gray-200 dark:border-gray-700">
+      <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+      <input
+        ref={inputRef}
+        type="text"
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="Find in conversation..."
+        autoFocus
+        className="flex-1 min-w-0 bg-transparent text-sm text-gray-900 dark:text-gray-100 placeholder-gray-400 focus:outline-none"
+      />
+      {loading ? (
+        <LoadingSpinner size="sm" />
+      ) : (
+        <span className={`text-xs whitespace-nowrap ${error ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+          {countLabel}
+        </span>
+      )}
+      <button
+        onClick={onNext}
+        disabled={matchCount === 0}
+        className="p-1 rounded-full text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+        title="Older match (Enter)"
+      >
+        <ChevronUp className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onPrevious}
+        disabled={matchCount === 0}
+        className="p-1 rounded-full text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-40"
+        title="Newer match (Shift+Enter)"
+      >
+        <ChevronDown className="w-4 h-4" />
+      </button>
+      <button
+        onClick={onClose}
+        className="p-1 rounded-full text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+        title="Close (Esc)"
+      >
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  );
+};
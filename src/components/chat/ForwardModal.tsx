@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Search, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../../contexts/AuthContext';
+import { ForwardTarget, MAX_FORWARD_TARGETS, fetchForwardTargets, forwardMessages } from '../../lib/forward';
+import { getMessagePreview } from '../../lib/messages';
+import { Avatar } from '../ui/Avatar';
+import { Button } from '../ui/Button';
+import { Input } from '../ui/Input';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Modal } from '../ui/Modal';
+import { Message } from '../../types/chat';
+
+interface ForwardModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  messages: Message[];
+  // Called with the chats the messages went to once forwarding succeeded
+  onForwarded: (chatIds: string[]) => void;
+}
+
+export const ForwardModal: React.FC<ForwardModalProps> = ({ isOpen, onClose, messages, onForwarded }) => {
+  const { user } = useAuth();
+  const [targets, setTargets] = useState<ForwardTarget[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [selected, setSelected] = useState<ForwardTarget[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [comment, setComment] = useState('');
+  const [sending, setSending] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen || !user) return;
+    let cancelled = false;
+    setSelected([]);
+    setSearchQuery('');
+    setComment('');
+    setLoading(true);
+    fetchForwardTargets(user.id)
+      .then((result) => {
+        if (!cancelled) setTargets(result);
+      })
+      .catch((error) => {
+        console.error('Error loading chats to forward to:', error);
+        toast.error('Failed to load chats');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, user]);
+
+  if (!isOpen || messages.length === 0) return null;
+
+  const isSelected = (target: ForwardTarget) => selected.some((item) => item.key === target.key);
+
+  const toggleTarget = (target: ForwardTarget) => {
+    if (isSelected(target)) {
+      setSelected((prev) => prev.filter((item) => item.key !== target.key));
+    } else if (selected.length >= MAX_FORWARD_TARGETS) {
+      toast.error(`You can forward to at most ${MAX_FORWARD_TARGETS} chats at once`);
+    } else {
+      setSelected((prev) => [...prev, target]);
+    }
+  };
+
+  const handleForward = async () => {
+    if (!user || selected.length === 0 || sending) return;
+    setSending(true);
+    try {
+      const chatIds = await forwardMessages(user.id, messages, selected, comment);
+      toast.success(selected.length > 1 ? `Forwarded to ${selected.length} chats` : 'Forwarded');
+      onForwarded(chatIds);
+    } catch (error) {
+      console.error('Error forwarding messages:', error);
+      toast.error('Failed to forward');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const query = searchQuery.trim().toLowerCase();
+  const filteredTargets = targets.filter(
+    (target) => target.name.toLowerCase().includes(query) || target.subtitle.toLowerCase().includes(query)
+  );
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Forward">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600 dark:text-gray-300 truncate">
+          {messages.length > 1 ? `${messages.length} messages` : getMessagePreview(messages[0])}
+        </p>
+
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+          <Input
+            placeholder="Search chats and friends..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {loading ? (
+            <div className="text-center py-8">
+              <LoadingSpinner />
+            </div>
+          ) : filteredTargets.length === 0 ? (
+            <p className="text-center py-8 text-sm text-gray-500 dark:text-gray-400">
+              {targets.length === 0 ? 'No chats yet' : 'No chats found'}
+            </p>
+          ) : (
+            filteredTargets.map((target) => (
+              <button
+                key={target.key}
+                onClick={() => toggleTarget(target)}
+                className={`w-full flex items-center space-x-3 p-2 rounded-lg transition ${
+                  isSelected(target)
+                    ? 'bg-blue-50 dark:bg-blue-900/20'
+                    : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                }`}
+              >
+                {target.isGroup ? (
+                  <div className="w-10 h-10 rounded-full bg-gradient-to-r from-blue-500 to-indigo-600 flex items-center justify-center flex-shrink-0">
+                    <Users className="h-5 w-5 text-white" />
+                  </div>
+                ) : (
+                  <Avatar src={target.avatar_url} name={target.name} size="md" />
+                )}
+                <div className="flex-1 min-w-0 text-left">
+                  <div className="font-medium text-gray-900 dark:text-white truncate">{target.name}</div>
+                  <div className="text-xs text-gray-500 dark:text-gray-400 truncate">{target.subtitle}</div>
+                </div>
+                <div
+                  className={`w-5 h-5 rounded-full border-2 flex items-center justify-center flex-shrink-0 ${
+                    isSelected(target) ? 'bg-blue-500 border-blue-500' : 'border-gray-300 dark:border-gray-600'
+                  }`}
+                >
+                  {isSelected(target) && <Check className="h-3 w-3 text-white" />}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+
+        <Input
+          placeholder="Add a comment (optional)"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleForward();
+          }}
+        />
+
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-500 dark:text-gray-400 truncate">
+            {selected.length > 0 ? selected.map((target) => target.name).join(', ') : 'Select one or more chats'}
+          </span>
+          <Button
+            onClick={handleForward}
+            variant="primary"
+            loading={sending}
+            disabled={selected.length === 0}
+            className="ml-3 flex-shrink-0"
+          >
+            Forward
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
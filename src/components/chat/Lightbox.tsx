@@ -0,0 +1,233 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ChevronLeft, ChevronRight, Download, Forward, MessageSquare, X, ZoomIn, ZoomOut } from 'lucide-react';
+import { format } from 'date-fns';
+import { useMediaGallery } from '../../hooks/useMediaGallery';
+import { getAttachmentDownloadUrl } from '../../lib/media';
+import { Avatar } from '../ui/Avatar';
+import { ProgressiveImage } from './ProgressiveImage';
+import { Message } from '../../types/chat';
+
+interface LightboxProps {
+  chatId: string;
+  // The media message to open with, or null when closed
+  message: Message | null;
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+  onForward: (message: Message) => void;
+}
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+const ZOOM_STEP = 1.25;
+// Horizontal distance a swipe must cover to change the item
+const SWIPE_DISTANCE = 60;
+
+const clampScale = (scale: number) => Math.min(Math.max(scale, MIN_SCALE), MAX_SCALE);
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+export const Lightbox: React.FC<LightboxProps> = ({ chatId, message, onClose, onJumpToMessage, onForward }) => {
+  const { current, hasPrevious, hasNext, go } = useMediaGallery(chatId, message);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState<Point>({ x: 0, y: 0 });
+  const pointersRef = useRef<Map<number, Point>>(new Map());
+  const gestureRef = useRef<{ start: Point; pinchDistance: number; pinchScale: number } | null>(null);
+
+  const zoomTo = useCallback((next: number) => {
+    const clamped = clampScale(next);
+    setScale(clamped);
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  }, []);
+
+  // Every item starts unzoomed
+  useEffect(() => {
+    setScale(1);
+    setOffset({ x: 0, y: 0 });
+  }, [current?.id]);
+
+  useEffect(() => {
+    if (!message) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowLeft') go(-1);
+      else if (e.key === 'ArrowRight') go(1);
+      else if (e.key === '+' || e.key === '=') zoomTo(scale * ZOOM_STEP);
+      else if (e.key === '-') zoomTo(scale / ZOOM_STEP);
+      else if (e.key === '0') zoomTo(MIN_SCALE);
+      else return;
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [message, onClose, go, zoomTo, scale]);
+
+  if (!message || !current) return null;
+
+  const isImage = current.type !== 'video';
+  const fileName = current.file_name || decodeURIComponent(current.content.split('?')[0].split('/').pop() || 'media');
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    if (!isImage) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = { x: e.clientX, y: e.clientY };
+    pointersRef.current.set(e.pointerId, point);
+    const points = Array.from(pointersRef.current.values());
+    gestureRef.current = {
+      start: point,
+      pinchDistance: points.length === 2 ? distance(points[0], points[1]) : 0,
+      pinchScale: scale,
+    };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const previous = pointersRef.current.get(e.pointerId);
+    const gesture = gestureRef.current;
+    if (!previous || !gesture) return;
+    const point = { x: e.clientX, y: e.clientY };
+    pointersRef.current.set(e.pointerId, point);
+    const points = Array.from(pointersRef.current.values());
+
+    if (points.length === 2 && gesture.pinchDistance > 0) {
+      zoomTo(gesture.pinchScale * (distance(points[0], points[1]) / gesture.pinchDistance));
+    } else if (points.length === 1 && scale > MIN_SCALE) {
+      setOffset((prev) => ({ x: prev.x + point.x - previous.x, y: prev.y + point.y - previous.y }));
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent) => {
+    const gesture = gestureRef.current;
+    const wasSingle = pointersRef.current.size === 1;
+    pointersRef.current.delete(e.pointerId);
+    if (pointersRef.current.size > 0) return;
+    gestureRef.current = null;
+    // Swiping only navigates while the image isn't zoomed in
+    if (gesture && wasSingle && scale === MIN_SCALE) {
+      const dx = e.clientX - gesture.start.x;
+      if (Math.abs(dx) > SWIPE_DISTANCE) go(dx > 0 ? -1 : 1);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex flex-col bg-black/95 text-white select-none">
+      {/* Sender, timestamp and actions */}
+      <div className="flex items-center justify-between p-3 bg-gradient-to-b from-black/80 to-transparent">
+        <div className="flex items-center space-x-3 min-w-0">
+          <Avatar src={current.sender.avatar_url} name={current.sender.name} size="sm" />
+          <div className="min-w-0">
+            <p className="text-sm font-semibold truncate">{current.sender.name}</p>
+            <p className="text-xs opacity-70">{format(new Date(current.created_at), 'MMM d, yyyy HH:mm')}</p>
+          </div>
+        </div>
+        <div className="flex items-center space-x-1">
+          {isImage && (
+            <>
+              <button onClick={() => zoomTo(scale / ZOOM_STEP)} className="p-2 rounded-full hover:bg-white/10" title="Zoom out (-)">
+                <ZoomOut className="h-5 w-5" />
+              </button>
+              <button onClick={() => zoomTo(scale * ZOOM_STEP)} className="p-2 rounded-full hover:bg-white/10" title="Zoom in (+)">
+                <ZoomIn className="h-5 w-5" />
+              </button>
+            </>
+          )}
+          <button
+            onClick={() => { onJumpToMessage(current.id); onClose(); }}
+            className="p-2 rounded-full hover:bg-white/10"
+            title="Go to message"
+          >
+            <MessageSquare className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => { onForward(current); onClose(); }}
+            className="p-2 rounded-full hover:bg-white/10"
+            title="Forward"
+          >
+            <Forward className="h-5 w-5" />
+          </button>
+          <a
+            href={getAttachmentDownloadUrl(current.content, fileName)}
+            download={fileName}
+            className="p-2 rounded-full hover:bg-white/10"
+            title="Download"
+          >
+            <Download className="h-5 w-5" />
+          </a>
+          <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" title="Close (Esc)">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Media */}
+      <div
+        className="relative flex-1 min-h-0 flex items-center justify-center overflow-hidden touch-none"
+        onWheel={(e) => isImage && zoomTo(scale * (e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP))}
+        onDoubleClick={() => isImage && zoomTo(scale > MIN_SCALE ? MIN_SCALE : 2)}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        {isImage ? (
+          <div
+            className={scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : 'cursor-zoom-in'}
+            style={{
+              transform: `translate(${offset.x}px, ${offset.y}px) scale(${scale})`,
+              transition: pointersRef.current.size > 0 ? 'none' : 'transform 0.15s ease-out',
+            }}
+          >
+            <ProgressiveImage
+              key={current.id}
+              src={current.content}
+              placeholder={current.thumbnail_url}
+              blurPlaceholder={false}
+              width={current.width}
+              height={current.height}
+              alt={current.caption || fileName}
+              className="max-w-[95vw] max-h-[80vh] w-auto h-auto pointer-events-none"
+            />
+          </div>
+        ) : (
+          <video
+            key={current.id}
+            src={current.content}
+            controls
+            autoPlay
+            className="max-w-[95vw] max-h-[80vh]"
+          />
+        )}
+
+        {hasPrevious && (
+          <button
+            onClick={() => go(-1)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="absolute left-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 hover:bg-black/70"
+            title="Previous (←)"
+          >
+            <ChevronLeft className="h-6 w-6" />
+          </button>
+        )}
+        {hasNext && (
+          <button
+            onClick={() => go(1)}
+            onPointerDown={(e) => e.stopPropagation()}
+            className="absolute right-2 top-1/2 -translate-y-1/2 p-2 rounded-full bg-black/50 hover:bg-black/70"
+            title="Next (→)"
+          >
+            <ChevronRight className="h-6 w-6" />
+          </button>
+        )}
+      </div>
+
+      {current.caption && (
+        <p className="p-4 text-center text-sm bg-gradient-to-t from-black/80 to-transparent break-words">
+          {current.caption}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Avatar } from '../ui/Avatar';
+import { MentionCandidate } from '../../lib/mentions';
+
+interface MentionSuggestionsProps {
+  suggestions: MentionCandidate[];
+  activeIndex: number;
+  onSelect: (candidate: MentionCandidate) => void;
+}
+
+export const MentionSuggestions: React.FC<MentionSuggestionsProps> = ({ suggestions, activeIndex, onSelect }) => (
+  <div className="absolute bottom-full left-2 right-2 sm:right-auto sm:w-72 mb-2 rounded-xl bg-white dark:bg-gray-800 shadow-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+    {suggestions.map((candidate, index) => (
+      <button
+        key={candidate.id}
+        type="button"
+        // Keep focus in the composer
+        onMouseDown={(e) => e.preventDefault()}
+        onClick={() => onSelect(candidate)}
+        className={`w-full flex items-center space-x-2 px-3 py-2 text-left text-sm transition ${
+          index === activeIndex
+            ? 'bg-blue-50 dark:bg-gray-700'
+            : 'hover:bg-gray-50 dark:hover:bg-gray-700/60'
+        }`}
+      >
+        <Avatar src={candidate.avatar_url} name={candidate.full_name} size="sm" />
+        <span className="truncate font-medium text-gray-900 dark:text-white">{candidate.full_name}</span>
+        <span className="truncate text-xs text-gray-500 dark:text-gray-400">@{candidate.username}</span>
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { format } from 'date-fns';
+import { useAuth } from '../../contexts/AuthContext';
+import { fetchMentions, getMessagePreview } from '../../lib/messages';
+import { Avatar } from '../ui/Avatar';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Message } from '../../types/chat';
+
+interface MentionsPanelProps {
+  chatId: string;
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+// Messages in the chat that mention the current user
+export const MentionsPanel: React.FC<MentionsPanelProps> = ({ chatId, onClose, onJumpToMessage }) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    let mounted = true;
+
+    const loadMentions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchMentions(chatId, user.id);
+        if (mounted) setMessages(data);
+      } catch (error) {
+        console.error('Error fetching mentions:', error);
+        if (mounted) setError('Failed to load mentions');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    loadMentions();
+
+    return () => {
+      mounted = false;
+    };
+  }, [chatId, user]);
+
+  return (
+    <div className="flex flex-col h-full w-full bg-white dark:bg-gray-800">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Mentions</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">Messages that mention you</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500 text-center">{error}</p>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No one has mentioned you here yet</p>
+        ) : (
+          messages.map((message) => (
+            <button
+              key={message.id}
+              onClick={() => onJumpToMessage(message.id)}
+              className="w-full text-left flex items-start space-x-2 rounded-xl p-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+              title="Show in chat"
+            >
+              <Avatar src={message.sender.avatar_url} name={message.sender.name} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-baseline space-x-2">
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">{message.sender.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">
+                    {format(new Date(message.created_at), 'MMM d, HH:mm')}
+                  </span>
+                </div>
+                <p className="text-sm text-gray-800 dark:text-gray-200 line-clamp-2 break-words">
+                  {getMessagePreview(message)}
+                </p>
+              </div>
+            </button>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { Check, CheckCheck } from 'lucide-react';
+import { format } from 'date-fns';
+import { Modal } from '../ui/Modal';
+import { Avatar } from '../ui/Avatar';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { fetchMessageReceipts, MessageReceipt } from '../../lib/receipts';
+import { Message } from '../../types/chat';
+
+interface MessageInfoMember {
+  id: string;
+  full_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface MessageInfoModalProps {
+  message: Message | null;
+  members: MessageInfoMember[];
+  onClose: () => void;
+}
+
+const formatReceiptTime = (time: string | null) =>
+  time ? format(new Date(time), 'MMM d, HH:mm') : '';
+
+export const MessageInfoModal: React.FC<MessageInfoModalProps> = ({ message, members, onClose }) => {
+  const [receipts, setReceipts] = useState<MessageReceipt[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!message) return;
+    let cancelled = false;
+
+    const loadReceipts = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await fetchMessageReceipts(message.id);
+        if (!cancelled) setReceipts(data);
+      } catch (error) {
+        console.error('Error fetching message info:', error);
+        if (!cancelled) setError('Failed to load message info');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadReceipts();
+    return () => { cancelled = true; };
+  }, [message]);
+
+  const memberById = new Map(members.map((member) => [member.id, member]));
+  const readReceipts = receipts.filter((receipt) => receipt.read);
+  const deliveredReceipts = receipts.filter((receipt) => receipt.delivered && !receipt.read);
+  const pendingReceipts = receipts.filter((receipt) => !receipt.delivered);
+
+  const renderSection = (
+    title: string,
+    icon: React.ReactNode,
+    items: MessageReceipt[],
+    timeOf: (receipt: MessageReceipt) => string | null
+  ) => items.length > 0 && (
+    <div>
+      <div className="flex items-center space-x-2 text-sm font-semibold text-gray-700 dark:text-gray-200 mb-2">
+        {icon}
+        <span>{title}</span>
+      </div>
+      <div className="space-y-2">
+        {items.map((receipt) => {
+          const member = memberById.get(receipt.user_id);
+          return (
+            <div key={receipt.user_id} className="flex items-center space-x-3">
+              <Avatar src={member?.avatar_url} name={member?.full_name || 'User'} size="sm" />
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 dark:text-white truncate">{member?.full_name || 'Unknown User'}</div>
+                {member && <div className="text-xs text-gray-500 dark:text-gray-400 truncate">@{member.username}</div>}
+              </div>
+              <div className="text-xs text-gray-500 dark:text-gray-400">{formatReceiptTime(timeOf(receipt))}</div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+
+  return (
+    <Modal isOpen={!!message} onClose={onClose} title="Message Info" size="sm">
+      {message && (
+        <div className="space-y-5">
+          <div className="rounded-xl bg-gray-100 dark:bg-gray-800 p-3 text-sm text-gray-900 dark:text-white break-words">
+            {message.type === 'file'
+              ? `[file] ${message.file_name ?? ''}`
+              : message.type === 'image' || message.type === 'video' ? `[${message.type}]` : message.content}
+            <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 text-right">
+              Sent {format(new Date(message.created_at), 'MMM d, HH:mm')}
+            </div>
+          </div>
+          {loading ? (
+            <LoadingSpinner />
+          ) : error ? (
+            <p className="text-sm text-red-500">{error}</p>
+          ) : (
+            <>
+              {renderSection('Read by', <CheckCheck className="h-4 w-4 text-blue-500" />, readReceipts, (receipt) => receipt.read_at)}
+              {renderSection('Delivered to', <CheckCheck className="h-4 w-4 text-gray-400" />, deliveredReceipts, (receipt) => receipt.delivered_at)}
+              {renderSection('Not delivered yet', <Check className="h-4 w-4 text-gray-400" />, pendingReceipts, () => null)}
+            </>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
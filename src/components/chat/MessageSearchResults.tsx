@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { Avatar } from '../ui/Avatar';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import {
+  MIN_SEARCH_LENGTH,
+  MessageSearchResult,
+  groupSearchResults,
+  parseSnippet,
+  searchMessages,
+} from '../../lib/search';
+import { Chat } from '../../types/chat';
+
+// Wait for the user to stop typing before querying
+const SEARCH_DEBOUNCE = 300;
+
+interface MessageSearchResultsProps {
+  query: string;
+  chats: Chat[];
+  onSelectResult: (chatId: string, messageId: string) => void;
+}
+
+export const MessageSearchResults: React.FC<MessageSearchResultsProps> = ({ query, chats, onSelectResult }) => {
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_SEARCH_LENGTH) {
+      setResults([]);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        setError(null);
+        const data = await searchMessages(trimmed);
+        if (!cancelled) setResults(data);
+      } catch (error) {
+        console.error('Error searching messages:', error);
+        if (!cancelled) setError('Failed to search messages');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const groups = groupSearchResults(results);
+
+  return (
+    <div className="pt-2">
+      <div className="px-2 pb-1 text-[10px] font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+        Messages
+      </div>
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <LoadingSpinner size="sm" />
+        </div>
+      ) : error ? (
+        <p className="px-2 py-2 text-xs text-red-500">{error}</p>
+      ) : groups.length === 0 ? (
+        <p className="px-2 py-2 text-xs text-gray-500 dark:text-gray-400">No messages found</p>
+      ) : (
+        <div className="space-y-3">
+          {groups.map(({ chatId, results: chatResults }) => {
+            const chat = chats.find((c) => c.id === chatId);
+            const chatName = chat?.name || chat?.other_user?.full_name || 'Chat';
+            return (
+              <div key={chatId} className="rounded-xl bg-white/80 dark:bg-black/80 shadow-md overflow-hidden">
+                <div className="flex items-center space-x-2 px-2 py-1.5 border-b border-gray-100 dark:border-gray-800">
+                  <Avatar src={chat?.other_user?.avatar_url} name={chatName} size="sm" />
+                  <span className="truncate text-xs font-semibold text-gray-900 dark:text-gray-100">{chatName}</span>
+                </div>
+                {chatResults.map((result) => (
+                  <button
+                    key={result.id}
+                    onClick={() => onSelectResult(result.chat_id, result.id)}
+                    className="w-full text-left px-2 py-1.5 hover:bg-blue-50 dark:hover:bg-gray-800 transition"
+                  >
+                    <div className="flex items-baseline justify-between space-x-2">
+                      <span className="truncate text-[11px] font-medium text-gray-700 dark:text-gray-300">
+                        {result.sender_name}
+                      </span>
+                      <span className="flex-shrink-0 text-[10px] text-gray-400">
+                        {format(new Date(result.created_at), 'MMM d, yyyy')}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-600 dark:text-gray-400 line-clamp-2 break-words">
+                      {parseSnippet(result.snippet).map((part, index) =>
+                        part.match ? (
+                          <mark key={index} className="bg-yellow-200 dark:bg-yellow-600/60 text-inherit rounded-sm">
+                            {part.text}
+                          </mark>
+                        ) : (
+                          <React.Fragment key={index}>{part.text}</React.Fragment>
+                        )
+                      )}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+import React, { useMemo } from 'react';
+import { BlockNode, InlineNode, parseMarkdown } from '../../lib/markdown';
+import { CodeTokenType, tokenizeCode } from '../../lib/highlight';
+import { splitMentions } from '../../lib/mentions';
+import { splitMatches } from '../../lib/search';
+
+export interface TextOptions {
+  // Find bar query to highlight, and whether this message is the current match
+  query?: string;
+  activeMatch?: boolean;
+  // Users the message mentions, and the current user's id
+  mentions?: { id: string; username: string }[];
+  userId?: string;
+}
+
+interface MessageTextProps {
+  content: string;
+  options?: TextOptions;
+  className?: string;
+}
+
+const TOKEN_CLASSES: Record<CodeTokenType, string> = {
+  keyword: 'text-purple-300',
+  string: 'text-green-300',
+  comment: 'text-gray-400 italic',
+  number: 'text-orange-300',
+  plain: '',
+};
+
+// Mark occurrences of the find bar query; the current match is emphasised
+function highlight(text: string, { query, activeMatch }: TextOptions): React.ReactNode {
+  if (!query) return text;
+  return splitMatches(text, query).map((part, index) =>
+    part.match ? (
+      <mark key={index} className={`${activeMatch ? 'bg-orange-400' : 'bg-yellow-300'} text-gray-900 rounded-sm`}>
+        {part.text}
+      </mark>
+    ) : (
+      <React.Fragment key={index}>{part.text}</React.Fragment>
+    )
+  );
+}
+
+// Style @mentions, calling out the ones addressed to the current user
+function renderText(text: string, options: TextOptions): React.ReactNode {
+  if (!options.mentions?.length) return highlight(text, options);
+  return splitMentions(text, options.mentions).map((part, index) =>
+    part.userId ? (
+      <span
+        key={index}
+        className={`font-semibold ${part.userId === options.userId ? 'px-0.5 rounded bg-yellow-200 text-gray-900' : ''}`}
+      >
+        {highlight(part.text, options)}
+      </span>
+    ) : (
+      <React.Fragment key={index}>{highlight(part.text, options)}</React.Fragment>
+    )
+  );
+}
+
+function renderInline(nodes: InlineNode[], options: TextOptions): React.ReactNode[] {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case 'text':
+        return <React.Fragment key={index}>{renderText(node.text, options)}</React.Fragment>;
+      case 'code':
+        return (
+          <code key={index} className="px-1 rounded bg-black/10 dark:bg-white/10 font-mono text-[0.85em]">
+            {highlight(node.text, options)}
+          </code>
+        );
+      case 'link':
+        return (
+          <a
+            key={index}
+            href={node.href}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-blue-500 underline break-all"
+          >
+            {highlight(node.text, options)}
+          </a>
+        );
+      case 'bold':
+        return <strong key={index}>{renderInline(node.children, options)}</strong>;
+      case 'italic':
+        return <em key={index}>{renderInline(node.children, options)}</em>;
+      case 'strike':
+        return <s key={index}>{renderInline(node.children, options)}</s>;
+    }
+  });
+}
+
+function renderBlocks(blocks: BlockNode[], options: TextOptions): React.ReactNode[] {
+  return blocks.map((block, index) => {
+    switch (block.type) {
+      case 'paragraph':
+        return (
+          <p key={index} className="whitespace-pre-wrap">
+            {renderInline(block.children, options)}
+          </p>
+        );
+      case 'code':
+        return (
+          <pre
+            key={index}
+            className="p-2 rounded-lg bg-gray-900 text-gray-100 text-xs font-mono overflow-x-auto max-w-full"
+          >
+            <code>
+              {tokenizeCode(block.code, block.lang).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={TOKEN_CLASSES[token.type]}>
+                  {highlight(token.text, options)}
+                </span>
+              ))}
+            </code>
+          </pre>
+        );
+      case 'quote':
+        return (
+          <blockquote key={index} className="border-l-4 border-current pl-2 opacity-80 space-y-1">
+            {renderBlocks(block.children, options)}
+          </blockquote>
+        );
+      case 'list': {
+        const items = block.items.map((item, itemIndex) => (
+          <li key={itemIndex}>{renderInline(item, options)}</li>
+        ));
+        return block.ordered ? (
+          <ol key={index} start={block.start} className="list-decimal pl-5">
+            {items}
+          </ol>
+        ) : (
+          <ul key={index} className="list-disc pl-5">
+            {items}
+          </ul>
+        );
+      }
+    }
+  });
+}
+
+// Renders message content as formatted text. Everything is built from React
+// elements, so nothing in the content is ever interpreted as HTML.
+export const MessageText: React.FC<MessageTextProps> = ({ content, options = {}, className = '' }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+
+  return <div className={`space-y-1 ${className}`}>{renderBlocks(blocks, options)}</div>;
+};
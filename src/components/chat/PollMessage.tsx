@@ -0,0 +1,123 @@
+import React from 'react';
+import { BarChart2, Check } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Poll, isPollClosed } from '../../lib/polls';
+
+interface PollMessageProps {
+  poll?: Poll;
+  question: string;
+  isOwn: boolean;
+  userId?: string;
+  onVote: (optionIds: string[]) => void;
+  onClosePoll: () => void;
+  onShowResults: () => void;
+}
+
+export const PollMessage: React.FC<PollMessageProps> = ({
+  poll,
+  question,
+  isOwn,
+  userId,
+  onVote,
+  onClosePoll,
+  onShowResults,
+}) => {
+  if (!poll) {
+    return (
+      <div className="min-w-[14rem]">
+        <p className="font-semibold text-sm mb-2">{question}</p>
+        <LoadingSpinner size="sm" />
+      </div>
+    );
+  }
+
+  const closed = isPollClosed(poll);
+  const voted = poll.my_votes.length > 0;
+  // Tallies show once the user has voted, or for everyone after closing
+  const showTallies = voted || closed;
+
+  const handleSelect = (optionId: string) => {
+    if (closed) return;
+    const selected = poll.my_votes.includes(optionId);
+    if (poll.multiple_choice) {
+      onVote(selected ? poll.my_votes.filter((id) => id !== optionId) : [...poll.my_votes, optionId]);
+    } else {
+      onVote(selected ? [] : [optionId]);
+    }
+  };
+
+  const details = [
+    poll.anonymous ? 'Anonymous poll' : 'Poll',
+    poll.multiple_choice ? 'multiple answers' : null,
+    closed
+      ? 'closed'
+      : poll.closes_at
+        ? `closes ${formatDistanceToNow(new Date(poll.closes_at), { addSuffix: true })}`
+        : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="min-w-[14rem] max-w-sm">
+      <div className="flex items-start space-x-2 mb-1">
+        <BarChart2 className="h-4 w-4 mt-0.5 flex-shrink-0" />
+        <p className="font-semibold text-sm break-words">{poll.question}</p>
+      </div>
+      <p className="text-xs opacity-70 mb-2">{details}</p>
+
+      <div className="space-y-1.5">
+        {poll.options.map((option) => {
+          const selected = poll.my_votes.includes(option.id);
+          const percent = poll.voter_count > 0 ? Math.round((option.vote_count / poll.voter_count) * 100) : 0;
+          return (
+            <button
+              key={option.id}
+              onClick={(e) => { e.stopPropagation(); handleSelect(option.id); }}
+              disabled={closed}
+              className={`relative w-full overflow-hidden rounded-lg border text-left text-sm px-2 py-1.5 transition ${
+                isOwn ? 'border-white/40 hover:bg-white/10' : 'border-gray-300 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800'
+              } ${closed ? 'cursor-default' : ''}`}
+            >
+              {showTallies && (
+                <span
+                  className={`absolute inset-y-0 left-0 ${isOwn ? 'bg-white/25' : 'bg-blue-500/20'}`}
+                  style={{ width: `${percent}%` }}
+                />
+              )}
+              <span className="relative flex items-center justify-between space-x-2">
+                <span className="flex items-center min-w-0">
+                  <span
+                    className={`flex-shrink-0 mr-2 h-4 w-4 flex items-center justify-center border ${
+                      poll.multiple_choice ? 'rounded' : 'rounded-full'
+                    } ${isOwn ? 'border-white/70' : 'border-gray-400'} ${selected ? (isOwn ? 'bg-white text-blue-600' : 'bg-blue-500 text-white border-blue-500') : ''}`}
+                  >
+                    {selected && <Check className="h-3 w-3" />}
+                  </span>
+                  <span className="break-words">{option.text}</span>
+                </span>
+                {showTallies && <span className="text-xs font-semibold flex-shrink-0">{percent}%</span>}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <button
+          onClick={(e) => { e.stopPropagation(); onShowResults(); }}
+          className="opacity-80 hover:underline"
+        >
+          {poll.voter_count} {poll.voter_count === 1 ? 'vote' : 'votes'} · View results
+        </button>
+        {!closed && poll.created_by === userId && (
+          <button
+            onClick={(e) => { e.stopPropagation(); onClosePoll(); }}
+            className="opacity-80 hover:underline"
+          >
+            Close poll
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
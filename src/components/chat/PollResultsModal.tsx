@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Modal } from '../ui/Modal';
+import { Avatar } from '../ui/Avatar';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { Poll, PollVoter, fetchPollVoters, isPollClosed } from '../../lib/polls';
+
+interface PollResultsModalProps {
+  poll: Poll | null;
+  onClose: () => void;
+}
+
+export const PollResultsModal: React.FC<PollResultsModalProps> = ({ poll, onClose }) => {
+  const [voters, setVoters] = useState<PollVoter[]>([]);
+  const [loading, setLoading] = useState(false);
+  const pollId = poll?.id;
+  const anonymous = poll?.anonymous ?? true;
+  // Per option, since switching a vote leaves voter_count unchanged
+  const tallies = poll?.options.map((option) => option.vote_count).join(',');
+
+  // Refetch whenever the tallies move so the list stays live
+  useEffect(() => {
+    if (!pollId || anonymous) {
+      setVoters([]);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    fetchPollVoters(pollId)
+      .then((data) => {
+        if (!cancelled) setVoters(data);
+      })
+      .catch((error) => console.error('Error fetching poll voters:', error))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [pollId, anonymous, tallies]);
+
+  return (
+    <Modal isOpen={!!poll} onClose={onClose} title="Poll results" size="md">
+      {poll && (
+        <div className="space-y-4">
+          <div>
+            <p className="font-semibold text-gray-900 dark:text-white break-words">{poll.question}</p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {poll.voter_count} {poll.voter_count === 1 ? 'person' : 'people'} voted
+              {isPollClosed(poll) ? ' · Closed' : ''}
+              {poll.anonymous ? ' · Anonymous' : ''}
+            </p>
+          </div>
+          {poll.options.map((option) => {
+            const optionVoters = voters.filter((voter) => voter.option_id === option.id);
+            return (
+              <div key={option.id}>
+                <div className="flex items-center justify-between text-sm font-medium text-gray-900 dark:text-white">
+                  <span className="break-words">{option.text}</span>
+                  <span className="text-gray-500 dark:text-gray-400 flex-shrink-0 ml-2">
+                    {option.vote_count} {option.vote_count === 1 ? 'vote' : 'votes'}
+                  </span>
+                </div>
+                {!poll.anonymous && optionVoters.length > 0 && (
+                  <ul className="mt-1 space-y-1">
+                    {optionVoters.map((voter) => (
+                      <li key={voter.user.id} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                        <Avatar src={voter.user.avatar_url} name={voter.user.full_name} size="sm" />
+                        <span className="truncate">{voter.user.full_name}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+          {loading && voters.length === 0 && (
+            <div className="flex justify-center">
+              <LoadingSpinner size="sm" />
+            </div>
+          )}
+          {poll.anonymous && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Votes in this poll are anonymous, so only the totals are shown.
+            </p>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
@@ -0,0 +1,56 @@
+import React, { useEffect, useState } from 'react';
+
+interface ProgressiveImageProps {
+  src: string;
+  // Shown until src has loaded: a tiny placeholder or an already cached thumbnail
+  placeholder?: string | null;
+  // Blur the placeholder; off for thumbnails, which are sharp enough as is
+  blurPlaceholder?: boolean;
+  width?: number | null;
+  height?: number | null;
+  alt: string;
+  className?: string;
+  wrapperClassName?: string;
+  onClick?: () => void;
+}
+
+export const ProgressiveImage: React.FC<ProgressiveImageProps> = ({
+  src,
+  placeholder,
+  blurPlaceholder = true,
+  width,
+  height,
+  alt,
+  className = '',
+  wrapperClassName = '',
+  onClick,
+}) => {
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    setLoaded(false);
+  }, [src]);
+
+  return (
+    <span className={`relative block overflow-hidden ${wrapperClassName}`}>
+      {placeholder && !loaded && (
+        <img
+          src={placeholder}
+          alt=""
+          aria-hidden="true"
+          className={`absolute inset-0 w-full h-full object-cover ${blurPlaceholder ? 'blur-md scale-110' : ''}`}
+        />
+      )}
+      <img
+        src={src}
+        alt={alt}
+        width={width ?? undefined}
+        height={height ?? undefined}
+        loading="lazy"
+        onLoad={() => setLoaded(true)}
+        onClick={onClick}
+        className={`relative block transition-opacity duration-300 ${placeholder && !loaded ? 'opacity-0' : 'opacity-100'} ${className}`}
+      />
+    </span>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { addDays, addHours, format, nextMonday, setHours, startOfDay } from 'date-fns';
+import { Modal } from '../ui/Modal';
+import { Button } from '../ui/Button';
+import { MIN_SCHEDULE_DELAY_MS } from '../../lib/scheduled';
+
+interface ScheduleMessageModalProps {
+  isOpen: boolean;
+  title: string;
+  submitLabel: string;
+  initialContent: string;
+  initialSendAt?: Date;
+  onSubmit: (content: string, sendAt: Date) => Promise<void>;
+  onClose: () => void;
+}
+
+// Value format of <input type="datetime-local">, in local time
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+const morningOf = (day: Date) => setHours(startOfDay(day), 9);
+
+const getPresets = (now: Date) => [
+  { label: 'In 1 hour', date: addHours(now, 1) },
+  { label: 'Tomorrow 9:00', date: morningOf(addDays(now, 1)) },
+  { label: 'Monday 9:00', date: morningOf(nextMonday(now)) },
+];
+
+export const ScheduleMessageModal: React.FC<ScheduleMessageModalProps> = ({
+  isOpen,
+  title,
+  submitLabel,
+  initialContent,
+  initialSendAt,
+  onSubmit,
+  onClose,
+}) => {
+  const [content, setContent] = useState(initialContent);
+  const [sendAt, setSendAt] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setContent(initialContent);
+    setSendAt(format(initialSendAt ?? morningOf(addDays(new Date(), 1)), INPUT_FORMAT));
+    setError(null);
+  }, [isOpen, initialContent, initialSendAt]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const date = new Date(sendAt);
+    if (!content.trim()) {
+      setError('Message cannot be empty');
+      return;
+    }
+    if (Number.isNaN(date.getTime()) || date.getTime() < Date.now() + MIN_SCHEDULE_DELAY_MS) {
+      setError('Pick a time at least a minute from now');
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    try {
+      await onSubmit(content.trim(), date);
+    } catch (error) {
+      console.error('Error scheduling message:', error);
+      setError('Failed to schedule message');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={title} size="sm">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <textarea
+          value={content}
+          onChange={(e) => setContent(e.target.value)}
+          rows={3}
+          className="w-full p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <div className="flex flex-wrap gap-2">
+          {getPresets(new Date()).map((preset) => (
+            <button
+              key={preset.label}
+              type="button"
+              onClick={() => setSendAt(format(preset.date, INPUT_FORMAT))}
+              className="px-3 py-1 rounded-full text-xs bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 transition"
+            >
+              {preset.label}
+            </button>
+          ))}
+        </div>
+        <input
+          type="datetime-local"
+          value={sendAt}
+          min={format(new Date(), INPUT_FORMAT)}
+          onChange={(e) => setSendAt(e.target.value)}
+          className="w-full p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <div className="flex justify-end space-x-2">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="submit" loading={saving}>
+            {submitLabel}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Pencil, Trash2, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { Button } from '../ui/Button';
+import { ScheduledMessage } from '../../lib/scheduled';
+import { MessageText } from './MessageText';
+
+interface ScheduledMessagesPanelProps {
+  scheduled: ScheduledMessage[];
+  onEdit: (message: ScheduledMessage) => void;
+  onCancel: (message: ScheduledMessage) => void;
+  onClose: () => void;
+}
+
+export const ScheduledMessagesPanel: React.FC<ScheduledMessagesPanelProps> = ({
+  scheduled,
+  onEdit,
+  onCancel,
+  onClose,
+}) => (
+  <div className="flex flex-col h-full w-full bg-white dark:bg-gray-800">
+    <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Scheduled</h2>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {scheduled.length} {scheduled.length === 1 ? 'message' : 'messages'} waiting to be sent
+        </p>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={onClose}
+        className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+      >
+        <X className="h-5 w-5" />
+      </Button>
+    </div>
+
+    <div className="flex-1 overflow-y-auto p-4 space-y-3">
+      {scheduled.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center">No scheduled messages</p>
+      ) : (
+        scheduled.map((message) => (
+          <div key={message.id} className="rounded-xl bg-gray-100 dark:bg-gray-900 p-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-blue-600 dark:text-blue-400">
+                {format(new Date(message.send_at), 'EEE, MMM d · HH:mm')}
+              </span>
+              <div className="flex items-center space-x-1">
+                <button
+                  onClick={() => onEdit(message)}
+                  className="p-1 rounded-full text-gray-500 hover:text-blue-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => onCancel(message)}
+                  className="p-1 rounded-full text-gray-500 hover:text-red-500 hover:bg-gray-200 dark:hover:bg-gray-700"
+                  title="Cancel"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+            <MessageText
+              content={message.content}
+              className="text-sm text-gray-800 dark:text-gray-200 break-words"
+            />
+          </div>
+        ))
+      )}
+    </div>
+  </div>
+);
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useTheme } from '../../contexts/ThemeContext';
+import { useDrafts } from '../../contexts/DraftsContext';
 import { Button } from '../ui/Button';
 import { Input } from '../ui/Input';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
@@ -32,6 +33,7 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
   });
   const { profile, updateProfile, signOut } = useAuth();
   const { theme, toggleTheme } = useTheme();
+  const { syncEnabled, setSyncEnabled } = useDrafts();
 
   React.useEffect(() => {
     if (profile) {
@@ -193,6 +195,22 @@ export const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose }) => {
       </h3>
       
       <div className="space-y-4">
+        <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <div>
+            <h4 className="font-medium text-gray-900 dark:text-white">Sync Drafts</h4>
+            <p className="text-sm text-gray-500 dark:text-gray-400">Keep unsent messages in sync across your devices</p>
+          </div>
+          <label className="relative inline-flex items-center cursor-pointer">
+            <input
+              type="checkbox"
+              className="sr-only peer"
+              checked={syncEnabled}
+              onChange={(e) => setSyncEnabled(e.target.checked)}
+            />
+            <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-blue-600"></div>
+          </label>
+        </div>
+
         <div className="flex items-center justify-between p-4 bg-gray-50 dark:bg-gray-800 rounded-lg">
           <div>
             <h4 className="font-medium text-gray-900 dark:text-white">Online Status</h4>
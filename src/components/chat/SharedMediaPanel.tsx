@@ -0,0 +1,242 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { ExternalLink, Play, X } from 'lucide-react';
+import { format } from 'date-fns';
+import { SHARED_PAGE_SIZE, SharedTab, fetchSharedMessages, getMessagePreview } from '../../lib/messages';
+import { extractLinks } from '../../lib/markdown';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { FileAttachment } from './FileAttachment';
+import { ProgressiveImage } from './ProgressiveImage';
+import { Message } from '../../types/chat';
+
+interface SharedMediaPanelProps {
+  chatId: string;
+  onClose: () => void;
+  onOpenMedia: (message: Message) => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+const TABS: { id: SharedTab; label: string; empty: string }[] = [
+  { id: 'media', label: 'Media', empty: 'No photos or videos shared yet' },
+  { id: 'files', label: 'Files', empty: 'No files shared yet' },
+  { id: 'links', label: 'Links', empty: 'No links shared yet' },
+];
+
+// Messages grouped by month, keeping their newest-first order
+const groupByMonth = (messages: Message[]) =>
+  messages.reduce<{ month: string; messages: Message[] }[]>((groups, message) => {
+    const month = format(new Date(message.created_at), 'MMMM yyyy');
+    const last = groups[groups.length - 1];
+    if (last && last.month === month) last.messages.push(message);
+    else groups.push({ month, messages: [message] });
+    return groups;
+  }, []);
+
+const getHostname = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
+// Media, files and links shared in the chat, loaded a page at a time
+export const SharedMediaPanel: React.FC<SharedMediaPanelProps> = ({
+  chatId,
+  onClose,
+  onOpenMedia,
+  onJumpToMessage,
+}) => {
+  const [tab, setTab] = useState<SharedTab>('media');
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [hasMore, setHasMore] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef(0);
+  const messagesRef = useRef(messages);
+  const listRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  const loadPage = useCallback(
+    async (reset: boolean) => {
+      const request = ++requestRef.current;
+      const loaded = messagesRef.current;
+      const cursor = reset ? undefined : loaded[loaded.length - 1];
+      setLoading(true);
+      setError(null);
+      try {
+        const page = await fetchSharedMessages(chatId, tab, cursor);
+        if (request !== requestRef.current) return;
+        setMessages((prev) => (reset ? page : [...prev, ...page]));
+        setHasMore(page.length === SHARED_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error fetching shared media:', error);
+        if (request === requestRef.current) setError('Failed to load');
+      } finally {
+        if (request === requestRef.current) setLoading(false);
+      }
+    },
+    [chatId, tab]
+  );
+
+  useEffect(() => {
+    setMessages([]);
+    setHasMore(true);
+    loadPage(true);
+  }, [loadPage]);
+
+  // Load the next page as the end of the list comes into view
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loading || error || messages.length === 0) return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadPage(false);
+      },
+      { root: listRef.current, rootMargin: '0px 0px 200px 0px' }
+    );
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loading, error, messages.length, loadPage]);
+
+  const renderItems = (items: Message[]) => {
+    if (tab === 'media') {
+      return (
+        <div className="grid grid-cols-3 gap-1">
+          {items.map((message) => (
+            <button
+              key={message.id}
+              onClick={() => onOpenMedia(message)}
+              className="relative aspect-square overflow-hidden rounded-md bg-gray-200 dark:bg-gray-700"
+              title={format(new Date(message.created_at), 'MMM d, yyyy HH:mm')}
+            >
+              {message.type === 'video' ? (
+                <>
+                  <video src={message.content} preload="metadata" muted className="w-full h-full object-cover" />
+                  <Play className="absolute inset-0 m-auto h-6 w-6 text-white drop-shadow" />
+                </>
+              ) : (
+                <ProgressiveImage
+                  src={message.thumbnail_url || message.content}
+                  placeholder={message.placeholder}
+                  alt={message.file_name || 'shared photo'}
+                  wrapperClassName="w-full h-full"
+                  className="w-full h-full object-cover"
+                />
+              )}
+            </button>
+          ))}
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-1">
+        {items.map((message) => (
+          <div
+            key={message.id}
+            onClick={() => onJumpToMessage(message.id)}
+            className="cursor-pointer rounded-xl p-2 hover:bg-gray-100 dark:hover:bg-gray-700 transition text-gray-900 dark:text-white"
+            title="Show in chat"
+          >
+            {tab === 'files' ? (
+              <FileAttachment
+                url={message.content}
+                fileName={message.file_name}
+                fileSize={message.file_size}
+                mimeType={message.mime_type}
+                isOwn={false}
+              />
+            ) : (
+              <div className="space-y-1">
+                {extractLinks(message.content).map((url) => (
+                  <a
+                    key={url}
+                    href={url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={(e) => e.stopPropagation()}
+                    className="flex items-center text-sm text-blue-600 dark:text-blue-400 hover:underline min-w-0"
+                  >
+                    <ExternalLink className="h-4 w-4 mr-1 flex-shrink-0" />
+                    <span className="truncate">{getHostname(url)}</span>
+                  </a>
+                ))}
+                <p className="text-xs text-gray-600 dark:text-gray-300 line-clamp-2 break-words">
+                  {getMessagePreview(message)}
+                </p>
+              </div>
+            )}
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {message.sender.name} · {format(new Date(message.created_at), 'MMM d, HH:mm')}
+            </p>
+          </div>
+        ))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="flex flex-col h-full w-full bg-white dark:bg-gray-800">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Shared in this chat</h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex border-b border-gray-200 dark:border-gray-700">
+        {TABS.map(({ id, label }) => (
+          <button
+            key={id}
+            onClick={() => setTab(id)}
+            className={`flex-1 py-2 text-sm font-medium border-b-2 transition ${
+              tab === id
+                ? 'border-blue-500 text-blue-600 dark:text-blue-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-200'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto p-4 space-y-4">
+        {groupByMonth(messages).map(({ month, messages: items }) => (
+          <section key={month}>
+            <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400 mb-2">{month}</h3>
+            {renderItems(items)}
+          </section>
+        ))}
+        {loading && (
+          <div className="flex justify-center py-4">
+            <LoadingSpinner />
+          </div>
+        )}
+        {error && (
+          <div className="text-center">
+            <p className="text-sm text-red-500">{error}</p>
+            <Button variant="ghost" size="sm" onClick={() => loadPage(messages.length === 0)}>
+              Retry
+            </Button>
+          </div>
+        )}
+        {!loading && !error && messages.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+            {TABS.find(({ id }) => id === tab)?.empty}
+          </p>
+        )}
+        <div ref={sentinelRef} />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,235 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Send } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import {
+  RealtimeMessageRow,
+  applyMessageUpdate,
+  fetchMessageById,
+  fetchThreadMessages,
+  getMessagePreview,
+  mergeMessages,
+} from '../../lib/messages';
+import { Avatar } from '../ui/Avatar';
+import { Button } from '../ui/Button';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { MessageText } from './MessageText';
+import { Message } from '../../types/chat';
+
+interface ThreadPanelProps {
+  chatId: string;
+  rootId: string;
+  onClose: () => void;
+  onJumpToMessage: (messageId: string) => void;
+}
+
+export const ThreadPanel: React.FC<ThreadPanelProps> = ({ chatId, rootId, onClose, onJumpToMessage }) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const listEndRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    setMessages([]);
+
+    const loadThread = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const data = await fetchThreadMessages(rootId);
+        if (mounted) setMessages((prev) => mergeMessages(data, prev));
+      } catch (error) {
+        console.error('Error fetching thread:', error);
+        if (mounted) setError('Failed to load thread');
+      } finally {
+        if (mounted) setLoading(false);
+      }
+    };
+
+    loadThread();
+
+    const channel = supabase
+      .channel(`thread:${rootId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `thread_root_id=eq.${rootId}`,
+        },
+        async (payload) => {
+          try {
+            const message = await fetchMessageById(payload.new.id);
+            if (mounted) setMessages((prev) => mergeMessages(prev, [message]));
+          } catch (error) {
+            console.error('Error handling thread reply:', error);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (!mounted) return;
+          const row = payload.new as RealtimeMessageRow;
+          setMessages((prev) =>
+            prev.map((msg) => (msg.id === row.id ? applyMessageUpdate(msg, row) : msg))
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (mounted) {
+            setMessages((prev) => prev.filter((msg) => msg.id !== payload.old.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, rootId]);
+
+  useEffect(() => {
+    listEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.trim() || !user || sending) return;
+
+    setSending(true);
+    try {
+      const { error } = await supabase.from('messages').insert([
+        {
+          chat_id: chatId,
+          sender_id: user.id,
+          content: draft.trim(),
+          reply_to: rootId,
+        },
+      ]);
+
+      if (error) throw error;
+      setDraft('');
+    } catch (error) {
+      console.error('Error sending reply:', error);
+      toast.error('Failed to send reply');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const root = messages.find((message) => message.id === rootId);
+  const replies = messages.filter((message) => message.id !== rootId);
+
+  const renderMessage = (message: Message) => (
+    <div key={message.id} className="flex items-start space-x-2">
+      <Avatar src={message.sender.avatar_url} name={message.sender.name} size="sm" />
+      <div className="flex-1 min-w-0">
+        <div className="flex items-baseline space-x-2">
+          <span className="text-sm font-semibold text-gray-900 dark:text-white truncate">{message.sender.name}</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {format(new Date(message.created_at), 'MMM d, HH:mm')}
+          </span>
+        </div>
+        <div className="text-sm text-gray-800 dark:text-gray-200 break-words">
+          {message.deleted_at || (message.type && message.type !== 'text')
+            ? getMessagePreview(message)
+            : <MessageText content={message.content} />}
+          {message.edited_at && !message.deleted_at && <span className="text-xs italic text-gray-400">(edited)</span>}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full w-full bg-white dark:bg-gray-800">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Thread</h2>
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            {replies.length} {replies.length === 1 ? 'reply' : 'replies'}
+          </p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClose}
+          className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+        >
+          <X className="h-5 w-5" />
+        </Button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <LoadingSpinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-red-500 text-center">{error}</p>
+        ) : (
+          <>
+            {root ? (
+              <button
+                onClick={() => onJumpToMessage(root.id)}
+                className="w-full text-left rounded-xl bg-gray-100 dark:bg-gray-900 p-3 hover:bg-gray-200 dark:hover:bg-gray-700 transition"
+                title="Show in chat"
+              >
+                {renderMessage(root)}
+              </button>
+            ) : (
+              <p className="text-sm italic text-gray-500 dark:text-gray-400">Original message was deleted</p>
+            )}
+            <div className="space-y-3">
+              {replies.map(renderMessage)}
+            </div>
+          </>
+        )}
+        <div ref={listEndRef} />
+      </div>
+
+      <form onSubmit={handleSend} className="p-3 border-t border-gray-200 dark:border-gray-700 flex items-center space-x-2">
+        <input
+          type="text"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          placeholder="Reply in thread..."
+          className="flex-1 p-2 rounded-md border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || sending}
+          className={`p-2 rounded-full ${
+            draft.trim()
+              ? 'bg-blue-500 text-white hover:bg-blue-600'
+              : 'bg-gray-200 dark:bg-gray-700 text-gray-400 dark:text-gray-500 cursor-not-allowed'
+          }`}
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  DraftMap,
+  clearServerDrafts,
+  fetchServerDrafts,
+  isDraftSyncEnabled,
+  loadLocalDrafts,
+  mergeDrafts,
+  saveLocalDrafts,
+  saveServerDraft,
+  setDraftSyncEnabled,
+} from '../lib/drafts';
+
+// How long typing has to pause before a draft is sent to the server
+const SERVER_SAVE_DELAY = 1000;
+
+interface DraftsContextType {
+  drafts: DraftMap;
+  getDraft: (chatId: string) => string;
+  setDraft: (chatId: string, content: string) => void;
+  syncEnabled: boolean;
+  setSyncEnabled: (enabled: boolean) => void;
+}
+
+const DraftsContext = createContext<DraftsContextType | undefined>(undefined);
+
+export const useDrafts = () => {
+  const context = useContext(DraftsContext);
+  if (!context) {
+    throw new Error('useDrafts must be used within a DraftsProvider');
+  }
+  return context;
+};
+
+// Drafts are saved to localStorage as they change and, unless syncing is
+// turned off, to the server shortly after typing pauses. Server drafts are
+// merged in on sign-in and whenever the tab becomes visible again.
+export const DraftsProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [drafts, setDrafts] = useState<DraftMap>({});
+  const [syncEnabled, setSyncEnabledState] = useState(isDraftSyncEnabled);
+  const draftsRef = useRef<DraftMap>({});
+  const saveTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+
+  const updateDrafts = useCallback((update: (prev: DraftMap) => DraftMap) => {
+    draftsRef.current = update(draftsRef.current);
+    setDrafts(draftsRef.current);
+    if (userId) saveLocalDrafts(userId, draftsRef.current);
+  }, [userId]);
+
+  useEffect(() => {
+    const saveTimers = saveTimersRef.current;
+    draftsRef.current = userId ? loadLocalDrafts(userId) : {};
+    setDrafts(draftsRef.current);
+    if (!userId || !syncEnabled) return;
+
+    let cancelled = false;
+    const pull = () =>
+      fetchServerDrafts()
+        .then((remote) => {
+          if (!cancelled) updateDrafts((prev) => mergeDrafts(prev, remote));
+        })
+        .catch((error) => console.error('Error loading drafts:', error));
+    pull();
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') pull();
+    };
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      cancelled = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      saveTimers.forEach(clearTimeout);
+      saveTimers.clear();
+    };
+  }, [userId, syncEnabled, updateDrafts]);
+
+  const getDraft = useCallback((chatId: string) => draftsRef.current[chatId]?.content ?? '', []);
+
+  const setDraft = useCallback((chatId: string, content: string) => {
+    if (!userId || getDraft(chatId) === content) return;
+    const draft = { content, updated_at: new Date().toISOString() };
+    updateDrafts((prev) => ({ ...prev, [chatId]: draft }));
+    if (!syncEnabled) return;
+
+    const timers = saveTimersRef.current;
+    clearTimeout(timers.get(chatId));
+    timers.set(chatId, setTimeout(() => {
+      timers.delete(chatId);
+      saveServerDraft(userId, chatId, draftsRef.current[chatId] ?? draft)
+        .catch((error) => console.error('Error syncing draft:', error));
+    }, SERVER_SAVE_DELAY));
+  }, [userId, syncEnabled, getDraft, updateDrafts]);
+
+  // Turning syncing off removes this user's drafts from the server; local
+  // drafts on this device are kept
+  const setSyncEnabled = useCallback((enabled: boolean) => {
+    setDraftSyncEnabled(enabled);
+    setSyncEnabledState(enabled);
+    if (!enabled && userId) {
+      clearServerDrafts(userId).catch((error) => console.error('Error clearing synced drafts:', error));
+    }
+  }, [userId]);
+
+  return (
+    <DraftsContext.Provider value={{ drafts, getDraft, setDraft, syncEnabled, setSyncEnabled }}>
+      {children}
+    </DraftsContext.Provider>
+  );
+};
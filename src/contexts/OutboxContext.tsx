@@ -0,0 +1,159 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  MAX_SEND_ATTEMPTS,
+  OutboxEntry,
+  deleteOutboxEntry,
+  getOutboxEntries,
+  getRetryDelay,
+  putOutboxEntry,
+  sendOutboxEntry,
+} from '../lib/outbox';
+
+type NewOutboxEntry = Pick<OutboxEntry, 'chat_id' | 'content' | 'type' | 'reply_to' | 'reply' | 'mentions'>;
+
+interface OutboxContextType {
+  entries: OutboxEntry[];
+  enqueue: (message: NewOutboxEntry) => void;
+  retry: (id: string) => void;
+  discard: (id: string) => void;
+}
+
+const OutboxContext = createContext<OutboxContextType | undefined>(undefined);
+
+export const useOutbox = () => {
+  const context = useContext(OutboxContext);
+  if (!context) {
+    throw new Error('useOutbox must be used within an OutboxProvider');
+  }
+  return context;
+};
+
+const persist = (entry: OutboxEntry) =>
+  putOutboxEntry(entry).catch((error) => console.error('Error saving outbox entry:', error));
+
+const forget = (id: string) =>
+  deleteOutboxEntry(id).catch((error) => console.error('Error removing outbox entry:', error));
+
+// Sends queued messages in order, one at a time. A connectivity failure stops
+// the queue (later messages would fail the same way) and retries with
+// backoff; a rejected message is marked failed and the queue moves on.
+export const OutboxProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const entriesRef = useRef<OutboxEntry[]>([]);
+  const flushingRef = useRef(false);
+  const retryTimerRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const updateEntries = useCallback((update: (prev: OutboxEntry[]) => OutboxEntry[]) => {
+    entriesRef.current = update(entriesRef.current);
+    setEntries(entriesRef.current);
+  }, []);
+
+  const flush = useCallback(async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    clearTimeout(retryTimerRef.current);
+
+    try {
+      for (;;) {
+        const next = entriesRef.current.find((entry) => entry.status === 'pending');
+        if (!next || next.next_attempt_at > Date.now()) break;
+        // Offline attempts don't count; the online event restarts the queue
+        if (!navigator.onLine) return;
+
+        const result = await sendOutboxEntry(next).catch(() => 'retry' as const);
+        if (result === 'sent') {
+          updateEntries((prev) => prev.filter((entry) => entry.id !== next.id));
+          forget(next.id);
+          continue;
+        }
+
+        const attempts = next.attempts + 1;
+        const updated: OutboxEntry = {
+          ...next,
+          attempts,
+          status: result === 'failed' || attempts >= MAX_SEND_ATTEMPTS ? 'failed' : 'pending',
+          next_attempt_at: Date.now() + getRetryDelay(attempts),
+        };
+        updateEntries((prev) => prev.map((entry) => (entry.id === next.id ? updated : entry)));
+        persist(updated);
+        if (result === 'retry') break;
+      }
+    } finally {
+      flushingRef.current = false;
+    }
+
+    const next = entriesRef.current.find((entry) => entry.status === 'pending');
+    if (next && navigator.onLine) {
+      retryTimerRef.current = setTimeout(flush, Math.max(next.next_attempt_at - Date.now(), 0));
+    }
+  }, [updateEntries]);
+
+  useEffect(() => {
+    entriesRef.current = [];
+    setEntries([]);
+    if (!userId) return;
+
+    let cancelled = false;
+    getOutboxEntries(userId)
+      .then((stored) => {
+        if (cancelled || stored.length === 0) return;
+        updateEntries((prev) => [...stored, ...prev.filter((entry) => !stored.some((s) => s.id === entry.id))]);
+        flush();
+      })
+      .catch((error) => console.error('Error loading outbox:', error));
+
+    // Connectivity is back: retry right away instead of waiting out the backoff
+    const handleOnline = () => {
+      updateEntries((prev) =>
+        prev.map((entry) => (entry.status === 'pending' ? { ...entry, next_attempt_at: 0 } : entry))
+      );
+      flush();
+    };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(retryTimerRef.current);
+      window.removeEventListener('online', handleOnline);
+    };
+  }, [userId, flush, updateEntries]);
+
+  const enqueue = useCallback((message: NewOutboxEntry) => {
+    if (!userId) return;
+    const entry: OutboxEntry = {
+      ...message,
+      id: crypto.randomUUID(),
+      sender_id: userId,
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: 0,
+    };
+    updateEntries((prev) => [...prev, entry]);
+    persist(entry);
+    flush();
+  }, [userId, flush, updateEntries]);
+
+  const retry = useCallback((id: string) => {
+    const entry = entriesRef.current.find((e) => e.id === id);
+    if (!entry) return;
+    const updated: OutboxEntry = { ...entry, status: 'pending', attempts: 0, next_attempt_at: 0 };
+    updateEntries((prev) => prev.map((e) => (e.id === id ? updated : e)));
+    persist(updated);
+    flush();
+  }, [flush, updateEntries]);
+
+  const discard = useCallback((id: string) => {
+    updateEntries((prev) => prev.filter((entry) => entry.id !== id));
+    forget(id);
+  }, [updateEntries]);
+
+  return (
+    <OutboxContext.Provider value={{ entries, enqueue, retry, discard }}>
+      {children}
+    </OutboxContext.Provider>
+  );
+};
@@ -0,0 +1,169 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import {
+  UnreadableImageError,
+  getAttachmentMimeType,
+  getAttachmentType,
+  isAbortError,
+  sendAttachmentMessage,
+  uploadAttachment,
+  validateAttachment,
+} from '../lib/media';
+
+// Files that can be queued in the tray at once
+export const MAX_TRAY_FILES = 10;
+
+export interface TrayItem {
+  id: string;
+  file: File;
+  // Object URL for image previews
+  previewUrl: string | null;
+  caption: string;
+  status: 'queued' | 'uploading' | 'failed';
+  // Fraction uploaded, from 0 to 1
+  progress: number;
+  error?: string;
+}
+
+const isAlbumItem = (item: TrayItem) => getAttachmentType(getAttachmentMimeType(item.file)) !== 'file';
+
+const revokePreview = (item: TrayItem) => {
+  if (item.previewUrl) URL.revokeObjectURL(item.previewUrl);
+};
+
+// Pre-send tray of attachments for a chat. Files upload one at a time in tray
+// order, each becoming its own message; two or more images or videos sent
+// together share an album.
+export const useAttachmentUploads = (chatId: string, userId?: string) => {
+  const [items, setItems] = useState<TrayItem[]>([]);
+  const [sending, setSending] = useState(false);
+  const itemsRef = useRef(items);
+  const controllersRef = useRef<Map<string, AbortController>>(new Map());
+
+  useEffect(() => {
+    itemsRef.current = items;
+  }, [items]);
+
+  // The tray belongs to one chat: drop it, and stop its uploads, on switching
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => {
+      controllers.forEach((controller) => controller.abort());
+      controllers.clear();
+      itemsRef.current.forEach(revokePreview);
+      setItems([]);
+      setSending(false);
+    };
+  }, [chatId]);
+
+  const updateItem = (id: string, update: Partial<TrayItem>) =>
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...update } : item)));
+
+  const dropItem = (id: string) =>
+    setItems((prev) => {
+      const item = prev.find((i) => i.id === id);
+      if (item) revokePreview(item);
+      return prev.filter((i) => i.id !== id);
+    });
+
+  const addFiles = useCallback((files: File[]) => {
+    const room = MAX_TRAY_FILES - itemsRef.current.length;
+    if (files.length > room) {
+      toast.error(`You can send up to ${MAX_TRAY_FILES} files at once`);
+    }
+    const added: TrayItem[] = [];
+    files.slice(0, Math.max(room, 0)).forEach((file) => {
+      const invalid = validateAttachment(file);
+      if (invalid) {
+        toast.error(invalid);
+        return;
+      }
+      const mimeType = getAttachmentMimeType(file);
+      added.push({
+        id: crypto.randomUUID(),
+        file,
+        previewUrl: mimeType.startsWith('image/') ? URL.createObjectURL(file) : null,
+        caption: '',
+        status: 'queued',
+        progress: 0,
+      });
+    });
+    if (added.length > 0) setItems((prev) => [...prev, ...added]);
+  }, []);
+
+  // Cancels the upload if it is running, otherwise takes the file off the tray
+  const removeItem = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) {
+      controller.abort();
+      return;
+    }
+    dropItem(id);
+  }, []);
+
+  const moveItem = useCallback((id: string, offset: number) => {
+    setItems((prev) => {
+      const from = prev.findIndex((item) => item.id === id);
+      const to = from + offset;
+      if (from === -1 || to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [item] = next.splice(from, 1);
+      next.splice(to, 0, item);
+      return next;
+    });
+  }, []);
+
+  const setCaption = useCallback((id: string, caption: string) => updateItem(id, { caption }), []);
+
+  const clear = useCallback(() => {
+    controllersRef.current.forEach((controller) => controller.abort());
+    setItems((prev) => {
+      prev.filter((item) => !controllersRef.current.has(item.id)).forEach(revokePreview);
+      return prev.filter((item) => controllersRef.current.has(item.id));
+    });
+  }, []);
+
+  const send = useCallback(async () => {
+    if (!userId || sending) return;
+    const queue = itemsRef.current.filter((item) => item.status !== 'uploading');
+    if (queue.length === 0) return;
+    const sendingChatId = chatId;
+    const albumId = queue.filter(isAlbumItem).length > 1 ? crypto.randomUUID() : null;
+
+    setSending(true);
+    for (const queued of queue) {
+      // Skip files removed while earlier ones were uploading
+      const item = itemsRef.current.find((i) => i.id === queued.id);
+      if (!item) continue;
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateItem(item.id, { status: 'uploading', progress: 0, error: undefined });
+      try {
+        const attachment = await uploadAttachment(sendingChatId, userId, item.file, {
+          signal: controller.signal,
+          onProgress: (progress) => updateItem(item.id, { progress }),
+        });
+        await sendAttachmentMessage(sendingChatId, userId, attachment, {
+          // Read again in case it was edited during the upload
+          caption: itemsRef.current.find((i) => i.id === item.id)?.caption.trim() ?? item.caption.trim(),
+          albumId: isAlbumItem(item) ? albumId : null,
+        });
+        dropItem(item.id);
+      } catch (error) {
+        if (isAbortError(error)) {
+          dropItem(item.id);
+        } else {
+          console.error('Error sending attachment:', error);
+          const message = error instanceof Error ? error.message : 'Upload failed';
+          updateItem(item.id, { status: 'failed', error: message });
+          toast.error(error instanceof UnreadableImageError ? message : `Failed to send ${item.file.name}`);
+        }
+      } finally {
+        controllersRef.current.delete(item.id);
+      }
+    }
+    setSending(false);
+  }, [chatId, userId, sending]);
+
+  return { items, sending, addFiles, removeItem, moveItem, setCaption, clear, send };
+};
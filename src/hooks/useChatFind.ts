@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { MessageCursor } from '../lib/messages';
+import { findInChat } from '../lib/search';
+
+// Wait for the user to stop typing before querying
+const FIND_DEBOUNCE = 300;
+
+// State for the in-chat find bar. Matches come from the server so messages
+// that aren't loaded yet are found too; onSelectMatch is expected to load and
+// scroll to the message. Matches are ordered newest first, so "next" walks
+// back through the history.
+export const useChatFind = (chatId: string, onSelectMatch: (messageId: string) => void) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [matches, setMatches] = useState<MessageCursor[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const onSelectMatchRef = useRef(onSelectMatch);
+
+  useEffect(() => {
+    onSelectMatchRef.current = onSelectMatch;
+  }, [onSelectMatch]);
+
+  useEffect(() => {
+    setIsOpen(false);
+    setQuery('');
+  }, [chatId]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    setMatches([]);
+    setActiveIndex(0);
+    setError(null);
+    if (!isOpen || !trimmed) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    const timeout = setTimeout(async () => {
+      try {
+        const data = await findInChat(chatId, trimmed);
+        if (cancelled) return;
+        setMatches(data);
+        if (data.length > 0) onSelectMatchRef.current(data[0].id);
+      } catch (error) {
+        console.error('Error finding messages:', error);
+        if (!cancelled) setError('Search failed');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    }, FIND_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [chatId, query, isOpen]);
+
+  const step = useCallback((delta: number) => {
+    if (matches.length === 0) return;
+    const index = (activeIndex + delta + matches.length) % matches.length;
+    setActiveIndex(index);
+    onSelectMatchRef.current(matches[index].id);
+  }, [matches, activeIndex]);
+
+  const open = useCallback(() => setIsOpen(true), []);
+
+  const close = useCallback(() => {
+    setIsOpen(false);
+    setQuery('');
+  }, []);
+
+  return {
+    isOpen,
+    query,
+    setQuery,
+    matches,
+    activeIndex,
+    activeMatchId: matches[activeIndex]?.id ?? null,
+    loading,
+    error,
+    open,
+    close,
+    next: () => step(1),
+    previous: () => step(-1),
+  };
+};
@@ -0,0 +1,44 @@
+import React, { useCallback, useRef, useState } from 'react';
+
+const hasFiles = (e: React.DragEvent) => Array.from(e.dataTransfer.types).includes('Files');
+
+// Tracks files dragged over an element and hands dropped ones to onFiles.
+// dragenter and dragleave also fire when moving between children, so the
+// depth is counted to know when the drag really left.
+export const useFileDrop = (onFiles: (files: File[]) => void) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const depthRef = useRef(0);
+
+  const onDragEnter = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    depthRef.current += 1;
+    setIsDragging(true);
+  }, []);
+
+  const onDragOver = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  }, []);
+
+  const onDragLeave = useCallback((e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    depthRef.current = Math.max(0, depthRef.current - 1);
+    if (depthRef.current === 0) setIsDragging(false);
+  }, []);
+
+  const onDrop = useCallback(
+    (e: React.DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      depthRef.current = 0;
+      setIsDragging(false);
+      const files = Array.from(e.dataTransfer.files);
+      if (files.length > 0) onFiles(files);
+    },
+    [onFiles]
+  );
+
+  return { isDragging, dropHandlers: { onDragEnter, onDragOver, onDragLeave, onDrop } };
+};
@@ -0,0 +1,93 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { fetchSharedMessages, fetchSharedMessagesAfter } from '../lib/messages';
+import { Message } from '../types/chat';
+
+const PAGE_SIZE = 20;
+// Load the next page once navigation gets this close to either end
+const PRELOAD_DISTANCE = 3;
+
+// All images and videos of a chat around the one opened in the lightbox, in
+// chronological order. More are paged in as navigation nears either end.
+export const useMediaGallery = (chatId: string, start: Message | null) => {
+  const [items, setItems] = useState<Message[]>([]);
+  const [index, setIndex] = useState(0);
+  const [hasOlder, setHasOlder] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const loadingRef = useRef({ older: false, newer: false });
+  const openRef = useRef(0);
+
+  useEffect(() => {
+    const open = ++openRef.current;
+    loadingRef.current = { older: false, newer: false };
+    setItems(start ? [start] : []);
+    setIndex(0);
+    setHasOlder(false);
+    setHasNewer(false);
+    if (!start) return;
+
+    Promise.all([
+      fetchSharedMessages(chatId, 'media', start, PAGE_SIZE),
+      fetchSharedMessagesAfter(chatId, 'media', start, PAGE_SIZE),
+    ])
+      .then(([older, newer]) => {
+        if (open !== openRef.current) return;
+        const before = [...older].reverse();
+        setItems([...before, start, ...newer]);
+        setIndex(before.length);
+        setHasOlder(older.length === PAGE_SIZE);
+        setHasNewer(newer.length === PAGE_SIZE);
+      })
+      .catch((error) => console.error('Error loading media:', error));
+  }, [chatId, start]);
+
+  const loadOlder = useCallback(async (first: Message) => {
+    if (loadingRef.current.older) return;
+    const open = openRef.current;
+    loadingRef.current.older = true;
+    try {
+      const older = await fetchSharedMessages(chatId, 'media', first, PAGE_SIZE);
+      if (open !== openRef.current) return;
+      setItems((prev) => [...[...older].reverse(), ...prev]);
+      setIndex((prev) => prev + older.length);
+      setHasOlder(older.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older media:', error);
+    } finally {
+      loadingRef.current.older = false;
+    }
+  }, [chatId]);
+
+  const loadNewer = useCallback(async (last: Message) => {
+    if (loadingRef.current.newer) return;
+    const open = openRef.current;
+    loadingRef.current.newer = true;
+    try {
+      const newer = await fetchSharedMessagesAfter(chatId, 'media', last, PAGE_SIZE);
+      if (open !== openRef.current) return;
+      setItems((prev) => [...prev, ...newer]);
+      setHasNewer(newer.length === PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading newer media:', error);
+    } finally {
+      loadingRef.current.newer = false;
+    }
+  }, [chatId]);
+
+  useEffect(() => {
+    if (items.length === 0) return;
+    if (hasOlder && index < PRELOAD_DISTANCE) loadOlder(items[0]);
+    if (hasNewer && index >= items.length - PRELOAD_DISTANCE) loadNewer(items[items.length - 1]);
+  }, [index, items, hasOlder, hasNewer, loadOlder, loadNewer]);
+
+  const go = useCallback(
+    (offset: number) => setIndex((prev) => Math.min(Math.max(prev + offset, 0), Math.max(items.length - 1, 0))),
+    [items.length]
+  );
+
+  return {
+    current: items[index] ?? start,
+    hasPrevious: index > 0,
+    hasNext: index < items.length - 1,
+    go,
+  };
+};
@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import toast from 'react-hot-toast';
+import { deleteMessageForEveryone, hideMessages } from '../lib/messages';
+import { removeChatMediaPaths } from '../lib/media';
+import { Message } from '../types/chat';
+
+export type DeleteMode = 'me' | 'everyone';
+
+// How long a deletion can be undone before it is sent to the server
+export const DELETE_UNDO_WINDOW = 5000;
+
+interface PendingDeletion {
+  messages: Message[];
+  mode: DeleteMode;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Deletions are applied locally straight away but only committed once the
+// undo window has passed, or when the chat is closed
+export const useMessageDeletion = (
+  chatId: string,
+  userId: string | undefined,
+  setMessages: React.Dispatch<React.SetStateAction<Message[]>>
+) => {
+  const [pendingDeletes, setPendingDeletes] = useState<Record<string, DeleteMode>>({});
+  const batchesRef = useRef(new Map<string, PendingDeletion>());
+
+  const clearPending = (ids: string[]) =>
+    setPendingDeletes((prev) => {
+      const next = { ...prev };
+      ids.forEach((id) => delete next[id]);
+      return next;
+    });
+
+  const commit = useCallback(async (batchId: string) => {
+    const batch = batchesRef.current.get(batchId);
+    if (!batch || !userId) return;
+    batchesRef.current.delete(batchId);
+    clearTimeout(batch.timer);
+
+    const ids = batch.messages.map((message) => message.id);
+    try {
+      if (batch.mode === 'me') {
+        await hideMessages(ids, userId);
+        setMessages((prev) => prev.filter((message) => !ids.includes(message.id)));
+      } else {
+        const unusedMedia = (await Promise.all(ids.map(deleteMessageForEveryone))).flat();
+        setMessages((prev) =>
+          prev.map((message) =>
+            ids.includes(message.id)
+              ? { ...message, content: '', deleted_at: message.deleted_at || new Date().toISOString() }
+              : message
+          )
+        );
+        // Only our own files that no other message uses; forwarded copies share them
+        removeChatMediaPaths(unusedMedia).catch((error) =>
+          console.error('Error removing message media:', error)
+        );
+      }
+    } catch (error) {
+      console.error('Error deleting messages:', error);
+      toast.error('Failed to delete message');
+    } finally {
+      clearPending(ids);
+    }
+  }, [userId, setMessages]);
+
+  // Commit whatever is still pending when leaving the chat
+  useEffect(() => {
+    const batches = batchesRef.current;
+    return () => {
+      Array.from(batches.keys()).forEach(commit);
+    };
+  }, [chatId, commit]);
+
+  // Returns a function that cancels the deletion while it is still pending
+  const deleteMessages = useCallback((messages: Message[], mode: DeleteMode) => {
+    const batchId = crypto.randomUUID();
+    const ids = messages.map((message) => message.id);
+    setPendingDeletes((prev) => ({ ...prev, ...Object.fromEntries(ids.map((id) => [id, mode])) }));
+    batchesRef.current.set(batchId, {
+      messages,
+      mode,
+      timer: setTimeout(() => commit(batchId), DELETE_UNDO_WINDOW),
+    });
+
+    return () => {
+      const batch = batchesRef.current.get(batchId);
+      if (!batch) return;
+      clearTimeout(batch.timer);
+      batchesRef.current.delete(batchId);
+      clearPending(ids);
+    };
+  }, [commit]);
+
+  return { pendingDeletes, deleteMessages };
+};
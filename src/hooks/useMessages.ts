@@ -0,0 +1,309 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import {
+  MESSAGE_PAGE_SIZE,
+  RealtimeMessageRow,
+  applyMessageUpdate,
+  applyReplyUpdate,
+  fetchLatestMessages,
+  fetchMessageById,
+  fetchMessagesAfter,
+  fetchMessagesBefore,
+  mergeMessages,
+} from '../lib/messages';
+import { markChatsDelivered } from '../lib/receipts';
+import { Message } from '../types/chat';
+
+// Fallback catch-up interval in case realtime events are missed
+const CATCH_UP_INTERVAL = 5000;
+
+// setTimeout fires immediately for longer delays, e.g. a 90 day timer
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+// The loaded messages are normally the newest page(s) of the chat. After
+// jumping to an older message they are a window around it instead; new
+// messages are then paged in with loadNewer rather than appended live.
+export const useMessages = (chatId: string, userId?: string) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [loadingNewer, setLoadingNewer] = useState(false);
+  const [hasMore, setHasMore] = useState(false);
+  const [hasNewer, setHasNewer] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const messagesRef = useRef<Message[]>([]);
+  const chatIdRef = useRef(chatId);
+  const detachedRef = useRef(false);
+  const loadingOlderRef = useRef(false);
+  const loadingNewerRef = useRef(false);
+
+  useEffect(() => {
+    messagesRef.current = messages;
+  }, [messages]);
+
+  useEffect(() => {
+    detachedRef.current = hasNewer;
+  }, [hasNewer]);
+
+  // Drop disappearing messages as soon as they expire. The server deletes
+  // them in batches every few minutes.
+  useEffect(() => {
+    const expiries = messages
+      .filter((message) => message.expires_at)
+      .map((message) => new Date(message.expires_at as string).getTime());
+    if (expiries.length === 0) return;
+
+    const delay = Math.min(Math.max(Math.min(...expiries) - Date.now(), 0), MAX_TIMER_DELAY);
+    const timeout = setTimeout(() => {
+      const now = Date.now();
+      setMessages((prev) =>
+        prev.filter((message) => !message.expires_at || new Date(message.expires_at).getTime() > now)
+      );
+    }, delay);
+    return () => clearTimeout(timeout);
+  }, [messages]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let mounted = true;
+    let initialized = false;
+    let catchingUp = false;
+    chatIdRef.current = chatId;
+    messagesRef.current = [];
+    detachedRef.current = false;
+    setMessages([]);
+    setHasMore(false);
+    setHasNewer(false);
+
+    const fetchInitial = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const page = await fetchLatestMessages(chatId);
+
+        if (mounted) {
+          setMessages((prev) => mergeMessages(page, prev));
+          setHasMore(page.length === MESSAGE_PAGE_SIZE);
+          initialized = true;
+        }
+      } catch (error) {
+        console.error('Error fetching messages:', error);
+        if (mounted) {
+          setError('Failed to load messages. Please try again.');
+        }
+      } finally {
+        if (mounted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    // Pull in anything newer than the newest message we already have
+    const catchUp = async () => {
+      if (!initialized || catchingUp || detachedRef.current) return;
+      const newest = messagesRef.current[messagesRef.current.length - 1];
+
+      catchingUp = true;
+      try {
+        if (!newest) {
+          const page = await fetchLatestMessages(chatId);
+          if (mounted) setMessages((prev) => mergeMessages(prev, page));
+          return;
+        }
+
+        let cursor = newest;
+        for (;;) {
+          const newer = await fetchMessagesAfter(chatId, cursor);
+          if (!mounted || detachedRef.current || newer.length === 0) break;
+          setMessages((prev) => mergeMessages(prev, newer));
+          if (newer.length < MESSAGE_PAGE_SIZE) break;
+          cursor = newer[newer.length - 1];
+        }
+      } catch (error) {
+        console.error('Error catching up on messages:', error);
+      } finally {
+        catchingUp = false;
+      }
+    };
+
+    fetchInitial();
+
+    const catchUpInterval = setInterval(catchUp, CATCH_UP_INTERVAL);
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') catchUp();
+    };
+    window.addEventListener('online', catchUp);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    const channel = supabase
+      .channel(`messages:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        async (payload) => {
+          try {
+            if (payload.new.sender_id !== userId) {
+              markChatsDelivered();
+            }
+            if (detachedRef.current) return;
+            const message = await fetchMessageById(payload.new.id);
+            if (mounted && !detachedRef.current) {
+              setMessages((prev) => mergeMessages(prev, [message]));
+            }
+          } catch (error) {
+            console.error('Error handling new message:', error);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (!mounted) return;
+          const row = payload.new as RealtimeMessageRow;
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === row.id ? applyMessageUpdate(msg, row) : applyReplyUpdate(msg, row)
+            )
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (mounted) {
+            setMessages((prev) => prev.filter((msg) => msg.id !== payload.old.id));
+          }
+        }
+      )
+      .subscribe((status) => {
+        // Events sent while the socket was down are not replayed
+        if (status === 'SUBSCRIBED') catchUp();
+      });
+
+    return () => {
+      mounted = false;
+      clearInterval(catchUpInterval);
+      window.removeEventListener('online', catchUp);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [chatId, userId]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messagesRef.current[0];
+    if (!oldest || loadingOlderRef.current) return;
+
+    const requestedChatId = chatIdRef.current;
+    loadingOlderRef.current = true;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchMessagesBefore(requestedChatId, oldest);
+      if (chatIdRef.current !== requestedChatId) return;
+      setMessages((prev) => mergeMessages(prev, page));
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading older messages:', error);
+    } finally {
+      loadingOlderRef.current = false;
+      setLoadingOlder(false);
+    }
+  }, []);
+
+  const loadNewer = useCallback(async () => {
+    const newest = messagesRef.current[messagesRef.current.length - 1];
+    if (!newest || loadingNewerRef.current || !detachedRef.current) return;
+
+    const requestedChatId = chatIdRef.current;
+    loadingNewerRef.current = true;
+    setLoadingNewer(true);
+    try {
+      const page = await fetchMessagesAfter(requestedChatId, newest);
+      if (chatIdRef.current !== requestedChatId) return;
+      setMessages((prev) => mergeMessages(prev, page));
+      setHasNewer(page.length === MESSAGE_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading newer messages:', error);
+    } finally {
+      loadingNewerRef.current = false;
+      setLoadingNewer(false);
+    }
+  }, []);
+
+  // Make sure a message is loaded, replacing the window with the messages
+  // around it if needed. Resolves to false if it can't be found in this chat.
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (messagesRef.current.some((message) => message.id === messageId)) return true;
+
+    const requestedChatId = chatIdRef.current;
+    try {
+      const target = await fetchMessageById(messageId);
+      if (target.chat_id !== requestedChatId) return false;
+
+      const half = Math.floor(MESSAGE_PAGE_SIZE / 2);
+      const [before, after] = await Promise.all([
+        fetchMessagesBefore(requestedChatId, target, half),
+        fetchMessagesAfter(requestedChatId, target, half),
+      ]);
+      if (chatIdRef.current !== requestedChatId) return false;
+
+      detachedRef.current = after.length === half;
+      setMessages([...before, target, ...after]);
+      setHasMore(before.length === half);
+      setHasNewer(after.length === half);
+      return true;
+    } catch (error) {
+      console.error('Error jumping to message:', error);
+      return false;
+    }
+  }, []);
+
+  // Go back from a detached window to the newest messages
+  const jumpToLatest = useCallback(async () => {
+    const requestedChatId = chatIdRef.current;
+    try {
+      const page = await fetchLatestMessages(requestedChatId);
+      if (chatIdRef.current !== requestedChatId) return;
+      detachedRef.current = false;
+      setMessages(page);
+      setHasMore(page.length === MESSAGE_PAGE_SIZE);
+      setHasNewer(false);
+    } catch (error) {
+      console.error('Error loading latest messages:', error);
+    }
+  }, []);
+
+  return {
+    messages,
+    setMessages,
+    loading,
+    loadingOlder,
+    loadingNewer,
+    hasMore,
+    hasNewer,
+    error,
+    loadOlder,
+    loadNewer,
+    jumpToMessage,
+    jumpToLatest,
+  };
+};
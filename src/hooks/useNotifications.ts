@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+import toast from 'react-hot-toast';
+import { supabase } from '../lib/supabase';
+import { fetchMessageById, getMessagePreview } from '../lib/messages';
+import {
+  ChatNotification,
+  dismissNotifications,
+  requestNotificationPermission,
+  showSystemNotification,
+} from '../lib/notifications';
+
+// Surfaces notifications for the signed-in user. While the app is in the
+// background every notification becomes a system notification; in the
+// foreground only mentions outside the open chat get a toast, since the
+// sidebar already badges other new messages.
+export const useNotifications = (
+  userId: string | undefined,
+  activeChatId: string | null,
+  onOpenMessage: (chatId: string, messageId: string) => void
+) => {
+  const activeChatIdRef = useRef(activeChatId);
+  const onOpenMessageRef = useRef(onOpenMessage);
+
+  useEffect(() => {
+    activeChatIdRef.current = activeChatId;
+    onOpenMessageRef.current = onOpenMessage;
+  }, [activeChatId, onOpenMessage]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    requestNotificationPermission();
+    dismissNotifications(userId).catch((error) =>
+      console.error('Error clearing notifications:', error)
+    );
+
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${userId}`,
+        },
+        async (payload) => {
+          const notification = payload.new as ChatNotification;
+          dismissNotifications(userId, notification.id).catch((error) =>
+            console.error('Error dismissing notification:', error)
+          );
+
+          const inBackground = document.visibilityState === 'hidden';
+          if (!inBackground && (notification.kind !== 'mention' || notification.chat_id === activeChatIdRef.current)) {
+            return;
+          }
+
+          try {
+            const message = await fetchMessageById(notification.message_id);
+            const title = notification.kind === 'mention'
+              ? `${message.sender.name} mentioned you`
+              : message.sender.name;
+            const body = getMessagePreview(message);
+
+            if (inBackground) {
+              showSystemNotification(title, body, notification.message_id, () =>
+                onOpenMessageRef.current(notification.chat_id, notification.message_id)
+              );
+            } else {
+              toast(`${title}: ${body}`, { icon: '@' });
+            }
+          } catch (error) {
+            console.error('Error showing notification:', error);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+};
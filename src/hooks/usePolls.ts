@@ -0,0 +1,132 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Poll, PollOption, PollRow, closePoll, fetchPolls, votePoll } from '../lib/polls';
+import { Message } from '../types/chat';
+
+// Apply the user's new choice to the tallies until the server's arrive
+const withVotes = (poll: Poll, optionIds: string[]): Poll => ({
+  ...poll,
+  my_votes: optionIds,
+  voter_count: poll.voter_count + (optionIds.length > 0 ? 1 : 0) - (poll.my_votes.length > 0 ? 1 : 0),
+  options: poll.options.map((option) => ({
+    ...option,
+    vote_count:
+      option.vote_count + (optionIds.includes(option.id) ? 1 : 0) - (poll.my_votes.includes(option.id) ? 1 : 0),
+  })),
+});
+
+// Polls for the loaded messages of a chat, keyed by message id. Tallies and
+// closing are kept up to date in realtime.
+export const usePolls = (chatId: string, messages: Message[], userId?: string) => {
+  const [polls, setPolls] = useState<Record<string, Poll>>({});
+  const pollsRef = useRef(polls);
+  const requestedRef = useRef<Set<string>>(new Set());
+  const chatIdRef = useRef(chatId);
+
+  useEffect(() => {
+    pollsRef.current = polls;
+  }, [polls]);
+
+  const updatePoll = (pollId: string, update: (poll: Poll) => Poll) =>
+    setPolls((prev) => {
+      const poll = Object.values(prev).find((p) => p.id === pollId);
+      return poll ? { ...prev, [poll.message_id]: update(poll) } : prev;
+    });
+
+  useEffect(() => {
+    let mounted = true;
+    chatIdRef.current = chatId;
+    setPolls({});
+    requestedRef.current = new Set();
+
+    const channel = supabase
+      .channel(`polls:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'polls',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          const row = payload.new as PollRow;
+          if (mounted) updatePoll(row.id, (poll) => ({ ...poll, ...row }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'poll_options',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          const row = payload.new as PollOption;
+          if (!mounted) return;
+          updatePoll(row.poll_id, (poll) => ({
+            ...poll,
+            options: poll.options.map((option) => (option.id === row.id ? row : option)),
+          }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId]);
+
+  // Fetch polls for poll messages as they are paged in
+  useEffect(() => {
+    if (!userId) return;
+    const missing = messages
+      .filter((message) => message.type === 'poll' && !message.status && !requestedRef.current.has(message.id))
+      .map((message) => message.id);
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRef.current.add(id));
+
+    const requestedChatId = chatId;
+    fetchPolls(missing, userId)
+      .then((data) => {
+        if (chatIdRef.current !== requestedChatId || data.length === 0) return;
+        setPolls((prev) => {
+          const next = { ...prev };
+          data.forEach((poll) => {
+            next[poll.message_id] = poll;
+          });
+          return next;
+        });
+      })
+      .catch((error) => {
+        console.error('Error fetching polls:', error);
+        missing.forEach((id) => requestedRef.current.delete(id));
+      });
+  }, [chatId, messages, userId]);
+
+  const vote = useCallback(async (messageId: string, optionIds: string[]) => {
+    const previous = pollsRef.current[messageId];
+    if (!previous) return;
+    setPolls((prev) => ({ ...prev, [messageId]: withVotes(previous, optionIds) }));
+    try {
+      await votePoll(previous.id, optionIds);
+    } catch (error) {
+      setPolls((prev) => ({ ...prev, [messageId]: previous }));
+      throw error;
+    }
+  }, []);
+
+  const close = useCallback(async (messageId: string) => {
+    const poll = pollsRef.current[messageId];
+    if (!poll) return;
+    await closePoll(poll.id);
+    setPolls((prev) => ({
+      ...prev,
+      [messageId]: { ...prev[messageId], closed_at: prev[messageId].closed_at ?? new Date().toISOString() },
+    }));
+  }, []);
+
+  return { polls, vote, close };
+};
@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { Reaction, addReaction, fetchReactions, removeReaction } from '../lib/reactions';
+import { Message } from '../types/chat';
+
+const isSameReaction = (a: Reaction, b: Pick<Reaction, 'message_id' | 'user_id' | 'emoji'>) =>
+  a.message_id === b.message_id && a.user_id === b.user_id && a.emoji === b.emoji;
+
+// Add a reaction unless the same user already reacted with the same emoji
+// (the realtime echo of our own insert can arrive before the insert returns)
+const withReaction = (reactions: Reaction[], reaction: Reaction) => [
+  ...reactions.filter((existing) => !isSameReaction(existing, reaction)),
+  reaction,
+];
+
+// Reactions for the loaded messages of a chat, kept up to date in realtime
+export const useReactions = (chatId: string, messages: Message[], userId?: string) => {
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const requestedRef = useRef<Set<string>>(new Set());
+  const chatIdRef = useRef(chatId);
+
+  useEffect(() => {
+    let mounted = true;
+    chatIdRef.current = chatId;
+    setReactions([]);
+    requestedRef.current = new Set();
+
+    const channel = supabase
+      .channel(`reactions:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (mounted) setReactions((prev) => withReaction(prev, payload.new as Reaction));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // DELETE events can't be filtered server-side, and with RLS they
+          // only carry the id; ids that aren't loaded here are ignored
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          const removedId = (payload.old as Pick<Reaction, 'id'>).id;
+          if (mounted) setReactions((prev) => prev.filter((reaction) => reaction.id !== removedId));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId]);
+
+  // Fetch reactions for messages as they are paged in
+  useEffect(() => {
+    const missing = messages
+      .map((message) => message.id)
+      .filter((id) => !requestedRef.current.has(id));
+    if (missing.length === 0) return;
+    missing.forEach((id) => requestedRef.current.add(id));
+
+    const requestedChatId = chatId;
+    fetchReactions(missing)
+      .then((data) => {
+        if (chatIdRef.current !== requestedChatId || data.length === 0) return;
+        setReactions((prev) => data.reduce(withReaction, prev));
+      })
+      .catch((error) => {
+        console.error('Error fetching reactions:', error);
+        missing.forEach((id) => requestedRef.current.delete(id));
+      });
+  }, [chatId, messages]);
+
+  const toggleReaction = useCallback(async (messageId: string, emoji: string) => {
+    if (!userId) return;
+    const key = { message_id: messageId, user_id: userId, emoji };
+    const existing = reactions.find((reaction) => isSameReaction(reaction, key));
+
+    if (existing) {
+      setReactions((prev) => prev.filter((reaction) => !isSameReaction(reaction, key)));
+      try {
+        await removeReaction(messageId, userId, emoji);
+      } catch (error) {
+        setReactions((prev) => withReaction(prev, existing));
+        throw error;
+      }
+      return;
+    }
+
+    const optimistic: Reaction = {
+      ...key,
+      id: `pending-${messageId}-${emoji}`,
+      chat_id: chatId,
+      created_at: new Date().toISOString(),
+    };
+    setReactions((prev) => withReaction(prev, optimistic));
+    try {
+      const saved = await addReaction({ ...key, chat_id: chatId });
+      setReactions((prev) => withReaction(prev, saved));
+    } catch (error) {
+      setReactions((prev) => prev.filter((reaction) => reaction.id !== optimistic.id));
+      throw error;
+    }
+  }, [chatId, userId, reactions]);
+
+  return { reactions, toggleReaction };
+};
@@ -0,0 +1,96 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { supabase } from '../lib/supabase';
+import { compareMessages } from '../lib/messages';
+import { Message } from '../types/chat';
+
+// Batch read-position updates instead of sending one per message scrolled past
+const READ_DEBOUNCE = 1000;
+
+// Advances the current user's read position as messages scroll into view
+export const useReadPosition = (
+  chatId: string,
+  messages: Message[],
+  listRef: RefObject<HTMLElement>
+) => {
+  const lastReadRef = useRef<Message | null>(null);
+  const scheduleReadRef = useRef<(message: Message) => void>(() => {});
+
+  useEffect(() => {
+    let pending: Message | null = null;
+    let flushTimeout: NodeJS.Timeout | undefined;
+    lastReadRef.current = null;
+
+    const flush = async () => {
+      const message = pending;
+      pending = null;
+      if (!message) return;
+
+      try {
+        const { error } = await supabase.rpc('mark_chat_read', {
+          p_chat_id: chatId,
+          p_message_id: message.id,
+        });
+
+        if (error) throw error;
+      } catch (error) {
+        console.error('Error updating read position:', error);
+      }
+    };
+
+    scheduleReadRef.current = (message: Message) => {
+      pending = message;
+      if (flushTimeout) clearTimeout(flushTimeout);
+      flushTimeout = setTimeout(flush, READ_DEBOUNCE);
+    };
+
+    return () => {
+      scheduleReadRef.current = () => {};
+      if (flushTimeout) clearTimeout(flushTimeout);
+      flush();
+    };
+  }, [chatId]);
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list) return;
+
+    const byId = new Map(messages.map((message) => [message.id, message]));
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (document.visibilityState !== 'visible') return;
+        const visible = entries
+          .filter((entry) => entry.isIntersecting)
+          .map((entry) => byId.get((entry.target as HTMLElement).dataset.messageId ?? ''))
+          .filter((message): message is Message => !!message)
+          .sort(compareMessages);
+        const newest = visible[visible.length - 1];
+        const lastRead = lastReadRef.current;
+        // The first message seen after opening a chat is always sent so that
+        // opening it clears a manual "mark as unread"
+        if (!newest || (lastRead && compareMessages(newest, lastRead) <= 0)) return;
+        lastReadRef.current = newest;
+        scheduleReadRef.current(newest);
+      },
+      { root: list, threshold: 0.6 }
+    );
+
+    const observeAll = () => {
+      observer.disconnect();
+      list.querySelectorAll('[data-message-id]').forEach((el) => observer.observe(el));
+    };
+
+    // Messages left on screen while the tab was hidden count once it is visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') observeAll();
+    };
+
+    observeAll();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      observer.disconnect();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [chatId, messages, listRef]);
+};
@@ -0,0 +1,65 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '../lib/supabase';
+import { ReceiptPosition } from '../lib/receipts';
+
+// Keeps every member's delivery and read cursors for a chat up to date
+export const useReceipts = (chatId: string) => {
+  const [positions, setPositions] = useState<ReceiptPosition[]>([]);
+
+  useEffect(() => {
+    let mounted = true;
+    setPositions([]);
+
+    const fetchPositions = async () => {
+      try {
+        const { data, error } = await supabase
+          .from('chat_members')
+          .select('user_id, last_read_message_at, last_delivered_message_at')
+          .eq('chat_id', chatId);
+
+        if (error) throw error;
+
+        if (mounted && data) {
+          setPositions(data as ReceiptPosition[]);
+        }
+      } catch (error) {
+        console.error('Error fetching read receipts:', error);
+      }
+    };
+
+    fetchPositions();
+
+    const channel = supabase
+      .channel(`receipts:${chatId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'chat_members',
+          filter: `chat_id=eq.${chatId}`,
+        },
+        (payload) => {
+          if (!mounted) return;
+          const updated: ReceiptPosition = {
+            user_id: payload.new.user_id,
+            last_read_message_at: payload.new.last_read_message_at,
+            last_delivered_message_at: payload.new.last_delivered_message_at,
+          };
+          setPositions((prev) =>
+            prev.some((position) => position.user_id === updated.user_id)
+              ? prev.map((position) => (position.user_id === updated.user_id ? updated : position))
+              : [...prev, updated]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      mounted = false;
+      supabase.removeChannel(channel);
+    };
+  }, [chatId]);
+
+  return positions;
+};
@@ -0,0 +1,76 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  ScheduledMessage,
+  cancelScheduledMessage,
+  fetchScheduledMessages,
+  scheduleMessage,
+  updateScheduledMessage,
+} from '../lib/scheduled';
+
+// How long after a message is due to check whether the job has posted it
+const SENT_CHECK_DELAY = 15000;
+
+const bySendAt = (a: ScheduledMessage, b: ScheduledMessage) =>
+  new Date(a.send_at).getTime() - new Date(b.send_at).getTime();
+
+// The current user's pending scheduled messages in a chat. Actions update the
+// list once the server accepts them and throw on failure.
+export const useScheduledMessages = (chatId: string, userId?: string) => {
+  const [scheduled, setScheduled] = useState<ScheduledMessage[]>([]);
+  const chatIdRef = useRef(chatId);
+
+  const refresh = useCallback(async () => {
+    const requestedChatId = chatIdRef.current;
+    try {
+      const data = await fetchScheduledMessages(requestedChatId);
+      if (chatIdRef.current === requestedChatId) setScheduled(data);
+    } catch (error) {
+      console.error('Error fetching scheduled messages:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    chatIdRef.current = chatId;
+    setScheduled([]);
+    if (userId) refresh();
+  }, [chatId, userId, refresh]);
+
+  // Drop messages from the list once the job has posted them
+  useEffect(() => {
+    const next = scheduled[0];
+    if (!next) return;
+    const delay = Math.max(new Date(next.send_at).getTime() - Date.now(), 0) + SENT_CHECK_DELAY;
+    const timeout = setTimeout(refresh, delay);
+    return () => clearTimeout(timeout);
+  }, [scheduled, refresh]);
+
+  const schedule = useCallback(async (content: string, mentions: string[], sendAt: Date) => {
+    if (!userId) return;
+    const message = await scheduleMessage({
+      chat_id: chatId,
+      sender_id: userId,
+      content,
+      mentions,
+      send_at: sendAt.toISOString(),
+    });
+    if (chatIdRef.current === message.chat_id) {
+      setScheduled((prev) => [...prev, message].sort(bySendAt));
+    }
+  }, [chatId, userId]);
+
+  const update = useCallback(async (id: string, content: string, mentions: string[], sendAt: Date) => {
+    const message = await updateScheduledMessage(id, {
+      content,
+      mentions,
+      send_at: sendAt.toISOString(),
+    });
+    setScheduled((prev) => prev.map((item) => (item.id === id ? message : item)).sort(bySendAt));
+  }, []);
+
+  const cancel = useCallback(async (id: string) => {
+    await cancelScheduledMessage(id);
+    setScheduled((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  return { scheduled, schedule, update, cancel };
+};
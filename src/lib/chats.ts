@@ -0,0 +1,19 @@
+import { supabase } from './supabase';
+
+// Group admins only. A trigger posts a notice in the chat when it changes;
+// an empty topic clears it.
+export async function setChatTopic(chatId: string, topic: string) {
+  const { error } = await supabase.rpc('set_chat_topic', {
+    p_chat_id: chatId,
+    p_topic: topic.trim(),
+  });
+
+  if (error) throw error;
+}
+
+// Groups only. If the user was the last admin, another member takes over.
+export async function leaveChat(chatId: string) {
+  const { error } = await supabase.rpc('leave_chat', { p_chat_id: chatId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,176 @@
+import { MAX_POLL_OPTIONS } from './polls';
+import { MIN_SCHEDULE_DELAY_MS } from './scheduled';
+
+// What a command can do in the chat it was typed in. ChatWindow provides the
+// implementations, so commands never touch component state themselves.
+export interface CommandContext {
+  chatType: 'direct' | 'group' | undefined;
+  isAdmin: boolean;
+  muted: boolean;
+  sendText: (content: string) => void;
+  sendAction: (content: string) => void;
+  openPollComposer: () => void;
+  createPoll: (question: string, options: string[]) => Promise<void>;
+  schedule: (content: string, sendAt: Date) => Promise<void>;
+  setMuted: (muted: boolean) => Promise<void>;
+  setTopic: (topic: string) => Promise<void>;
+  leave: () => Promise<void>;
+}
+
+export interface SlashCommand {
+  name: string;
+  // Argument hint shown in the autocomplete, e.g. "<action>"
+  args?: string;
+  description: string;
+  // Commands that don't apply to the chat aren't offered or run
+  available?: (context: CommandContext) => boolean;
+  run: (args: string, context: CommandContext) => void | Promise<void>;
+}
+
+// Thrown by commands for bad input; the message is shown to the user as is
+export class CommandError extends Error {}
+
+// Keep in sync with set_chat_topic
+export const MAX_TOPIC_LENGTH = 160;
+
+const SHRUG = '¯\\\\\\_(ツ)_/¯';
+
+const isGroup = (context: CommandContext) => context.chatType === 'group';
+
+// "10m", "2h", "1d", "1h30m" from now, or a clock time such as "17:30" (the
+// next time it comes round)
+export function parseReminderTime(value: string, now = new Date()) {
+  const clock = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    const [hours, minutes] = [Number(clock[1]), Number(clock[2])];
+    if (hours > 23 || minutes > 59) return null;
+    const time = new Date(now);
+    time.setHours(hours, minutes, 0, 0);
+    if (time <= now) time.setDate(time.getDate() + 1);
+    return time;
+  }
+
+  const units: Record<string, number> = { m: 60 * 1000, h: 60 * 60 * 1000, d: 24 * 60 * 60 * 1000 };
+  const parts = Array.from(value.toLowerCase().matchAll(/(\d+)([mhd])/g));
+  if (parts.length === 0 || parts.map((part) => part[0]).join('') !== value.toLowerCase()) return null;
+  const delay = parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+  return new Date(now.getTime() + delay);
+}
+
+// Every command the composer understands. Add new ones here.
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: 'me',
+    args: '<action>',
+    description: 'Describe what you are doing, e.g. /me waves',
+    run: (args, context) => {
+      if (!args) throw new CommandError('Usage: /me <action>');
+      context.sendAction(args);
+    },
+  },
+  {
+    name: 'shrug',
+    args: '[message]',
+    description: 'Append ¯\\_(ツ)_/¯ to your message',
+    run: (args, context) => context.sendText(args ? `${args} ${SHRUG}` : SHRUG),
+  },
+  {
+    name: 'poll',
+    args: '[question | option | option…]',
+    description: 'Create a poll',
+    available: isGroup,
+    run: async (args, context) => {
+      if (!args) {
+        context.openPollComposer();
+        return;
+      }
+      const [question, ...options] = args.split('|').map((part) => part.trim());
+      const choices = options.filter(Boolean);
+      if (!question || choices.length < 2) {
+        throw new CommandError('Usage: /poll question | option | option…');
+      }
+      if (choices.length > MAX_POLL_OPTIONS) {
+        throw new CommandError(`Polls can have at most ${MAX_POLL_OPTIONS} options`);
+      }
+      await context.createPoll(question, choices);
+    },
+  },
+  {
+    name: 'remind',
+    args: '<10m | 2h | 1d | 17:30> <message>',
+    description: 'Post a reminder in this chat later',
+    run: async (args, context) => {
+      const [when = '', ...rest] = args.split(/\s+/);
+      const text = rest.join(' ').trim();
+      const sendAt = parseReminderTime(when);
+      if (!sendAt || !text) throw new CommandError('Usage: /remind <10m | 2h | 1d | 17:30> <message>');
+      if (sendAt.getTime() - Date.now() < MIN_SCHEDULE_DELAY_MS) {
+        throw new CommandError('Reminders must be at least a minute away');
+      }
+      await context.schedule(`⏰ Reminder: ${text}`, sendAt);
+    },
+  },
+  {
+    name: 'mute',
+    description: 'Mute or unmute notifications for this chat',
+    run: (_args, context) => context.setMuted(!context.muted),
+  },
+  {
+    name: 'topic',
+    args: '<topic>',
+    description: 'Set the group topic, or clear it when left empty',
+    available: (context) => isGroup(context) && context.isAdmin,
+    run: (args, context) => {
+      if (args.length > MAX_TOPIC_LENGTH) {
+        throw new CommandError(`Topics can be at most ${MAX_TOPIC_LENGTH} characters`);
+      }
+      return context.setTopic(args);
+    },
+  },
+  {
+    name: 'leave',
+    description: 'Leave this group',
+    available: isGroup,
+    run: (_args, context) => context.leave(),
+  },
+];
+
+export function isCommandAvailable(command: SlashCommand, context: CommandContext) {
+  return !command.available || command.available(context);
+}
+
+// The command name being typed, while the text is still just "/name"
+export function getCommandQuery(text: string) {
+  const match = text.match(/^\/(\w*)$/);
+  return match ? match[1].toLowerCase() : null;
+}
+
+export function filterCommands(query: string, context: CommandContext) {
+  return SLASH_COMMANDS.filter((command) => command.name.startsWith(query) && isCommandAvailable(command, context));
+}
+
+// Splits "/name args" into the command and its arguments. Text starting with
+// "//" is sent as is, minus one slash, and unknown commands are left alone
+// so messages like "/r/reactjs" still go through.
+export function parseCommand(text: string) {
+  const match = text.match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+  const command = SLASH_COMMANDS.find((candidate) => candidate.name === match[1].toLowerCase());
+  return command ? { command, args: (match[2] ?? '').trim() } : null;
+}
+
+export function unescapeCommand(text: string) {
+  return text.startsWith('//') ? text.slice(1) : text;
+}
+
+// Runs text typed in the composer if it is a command. Returns false for
+// ordinary messages, which the caller sends as usual.
+export async function runCommand(text: string, context: CommandContext) {
+  const parsed = parseCommand(text);
+  if (!parsed) return false;
+  if (!isCommandAvailable(parsed.command, context)) {
+    throw new CommandError(`/${parsed.command.name} isn't available in this chat`);
+  }
+  await parsed.command.run(parsed.args, context);
+  return true;
+}
@@ -0,0 +1,62 @@
+import { supabase } from './supabase';
+
+// Timer values allowed by the chats.message_ttl check, in seconds. null is off.
+export const MESSAGE_TTL_OPTIONS: { value: number | null; label: string }[] = [
+  { value: null, label: 'Off' },
+  { value: 24 * 60 * 60, label: '24 hours' },
+  { value: 7 * 24 * 60 * 60, label: '7 days' },
+  { value: 90 * 24 * 60 * 60, label: '90 days' },
+];
+
+// Content of a 'system' message, posted by database triggers and functions
+export type SystemNotice =
+  | { event: 'message_ttl'; ttl: number | null }
+  | { event: 'topic'; topic: string | null }
+  | { event: 'member_left' };
+
+export function formatMessageTtl(ttl: number | null) {
+  return MESSAGE_TTL_OPTIONS.find((option) => option.value === ttl)?.label ?? 'Off';
+}
+
+export function parseSystemNotice(content: string): SystemNotice | null {
+  try {
+    const notice = JSON.parse(content);
+    if (notice?.event === 'message_ttl') return { event: 'message_ttl', ttl: notice.ttl ?? null };
+    if (notice?.event === 'topic') return { event: 'topic', topic: notice.topic || null };
+    if (notice?.event === 'member_left') return { event: 'member_left' };
+  } catch {
+    // Not a notice this client knows about
+  }
+  return null;
+}
+
+// With an actor ("You", a member's name) for the notice in the chat, without
+// one for short previews such as the chat list
+export function describeSystemNotice(content: string, actor?: string) {
+  const notice = parseSystemNotice(content);
+  if (!notice) return actor ? `${actor} updated the chat` : 'Chat updated';
+  if (notice.event === 'topic') {
+    if (!notice.topic) return actor ? `${actor} removed the topic` : 'Topic removed';
+    return actor ? `${actor} changed the topic to "${notice.topic}"` : `Topic: ${notice.topic}`;
+  }
+  if (notice.event === 'member_left') return actor ? `${actor} left the group` : 'A member left the group';
+  if (!actor) {
+    return notice.ttl
+      ? `Disappearing messages set to ${formatMessageTtl(notice.ttl)}`
+      : 'Disappearing messages turned off';
+  }
+  return notice.ttl
+    ? `${actor} set disappearing messages to ${formatMessageTtl(notice.ttl)}`
+    : `${actor} turned off disappearing messages`;
+}
+
+// Group admins, or either member of a direct chat. A trigger posts a notice
+// in the chat whenever the timer changes.
+export async function setMessageTtl(chatId: string, ttl: number | null) {
+  const { error } = await supabase.rpc('set_message_ttl', {
+    p_chat_id: chatId,
+    p_ttl: ttl ?? 0,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,85 @@
+import { supabase } from './supabase';
+
+// Unsent composer text for a chat. Cleared drafts keep an empty content and
+// the time they were cleared, so merging with another device's copy can
+// tell a newer clear from an older draft.
+export interface Draft {
+  content: string;
+  updated_at: string;
+}
+
+export type DraftMap = Record<string, Draft>;
+
+const storageKey = (userId: string) => `chat-drafts:${userId}`;
+const SYNC_STORAGE_KEY = 'chat-drafts-sync';
+
+export function loadLocalDrafts(userId: string): DraftMap {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(userId)) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function saveLocalDrafts(userId: string, drafts: DraftMap) {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(drafts));
+  } catch (error) {
+    console.error('Error saving drafts:', error);
+  }
+}
+
+// Syncing is on unless the user turned it off on this device
+export function isDraftSyncEnabled() {
+  return localStorage.getItem(SYNC_STORAGE_KEY) !== 'off';
+}
+
+export function setDraftSyncEnabled(enabled: boolean) {
+  localStorage.setItem(SYNC_STORAGE_KEY, enabled ? 'on' : 'off');
+}
+
+// Per chat, whichever copy changed last wins
+export function mergeDrafts(local: DraftMap, remote: DraftMap): DraftMap {
+  const merged = { ...local };
+  for (const [chatId, draft] of Object.entries(remote)) {
+    const current = merged[chatId];
+    if (!current || new Date(draft.updated_at) > new Date(current.updated_at)) {
+      merged[chatId] = draft;
+    }
+  }
+  return merged;
+}
+
+export async function fetchServerDrafts() {
+  const { data, error } = await supabase
+    .from('message_drafts')
+    .select('chat_id, content, updated_at');
+
+  if (error) throw error;
+
+  const drafts: DraftMap = {};
+  for (const row of data || []) {
+    drafts[row.chat_id] = { content: row.content, updated_at: row.updated_at };
+  }
+  return drafts;
+}
+
+export async function saveServerDraft(userId: string, chatId: string, draft: Draft) {
+  const { error } = await supabase
+    .from('message_drafts')
+    .upsert(
+      [{ user_id: userId, chat_id: chatId, content: draft.content, updated_at: draft.updated_at }],
+      { onConflict: 'user_id,chat_id' }
+    );
+
+  if (error) throw error;
+}
+
+export async function clearServerDrafts(userId: string) {
+  const { error } = await supabase
+    .from('message_drafts')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,155 @@
+import { supabase } from './supabase';
+import { Message } from '../types/chat';
+
+// Forwarded copies passed on at least this often are labelled as such
+export const FORWARDED_MANY_TIMES = 5;
+
+// Keep in sync with forward_messages
+export const MAX_FORWARD_TARGETS = 20;
+
+const RECENT_CHATS_LIMIT = 30;
+
+// A chat to forward into, or a friend without a direct chat yet
+export interface ForwardTarget {
+  key: string;
+  chatId: string | null;
+  friendId: string | null;
+  name: string;
+  subtitle: string;
+  avatar_url: string | null;
+  isGroup: boolean;
+}
+
+interface TargetProfile {
+  id: string;
+  full_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+interface TargetChatRow {
+  id: string;
+  name: string | null;
+  type: 'direct' | 'group';
+  chat_members: { user_id: string; profiles: TargetProfile | null }[];
+}
+
+interface FriendshipRow {
+  user1_id: string;
+  user2_id: string;
+  user1: TargetProfile | null;
+  user2: TargetProfile | null;
+}
+
+// Polls and system notices belong to the chat they were posted in
+const FORWARDABLE_TYPES: Message['type'][] = ['text', 'image', 'video', 'file'];
+
+export function canForwardMessage(message: Message) {
+  return !message.deleted_at && !message.status && FORWARDABLE_TYPES.includes(message.type || 'text');
+}
+
+// Recent chats, most recently active first, followed by friends the user
+// hasn't chatted with yet
+export async function fetchForwardTargets(userId: string): Promise<ForwardTarget[]> {
+  const [chatsResult, friendsResult] = await Promise.all([
+    supabase
+      .from('chats')
+      .select(`
+        id,
+        name,
+        type,
+        chat_members!inner (
+          user_id,
+          profiles (id, full_name, username, avatar_url)
+        )
+      `)
+      .order('updated_at', { ascending: false })
+      .limit(RECENT_CHATS_LIMIT),
+    supabase
+      .from('friendships')
+      .select(`
+        user1_id,
+        user2_id,
+        user1:profiles!friendships_user1_id_fkey (id, full_name, username, avatar_url),
+        user2:profiles!friendships_user2_id_fkey (id, full_name, username, avatar_url)
+      `)
+      .or(`user1_id.eq.${userId},user2_id.eq.${userId}`),
+  ]);
+
+  if (chatsResult.error) throw chatsResult.error;
+  if (friendsResult.error) throw friendsResult.error;
+
+  const directChatUsers = new Set<string>();
+  const chats = ((chatsResult.data || []) as unknown as TargetChatRow[]).map((chat): ForwardTarget => {
+    const members = chat.chat_members;
+    if (chat.type === 'group') {
+      return {
+        key: chat.id,
+        chatId: chat.id,
+        friendId: null,
+        name: chat.name || 'Group',
+        subtitle: `${members.length} members`,
+        avatar_url: null,
+        isGroup: true,
+      };
+    }
+    const other = members.find((member) => member.user_id !== userId)?.profiles;
+    if (other) directChatUsers.add(other.id);
+    return {
+      key: chat.id,
+      chatId: chat.id,
+      friendId: null,
+      name: other?.full_name || 'Unknown User',
+      subtitle: other ? `@${other.username}` : '',
+      avatar_url: other?.avatar_url ?? null,
+      isGroup: false,
+    };
+  });
+
+  const friends = ((friendsResult.data || []) as unknown as FriendshipRow[]).flatMap((friendship): ForwardTarget[] => {
+    const friend = friendship.user1_id === userId ? friendship.user2 : friendship.user1;
+    if (!friend || directChatUsers.has(friend.id)) return [];
+    return [{
+      key: `friend:${friend.id}`,
+      chatId: null,
+      friendId: friend.id,
+      name: friend.full_name,
+      subtitle: `@${friend.username}`,
+      avatar_url: friend.avatar_url,
+      isGroup: false,
+    }];
+  });
+
+  return [...chats, ...friends];
+}
+
+// Forwards the messages, in the order they were sent, into every target and
+// returns the ids of the chats they were forwarded to
+export async function forwardMessages(
+  userId: string,
+  messages: Message[],
+  targets: ForwardTarget[],
+  comment: string
+) {
+  const chatIds = await Promise.all(
+    targets.map(async (target) => {
+      if (target.chatId) return target.chatId;
+      const { data, error } = await supabase.rpc('create_direct_chat', {
+        p_user1_id: userId,
+        p_user2_id: target.friendId,
+      });
+      if (error) throw error;
+      return data as string;
+    })
+  );
+
+  const { error } = await supabase.rpc('forward_messages', {
+    p_message_ids: messages.map((message) => message.id),
+    p_chat_ids: chatIds,
+    p_comment: comment.trim() || null,
+  });
+
+  if (error) throw error;
+
+  return chatIds;
+}
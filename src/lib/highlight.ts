@@ -0,0 +1,155 @@
+// Lightweight syntax highlighting for code blocks in messages. It only
+// tells keywords, strings, comments and numbers apart, which is enough to
+// make shared snippets readable without shipping a full grammar library.
+
+export type CodeTokenType = 'keyword' | 'string' | 'comment' | 'number' | 'plain';
+
+export interface CodeToken {
+  type: CodeTokenType;
+  text: string;
+}
+
+interface Grammar {
+  keywords: Set<string>;
+  lineComment?: string;
+  blockComment?: [string, string];
+  caseInsensitive?: boolean;
+}
+
+const words = (list: string) => new Set(list.split(' '));
+
+const C_LIKE = {
+  lineComment: '//',
+  blockComment: ['/*', '*/'] as [string, string],
+};
+
+const GRAMMARS: Record<string, Grammar> = {
+  js: {
+    ...C_LIKE,
+    keywords: words(
+      'async await break case catch class const continue default delete do else export extends false finally for from function if import in instanceof interface let new null of return static super switch this throw true try type typeof undefined var void while yield'
+    ),
+  },
+  python: {
+    lineComment: '#',
+    keywords: words(
+      'and as assert async await break class continue def del elif else except False finally for from global if import in is lambda None nonlocal not or pass raise return self True try while with yield'
+    ),
+  },
+  sql: {
+    lineComment: '--',
+    blockComment: ['/*', '*/'],
+    caseInsensitive: true,
+    keywords: words(
+      'add all alter and as asc begin between by case create delete desc distinct drop else end exists false from function group having in index inner insert into is join left limit not null on or order primary references returns right select set table then true union update values view when where with'
+    ),
+  },
+  shell: {
+    lineComment: '#',
+    keywords: words('case do done echo elif else esac export fi for function if in local return then until while'),
+  },
+  c: {
+    ...C_LIKE,
+    keywords: words(
+      'auto bool break case catch char class const continue default delete do double else enum extern false float fn for func go if impl import int let long match mod mut namespace new nil null package pub return self short signed sizeof static struct switch this throw true try typedef union unsigned use var void while'
+    ),
+  },
+  json: {
+    keywords: words('true false null'),
+  },
+};
+
+const ALIASES: Record<string, string> = {
+  javascript: 'js', jsx: 'js', ts: 'js', typescript: 'js', tsx: 'js',
+  py: 'python',
+  postgres: 'sql', postgresql: 'sql', psql: 'sql',
+  sh: 'shell', bash: 'shell', zsh: 'shell',
+  cpp: 'c', 'c++': 'c', cs: 'c', csharp: 'c', java: 'c', go: 'c', rust: 'c', rs: 'c', kotlin: 'c', swift: 'c',
+};
+
+// Unknown or missing languages still get strings, numbers and C-style comments
+const FALLBACK: Grammar = { ...C_LIKE, keywords: new Set() };
+
+export function getGrammar(lang: string) {
+  return GRAMMARS[ALIASES[lang] ?? lang] ?? FALLBACK;
+}
+
+const IDENTIFIER = /[A-Za-z_$][\w$]*/y;
+const NUMBER = /(?:0x[\da-fA-F]+|\d+(?:\.\d+)?(?:e[+-]?\d+)?)/y;
+
+export function tokenizeCode(code: string, lang: string): CodeToken[] {
+  const grammar = getGrammar(lang);
+  const tokens: CodeToken[] = [];
+  let plain = '';
+  let i = 0;
+
+  const push = (type: CodeTokenType, text: string) => {
+    if (plain) tokens.push({ type: 'plain', text: plain });
+    plain = '';
+    tokens.push({ type, text });
+  };
+
+  const readUntil = (end: string, from: number) => {
+    const index = code.indexOf(end, from);
+    return index === -1 ? code.length : index + end.length;
+  };
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (grammar.lineComment && code.startsWith(grammar.lineComment, i)) {
+      const newline = code.indexOf('\n', i);
+      const end = newline === -1 ? code.length : newline;
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (grammar.blockComment && code.startsWith(grammar.blockComment[0], i)) {
+      const end = readUntil(grammar.blockComment[1], i + grammar.blockComment[0].length);
+      push('comment', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      let end = i + 1;
+      while (end < code.length && code[end] !== char && code[end] !== '\n') {
+        end += code[end] === '\\' ? 2 : 1;
+      }
+      end = Math.min(end + 1, code.length);
+      push('string', code.slice(i, end));
+      i = end;
+      continue;
+    }
+
+    if (/\d/.test(char) && !/[\w$]/.test(code[i - 1] ?? '')) {
+      NUMBER.lastIndex = i;
+      const match = NUMBER.exec(code);
+      if (match) {
+        push('number', match[0]);
+        i += match[0].length;
+        continue;
+      }
+    }
+
+    if (/[A-Za-z_$]/.test(char)) {
+      IDENTIFIER.lastIndex = i;
+      const word = IDENTIFIER.exec(code)![0];
+      const key = grammar.caseInsensitive ? word.toLowerCase() : word;
+      if (grammar.keywords.has(key)) {
+        push('keyword', word);
+      } else {
+        plain += word;
+      }
+      i += word.length;
+      continue;
+    }
+
+    plain += char;
+    i += 1;
+  }
+
+  if (plain) tokens.push({ type: 'plain', text: plain });
+  return tokens;
+}
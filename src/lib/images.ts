@@ -0,0 +1,107 @@
+// Longest side of uploaded images, of their thumbnails and of the tiny
+// placeholder shown while a thumbnail loads
+const MAX_IMAGE_DIMENSION = 2048;
+const THUMBNAIL_DIMENSION = 320;
+const PLACEHOLDER_DIMENSION = 16;
+
+const IMAGE_QUALITY = 0.85;
+const THUMBNAIL_QUALITY = 0.7;
+
+// GIFs would lose their animation and SVGs aren't raster images, so both are
+// uploaded unchanged
+const SKIPPED_TYPES = ['image/gif', 'image/svg+xml'];
+
+// Formats that may have transparency are re-encoded as WebP, everything else
+// as JPEG
+const TRANSPARENT_TYPES = ['image/png', 'image/webp', 'image/avif'];
+
+export interface PreparedImage {
+  file: File;
+  thumbnail: Blob;
+  // Data URL of a few pixels, shown blurred until the thumbnail loads
+  placeholder: string;
+  width: number;
+  height: number;
+}
+
+export function canPrepareImage(mimeType: string) {
+  return mimeType.startsWith('image/') && !SKIPPED_TYPES.includes(mimeType);
+}
+
+function scaleToFit(width: number, height: number, max: number) {
+  const scale = Math.min(1, max / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+function drawScaled(image: ImageBitmap, max: number, background: string | null) {
+  const { width, height } = scaleToFit(image.width, image.height, max);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+  if (background) {
+    context.fillStyle = background;
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+function toBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image'))),
+      type,
+      quality
+    );
+  });
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/png': 'png',
+};
+
+// Resizes and re-encodes an image in the browser. Drawing it through a canvas
+// drops all EXIF metadata, GPS location included; createImageBitmap applies
+// the EXIF orientation first so photos stay upright. Returns null when the
+// browser can't decode the file (e.g. HEIC outside Safari).
+export async function prepareImage(file: File): Promise<PreparedImage | null> {
+  let image: ImageBitmap;
+  try {
+    image = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch {
+    return null;
+  }
+
+  try {
+    const transparent = TRANSPARENT_TYPES.includes(file.type);
+    const type = transparent ? 'image/webp' : 'image/jpeg';
+    const background = transparent ? null : '#ffffff';
+
+    const full = await toBlob(drawScaled(image, MAX_IMAGE_DIMENSION, background), type, IMAGE_QUALITY);
+    const thumbnail = await toBlob(drawScaled(image, THUMBNAIL_DIMENSION, background), type, THUMBNAIL_QUALITY);
+    const placeholder = drawScaled(image, PLACEHOLDER_DIMENSION, '#ffffff').toDataURL('image/jpeg', 0.5);
+
+    // Browsers without WebP encoding fall back to PNG
+    const extension = EXTENSIONS[full.type] || 'jpg';
+    const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+    const { width, height } = scaleToFit(image.width, image.height, MAX_IMAGE_DIMENSION);
+
+    return {
+      file: new File([full], `${baseName}.${extension}`, { type: full.type }),
+      thumbnail,
+      placeholder,
+      width,
+      height,
+    };
+  } finally {
+    image.close();
+  }
+}
@@ -0,0 +1,246 @@
+// Minimal Markdown for chat messages. Content is parsed into a small tree
+// that components render as React elements, so user text is never turned
+// into HTML. Supported: **bold**, *italic*, ~~strikethrough~~, `code`,
+// fenced code blocks, > quotes, - / 1. lists and bare links.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'link'; href: string; text: string }
+  | { type: 'bold' | 'italic' | 'strike'; children: InlineNode[] };
+
+export type BlockNode =
+  | { type: 'paragraph'; children: InlineNode[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'quote'; children: BlockNode[] }
+  | { type: 'list'; ordered: boolean; start: number; items: InlineNode[][] };
+
+// Bare links, with or without a scheme. Only http(s) links are produced.
+const URL_PATTERN = /(?:https?:\/\/|www\.)[\w-]+(?:\.[\w-]+)+(?:[/?#][^\s<>"]*)?/y;
+
+// Punctuation that usually ends a sentence rather than belonging to the link
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+const FENCE = /^\s*```\s*([\w+#-]*)\s*$/;
+const QUOTE = /^\s*> ?(.*)$/;
+const UNORDERED_ITEM = /^\s*[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^\s*(\d{1,9})[.)]\s+(.*)$/;
+
+const WORD_CHAR = /[\p{L}\p{N}_]/u;
+
+export function toHref(url: string) {
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+function matchLink(text: string, index: number) {
+  // Links only start at a word boundary, e.g. not inside "foo.www.bar"
+  if (index > 0 && WORD_CHAR.test(text[index - 1])) return null;
+  URL_PATTERN.lastIndex = index;
+  const match = URL_PATTERN.exec(text);
+  if (!match) return null;
+  return match[0].replace(TRAILING_PUNCTUATION, '');
+}
+
+// Delimiters are tried longest first so ** isn't read as two *
+const EMPHASIS: { marker: string; type: 'bold' | 'italic' | 'strike' }[] = [
+  { marker: '**', type: 'bold' },
+  { marker: '__', type: 'bold' },
+  { marker: '~~', type: 'strike' },
+  { marker: '*', type: 'italic' },
+  { marker: '_', type: 'italic' },
+];
+
+// Find the closing delimiter for emphasis opened at `start`. The content must
+// not be empty or start/end with whitespace, and underscores inside words
+// (snake_case) never count.
+function findClosing(text: string, marker: string, start: number) {
+  const contentStart = start + marker.length;
+  if (contentStart >= text.length || /\s/.test(text[contentStart])) return -1;
+  if (marker[0] === '_' && start > 0 && WORD_CHAR.test(text[start - 1])) return -1;
+
+  let index = text.indexOf(marker, contentStart + 1);
+  while (index !== -1) {
+    const after = text[index + marker.length];
+    const validEnd =
+      !/\s/.test(text[index - 1]) &&
+      // A single * or _ directly followed by another is part of a longer delimiter
+      !(marker.length === 1 && after === marker) &&
+      !(marker[0] === '_' && after !== undefined && WORD_CHAR.test(after));
+    if (validEnd) return index;
+    index = text.indexOf(marker, index + 1);
+  }
+  return -1;
+}
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = [];
+  let buffer = '';
+  let i = 0;
+
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', text: buffer });
+    buffer = '';
+  };
+
+  while (i < text.length) {
+    const char = text[i];
+
+    if (char === '\\' && i + 1 < text.length && /[\\`*_~>#-]/.test(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (char === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end > i + 1) {
+        flush();
+        nodes.push({ type: 'code', text: text.slice(i + 1, end) });
+        i = end + 1;
+        continue;
+      }
+    }
+
+    if (char === '*' || char === '_' || char === '~') {
+      const emphasis = EMPHASIS.find(({ marker }) => text.startsWith(marker, i));
+      const end = emphasis ? findClosing(text, emphasis.marker, i) : -1;
+      if (emphasis && end !== -1) {
+        flush();
+        nodes.push({
+          type: emphasis.type,
+          children: parseInline(text.slice(i + emphasis.marker.length, end)),
+        });
+        i = end + emphasis.marker.length;
+        continue;
+      }
+    }
+
+    if (char === 'h' || char === 'H' || char === 'w' || char === 'W') {
+      const url = matchLink(text, i);
+      if (url) {
+        flush();
+        nodes.push({ type: 'link', href: toHref(url), text: url });
+        i += url.length;
+        continue;
+      }
+    }
+
+    buffer += char;
+    i += 1;
+  }
+
+  flush();
+  return nodes;
+}
+
+const startsBlock = (line: string) =>
+  FENCE.test(line) || QUOTE.test(line) || UNORDERED_ITEM.test(line) || ORDERED_ITEM.test(line);
+
+export function parseMarkdown(content: string): BlockNode[] {
+  const lines = content.replace(/\r\n?/g, '\n').split('\n');
+  const blocks: BlockNode[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !/^\s*```\s*$/.test(lines[i])) {
+        code.push(lines[i]);
+        i += 1;
+      }
+      // Skip the closing fence; an unclosed block runs to the end
+      i += 1;
+      blocks.push({ type: 'code', lang: fence[1].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) {
+        quoted.push(lines[i].match(QUOTE)![1]);
+        i += 1;
+      }
+      blocks.push({ type: 'quote', children: parseMarkdown(quoted.join('\n')) });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.test(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: InlineNode[][] = [];
+      const start = ordered ? Number(line.match(ORDERED_ITEM)![1]) : 1;
+      while (i < lines.length && pattern.test(lines[i])) {
+        const match = lines[i].match(pattern)!;
+        items.push(parseInline(match[match.length - 1]));
+        i += 1;
+      }
+      blocks.push({ type: 'list', ordered, start, items });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines[i])) {
+      paragraph.push(lines[i]);
+      i += 1;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+function inlineToPlainText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => ('children' in node ? inlineToPlainText(node.children) : node.text))
+    .join('');
+}
+
+function blocksToPlainText(blocks: BlockNode[]): string[] {
+  return blocks.flatMap((block) => {
+    switch (block.type) {
+      case 'paragraph':
+        return [inlineToPlainText(block.children)];
+      case 'code':
+        return [block.code];
+      case 'quote':
+        return blocksToPlainText(block.children);
+      case 'list':
+        return block.items.map(inlineToPlainText);
+    }
+  });
+}
+
+// The text of a message without formatting, on a single line, for previews
+export function markdownToPlainText(content: string) {
+  return blocksToPlainText(parseMarkdown(content))
+    .join(' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Links in reading order, e.g. to pick one for a link preview
+export function extractLinks(content: string) {
+  const links: string[] = [];
+  const visitInline = (nodes: InlineNode[]) =>
+    nodes.forEach((node) => {
+      if (node.type === 'link') links.push(node.href);
+      else if ('children' in node) visitInline(node.children);
+    });
+  const visitBlocks = (blocks: BlockNode[]) =>
+    blocks.forEach((block) => {
+      if (block.type === 'paragraph') visitInline(block.children);
+      else if (block.type === 'quote') visitBlocks(block.children);
+      else if (block.type === 'list') block.items.forEach(visitInline);
+    });
+  visitBlocks(parseMarkdown(content));
+  return links;
+}
@@ -0,0 +1,337 @@
+import { format } from 'date-fns';
+import { supabase } from './supabase';
+import { canPrepareImage, prepareImage } from './images';
+
+export const CHAT_MEDIA_BUCKET = 'chat-media';
+
+// Media messages store the public URL; recover the object path from it
+export function getChatMediaPath(url: string) {
+  const marker = `/object/public/${CHAT_MEDIA_BUCKET}/`;
+  const index = url.indexOf(marker);
+  if (index === -1) return null;
+  return decodeURIComponent(url.slice(index + marker.length).split('?')[0]);
+}
+
+export async function removeChatMediaPaths(paths: string[]) {
+  if (paths.length === 0) return;
+
+  const { error } = await supabase.storage.from(CHAT_MEDIA_BUCKET).remove(paths);
+
+  if (error) throw error;
+}
+
+// Removes a message's file and, for images, its thumbnail
+export async function removeChatMedia(...urls: (string | null | undefined)[]) {
+  await removeChatMediaPaths(
+    urls.flatMap((url) => {
+      const path = url ? getChatMediaPath(url) : null;
+      return path ? [path] : [];
+    })
+  );
+}
+
+// Attachment limits. Keep in sync with the chat-media bucket's
+// file_size_limit and allowed_mime_types.
+export const MAX_ATTACHMENT_SIZE = (Number(import.meta.env.VITE_MAX_ATTACHMENT_MB) || 50) * 1024 * 1024;
+
+const DEFAULT_ATTACHMENT_TYPES = [
+  'image/*',
+  'video/*',
+  'audio/*',
+  'text/plain',
+  'text/csv',
+  'text/markdown',
+  'application/pdf',
+  'application/rtf',
+  'application/json',
+  'application/zip',
+  'application/x-zip-compressed',
+  'application/x-7z-compressed',
+  'application/vnd.rar',
+  'application/x-rar-compressed',
+  'application/gzip',
+  'application/x-gzip',
+  'application/x-tar',
+  'application/msword',
+  'application/vnd.ms-excel',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.oasis.opendocument.text',
+  'application/vnd.oasis.opendocument.spreadsheet',
+  'application/vnd.oasis.opendocument.presentation',
+];
+
+export const ALLOWED_ATTACHMENT_TYPES: string[] = import.meta.env.VITE_ALLOWED_ATTACHMENT_TYPES
+  ? String(import.meta.env.VITE_ALLOWED_ATTACHMENT_TYPES).split(',').map((type) => type.trim()).filter(Boolean)
+  : DEFAULT_ATTACHMENT_TYPES;
+
+// Browsers leave File.type empty for many documents and archives
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  txt: 'text/plain',
+  csv: 'text/csv',
+  md: 'text/markdown',
+  pdf: 'application/pdf',
+  rtf: 'application/rtf',
+  json: 'application/json',
+  zip: 'application/zip',
+  '7z': 'application/x-7z-compressed',
+  rar: 'application/vnd.rar',
+  gz: 'application/gzip',
+  tgz: 'application/gzip',
+  tar: 'application/x-tar',
+  doc: 'application/msword',
+  xls: 'application/vnd.ms-excel',
+  ppt: 'application/vnd.ms-powerpoint',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  odt: 'application/vnd.oasis.opendocument.text',
+  ods: 'application/vnd.oasis.opendocument.spreadsheet',
+  odp: 'application/vnd.oasis.opendocument.presentation',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  wav: 'audio/wav',
+};
+
+export type AttachmentType = 'image' | 'video' | 'file';
+
+export interface Attachment {
+  url: string;
+  type: AttachmentType;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  // Set for images that were resized in the browser
+  thumbnail_url?: string;
+  placeholder?: string;
+  width?: number;
+  height?: number;
+}
+
+function getExtension(fileName: string) {
+  const dot = fileName.lastIndexOf('.');
+  return dot > 0 ? fileName.slice(dot + 1).toLowerCase() : '';
+}
+
+export function getAttachmentMimeType(file: File) {
+  return file.type || MIME_TYPES_BY_EXTENSION[getExtension(file.name)] || 'application/octet-stream';
+}
+
+function isAllowedMimeType(mimeType: string) {
+  return ALLOWED_ATTACHMENT_TYPES.some((allowed) =>
+    allowed.endsWith('/*') ? mimeType.startsWith(allowed.slice(0, -1)) : mimeType === allowed
+  );
+}
+
+// For file inputs; extensions too, since pickers don't know every MIME type
+export const ATTACHMENT_ACCEPT = [
+  ...ALLOWED_ATTACHMENT_TYPES,
+  ...Object.keys(MIME_TYPES_BY_EXTENSION)
+    .filter((ext) => isAllowedMimeType(MIME_TYPES_BY_EXTENSION[ext]))
+    .map((ext) => `.${ext}`),
+].join(',');
+
+// Returns why the file can't be sent, or null if it can
+export function validateAttachment(file: File): string | null {
+  if (file.size === 0) return `${file.name} is empty`;
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `${file.name} is larger than ${formatFileSize(MAX_ATTACHMENT_SIZE)}`;
+  }
+  if (!isAllowedMimeType(getAttachmentMimeType(file))) {
+    return `${file.name} is not a supported file type`;
+  }
+  return null;
+}
+
+export function getAttachmentType(mimeType: string): AttachmentType {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType.startsWith('video/')) return 'video';
+  return 'file';
+}
+
+export function formatFileSize(bytes: number) {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit += 1;
+  }
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+}
+
+export interface UploadOptions {
+  signal?: AbortSignal;
+  // Fraction of the file uploaded so far, from 0 to 1
+  onProgress?: (progress: number) => void;
+}
+
+const abortError = () => new DOMException('Upload cancelled', 'AbortError');
+
+export function isAbortError(error: unknown) {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+// supabase-js doesn't report upload progress, so this posts to the storage
+// API directly with XMLHttpRequest
+async function uploadToChatMedia(
+  path: string,
+  body: Blob,
+  contentType: string,
+  { signal, onProgress }: UploadOptions = {}
+) {
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+  const { data: { session } } = await supabase.auth.getSession();
+  const encodedPath = path.split('/').map(encodeURIComponent).join('/');
+  const url = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/object/${CHAT_MEDIA_BUCKET}/${encodedPath}`;
+
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const xhr = new XMLHttpRequest();
+    const handleAbort = () => xhr.abort();
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Authorization', `Bearer ${session?.access_token ?? anonKey}`);
+    xhr.setRequestHeader('apikey', anonKey);
+    xhr.setRequestHeader('Content-Type', contentType);
+    xhr.setRequestHeader('x-upsert', 'false');
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).message || message;
+      } catch {
+        // Not a JSON error body
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error('Network error while uploading'));
+    xhr.onabort = () => reject(abortError());
+    xhr.onloadend = () => signal?.removeEventListener('abort', handleAbort);
+    signal?.addEventListener('abort', handleAbort);
+    xhr.send(body);
+  });
+
+  return supabase.storage.from(CHAT_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+}
+
+// Thrown for images that can't be stripped of their metadata; the message is
+// meant for the user
+export class UnreadableImageError extends Error {}
+
+// Uploads go to {chat_id}/{user_id}/, which the storage insert policy checks.
+// Images are resized and stripped of EXIF metadata first, and get a
+// thumbnail and placeholder. Images the browser can't decode are refused
+// rather than uploaded with their metadata, GPS location included. Progress
+// covers the main file only.
+export async function uploadAttachment(
+  chatId: string,
+  userId: string,
+  file: File,
+  options: UploadOptions = {}
+): Promise<Attachment> {
+  const originalType = getAttachmentMimeType(file);
+  const prepared = canPrepareImage(originalType) ? await prepareImage(file) : null;
+  if (canPrepareImage(originalType) && !prepared) {
+    throw new UnreadableImageError(`${file.name} can't be read by this browser, so its location data can't be removed. Convert it to JPEG or PNG and try again.`);
+  }
+  const upload = prepared ? prepared.file : file;
+  const mimeType = prepared ? prepared.file.type : originalType;
+  const ext = getExtension(upload.name);
+  const basePath = `${chatId}/${userId}/${crypto.randomUUID()}`;
+
+  const url = await uploadToChatMedia(`${basePath}${ext ? `.${ext}` : ''}`, upload, mimeType, options);
+  const attachment: Attachment = {
+    url,
+    type: getAttachmentType(mimeType),
+    file_name: upload.name,
+    file_size: upload.size,
+    mime_type: mimeType,
+  };
+
+  if (prepared) {
+    const thumbnailType = prepared.thumbnail.type || mimeType;
+    try {
+      attachment.thumbnail_url = await uploadToChatMedia(
+        `${basePath}_thumb.${thumbnailType === 'image/jpeg' ? 'jpg' : thumbnailType.split('/')[1]}`,
+        prepared.thumbnail,
+        thumbnailType,
+        { signal: options.signal }
+      );
+    } catch (error) {
+      // The bubble falls back to the full image
+      if (!isAbortError(error)) console.error('Error uploading thumbnail:', error);
+    }
+    attachment.placeholder = prepared.placeholder;
+    attachment.width = prepared.width;
+    attachment.height = prepared.height;
+  }
+
+  // Cancelled after the file made it up; don't leave it orphaned
+  if (options.signal?.aborted) {
+    await removeChatMedia(attachment.url, attachment.thumbnail_url).catch((error) =>
+      console.error('Error removing cancelled upload:', error)
+    );
+    throw abortError();
+  }
+
+  return attachment;
+}
+
+export async function sendAttachmentMessage(
+  chatId: string,
+  userId: string,
+  attachment: Attachment,
+  { caption, albumId }: { caption?: string | null; albumId?: string | null } = {}
+) {
+  const { error } = await supabase.from('messages').insert([
+    {
+      chat_id: chatId,
+      sender_id: userId,
+      content: attachment.url,
+      type: attachment.type,
+      file_name: attachment.file_name,
+      file_size: attachment.file_size,
+      mime_type: attachment.mime_type,
+      thumbnail_url: attachment.thumbnail_url ?? null,
+      placeholder: attachment.placeholder ?? null,
+      width: attachment.width ?? null,
+      height: attachment.height ?? null,
+      caption: caption || null,
+      album_id: albumId ?? null,
+    },
+  ]);
+
+  if (error) throw error;
+}
+
+// Files pasted into the composer. Copying from office apps puts both the text
+// and a rendered image on the clipboard; the text wins there, so only
+// clipboards without text count. Screenshots arrive as "image.png" and get a
+// more useful name.
+export function getPastedFiles(clipboard: DataTransfer): File[] {
+  if (clipboard.types.includes('text/plain')) return [];
+  const stamp = format(new Date(), 'yyyy-MM-dd HH.mm.ss');
+  return Array.from(clipboard.files).map((file, index) => {
+    if (!/^image\.\w+$/.test(file.name)) return file;
+    const suffix = index > 0 ? ` (${index + 1})` : '';
+    return new File([file], `Screenshot ${stamp}${suffix}.${getExtension(file.name)}`, { type: file.type });
+  });
+}
+
+// Public URL that makes the browser save the file under its original name
+export function getAttachmentDownloadUrl(url: string, fileName: string) {
+  return `${url.split('?')[0]}?download=${encodeURIComponent(fileName)}`;
+}
@@ -0,0 +1,80 @@
+// Chat members that can be mentioned from the composer
+export interface MentionCandidate {
+  id: string;
+  full_name: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export interface MentionPart {
+  text: string;
+  userId: string | null;
+}
+
+// Suggestions shown in the autocomplete at once
+export const MAX_MENTION_SUGGESTIONS = 6;
+
+// An @ at the start of the text or after whitespace, followed by the partial
+// username the caret is in
+const MENTION_QUERY = /(^|\s)@([\w.-]*)$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// The @query being typed just before the caret, if any
+export function getMentionQuery(text: string, caret: number) {
+  const match = text.slice(0, caret).match(MENTION_QUERY);
+  if (!match) return null;
+  return { query: match[2], start: caret - match[2].length - 1 };
+}
+
+export function filterMentionCandidates(candidates: MentionCandidate[], query: string) {
+  const needle = query.toLowerCase();
+  return candidates
+    .filter(
+      (candidate) =>
+        candidate.username.toLowerCase().startsWith(needle) ||
+        candidate.full_name.toLowerCase().includes(needle)
+    )
+    .slice(0, MAX_MENTION_SUGGESTIONS);
+}
+
+// Replace the @query between start and the caret with the chosen username
+export function insertMention(text: string, start: number, caret: number, username: string) {
+  const mention = `@${username} `;
+  return {
+    text: text.slice(0, start) + mention + text.slice(caret),
+    caret: start + mention.length,
+  };
+}
+
+// Ids of the candidates whose @username is still in the text when it is sent
+export function extractMentions(text: string, candidates: MentionCandidate[]) {
+  return candidates
+    .filter((candidate) =>
+      new RegExp(`(^|\\s)@${escapeRegExp(candidate.username)}(?![\\w.-])`, 'i').test(text)
+    )
+    .map((candidate) => candidate.id);
+}
+
+// Split text into plain runs and @username mentions of the given users
+export function splitMentions(text: string, users: Pick<MentionCandidate, 'id' | 'username'>[]): MentionPart[] {
+  if (users.length === 0) return [{ text, userId: null }];
+
+  const byUsername = new Map(users.map((user) => [user.username.toLowerCase(), user.id]));
+  const names = users
+    .map((user) => escapeRegExp(user.username))
+    .sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(`(^|\\s)@(${names.join('|')})(?![\\w.-])`, 'gi');
+
+  const parts: MentionPart[] = [];
+  let last = 0;
+  for (const match of text.matchAll(pattern)) {
+    const start = (match.index ?? 0) + match[1].length;
+    const end = start + match[2].length + 1;
+    if (start > last) parts.push({ text: text.slice(last, start), userId: null });
+    parts.push({ text: text.slice(start, end), userId: byUsername.get(match[2].toLowerCase()) ?? null });
+    last = end;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), userId: null });
+  return parts;
+}
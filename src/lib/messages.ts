@@ -0,0 +1,431 @@
+import { supabase } from './supabase';
+import { Message } from '../types/chat';
+import { markdownToPlainText } from './markdown';
+import { describeSystemNotice } from './disappearing';
+import { compareTimestamps } from './timestamps';
+
+// Number of messages loaded per page when opening a chat or scrolling back
+export const MESSAGE_PAGE_SIZE = 50;
+
+export const MESSAGE_SELECT = `
+  id,
+  content,
+  type,
+  created_at,
+  edited_at,
+  sender_id,
+  chat_id,
+  reply_to,
+  thread_root_id,
+  reply_count,
+  deleted_at,
+  mentions,
+  expires_at,
+  file_name,
+  file_size,
+  mime_type,
+  thumbnail_url,
+  placeholder,
+  width,
+  height,
+  caption,
+  album_id,
+  link_preview,
+  forwarded_from,
+  forward_count,
+  profiles!inner (
+    id,
+    full_name,
+    username,
+    avatar_url
+  ),
+  reply:messages!reply_to (
+    id,
+    content,
+    type,
+    sender_id,
+    deleted_at,
+    profiles (
+      full_name
+    )
+  )
+`;
+
+export interface MessageRow {
+  id: string;
+  content: string;
+  type?: Message['type'];
+  created_at: string;
+  edited_at?: string | null;
+  sender_id: string;
+  chat_id: string;
+  reply_to?: string | null;
+  thread_root_id?: string | null;
+  reply_count?: number;
+  deleted_at?: string | null;
+  mentions?: string[];
+  expires_at?: string | null;
+  file_name?: string | null;
+  file_size?: number | null;
+  mime_type?: string | null;
+  thumbnail_url?: string | null;
+  placeholder?: string | null;
+  width?: number | null;
+  height?: number | null;
+  caption?: string | null;
+  album_id?: string | null;
+  link_preview?: Message['link_preview'];
+  forwarded_from?: string | null;
+  forward_count?: number;
+  profiles: {
+    id: string;
+    full_name: string;
+    username: string;
+    avatar_url: string | null;
+  };
+  reply?: {
+    id: string;
+    content: string;
+    type?: Message['type'];
+    sender_id: string;
+    deleted_at?: string | null;
+    profiles: { full_name: string } | null;
+  } | null;
+}
+
+export type RealtimeMessageRow = Omit<MessageRow, 'profiles' | 'reply'>;
+
+export interface MessageEdit {
+  id: string;
+  previous_content: string;
+  edited_at: string;
+}
+
+// Optional limit on how long after sending a message may be edited. Keep in
+// sync with the app.message_edit_window database setting.
+const EDIT_WINDOW_MINUTES = Number(import.meta.env.VITE_MESSAGE_EDIT_WINDOW_MINUTES) || 0;
+
+// Keyset cursor: messages are ordered by (created_at, id) so that rows
+// sharing a timestamp still page deterministically
+export type MessageCursor = Pick<Message, 'id' | 'created_at'>;
+
+export function toMessage(row: MessageRow): Message {
+  return {
+    id: row.id,
+    content: row.content,
+    type: row.type,
+    created_at: row.created_at,
+    edited_at: row.edited_at ?? null,
+    sender_id: row.sender_id,
+    chat_id: row.chat_id,
+    reply_to: row.reply_to ?? null,
+    thread_root_id: row.thread_root_id ?? null,
+    reply_count: row.reply_count ?? 0,
+    deleted_at: row.deleted_at ?? null,
+    mentions: row.mentions ?? [],
+    expires_at: row.expires_at ?? null,
+    file_name: row.file_name ?? null,
+    file_size: row.file_size ?? null,
+    mime_type: row.mime_type ?? null,
+    thumbnail_url: row.thumbnail_url ?? null,
+    placeholder: row.placeholder ?? null,
+    width: row.width ?? null,
+    height: row.height ?? null,
+    caption: row.caption ?? null,
+    album_id: row.album_id ?? null,
+    link_preview: row.link_preview ?? null,
+    forwarded_from: row.forwarded_from ?? null,
+    forward_count: row.forward_count ?? 0,
+    reply: row.reply
+      ? {
+          id: row.reply.id,
+          content: row.reply.content,
+          type: row.reply.type,
+          sender_id: row.reply.sender_id,
+          sender_name: row.reply.profiles?.full_name || 'Unknown User',
+          deleted_at: row.reply.deleted_at ?? null,
+        }
+      : null,
+    sender: {
+      id: row.profiles.id,
+      name: row.profiles.full_name,
+      username: row.profiles.username,
+      avatar_url: row.profiles.avatar_url,
+    },
+  };
+}
+
+// Realtime payloads carry the raw row without the joined sender profile and
+// reply preview, so keep the ones we already have
+export function applyMessageUpdate(message: Message, row: RealtimeMessageRow): Message {
+  return {
+    ...toMessage({
+      ...row,
+      profiles: {
+        id: message.sender.id,
+        full_name: message.sender.name,
+        username: message.sender.username,
+        avatar_url: message.sender.avatar_url,
+      },
+    }),
+    reply: message.reply,
+  };
+}
+
+// Keep quoted previews in sync when the quoted message is edited or deleted
+export function applyReplyUpdate(message: Message, row: RealtimeMessageRow): Message {
+  if (!message.reply || message.reply.id !== row.id) return message;
+  return {
+    ...message,
+    reply: { ...message.reply, content: row.content, deleted_at: row.deleted_at ?? null },
+  };
+}
+
+// Short plain text for a message, e.g. in reply previews and the chat list.
+// Formatting is stripped the same way MessageText renders it.
+export function getMessagePreview(
+  message: Pick<Message, 'content' | 'type' | 'deleted_at'> & Pick<Partial<Message>, 'file_name' | 'caption'>
+) {
+  if (message.deleted_at) return 'This message was deleted';
+  if (message.type === 'system') return describeSystemNotice(message.content);
+  const caption = message.caption ? markdownToPlainText(message.caption) : '';
+  if (message.type === 'image') return caption ? `Photo: ${caption}` : 'Photo';
+  if (message.type === 'video') return caption ? `Video: ${caption}` : 'Video';
+  if (message.type === 'file') return caption || (message.file_name ? `File: ${message.file_name}` : 'File');
+  if (message.type === 'poll') return `Poll: ${message.content}`;
+  if (message.type === 'action') return `* ${markdownToPlainText(message.content)}`;
+  return markdownToPlainText(message.content);
+}
+
+export function canEditMessage(message: Message, userId?: string) {
+  if (!userId || message.sender_id !== userId) return false;
+  if (message.deleted_at) return false;
+  if (message.type && message.type !== 'text') return false;
+  if (!EDIT_WINDOW_MINUTES) return true;
+  return Date.now() - new Date(message.created_at).getTime() < EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+export function compareMessages(a: MessageCursor, b: MessageCursor): number {
+  const byTime = compareTimestamps(a.created_at, b.created_at);
+  if (byTime !== 0) return byTime;
+  return a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+}
+
+// Merge incoming messages into the current list, replacing duplicates by id
+// and keeping the result in chronological order
+export function mergeMessages(current: Message[], incoming: Message[]): Message[] {
+  if (incoming.length === 0) return current;
+  const byId = new Map(current.map((message) => [message.id, message]));
+  for (const message of incoming) {
+    byId.set(message.id, message);
+  }
+  return Array.from(byId.values()).sort(compareMessages);
+}
+
+// Fetch the newest page of a chat, returned in chronological order
+export async function fetchLatestMessages(chatId: string, limit = MESSAGE_PAGE_SIZE) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage).reverse();
+}
+
+// Fetch the page of messages immediately older than the cursor
+export async function fetchMessagesBefore(
+  chatId: string,
+  cursor: MessageCursor,
+  limit = MESSAGE_PAGE_SIZE
+) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage).reverse();
+}
+
+// Fetch everything newer than the cursor, used to catch up after the
+// realtime connection drops or the tab was in the background
+export async function fetchMessagesAfter(
+  chatId: string,
+  cursor: MessageCursor,
+  limit = MESSAGE_PAGE_SIZE
+) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .or(`created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage);
+}
+
+export async function fetchMessageById(messageId: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('id', messageId)
+    .single();
+
+  if (error) throw error;
+
+  return toMessage(data as unknown as MessageRow);
+}
+
+export async function editMessage(messageId: string, content: string) {
+  const { error } = await supabase
+    .from('messages')
+    .update({ content })
+    .eq('id', messageId);
+
+  if (error) throw error;
+}
+
+// Replace the message with a tombstone for every member. The database
+// trigger clears its content, edit history and reactions.
+// Returns the chat-media paths of the message's files that no other message
+// uses (forwarded copies share them), for the caller to remove
+export async function deleteMessageForEveryone(messageId: string) {
+  const { data, error } = await supabase.rpc('delete_message_for_everyone', {
+    p_message_id: messageId,
+  });
+
+  if (error) throw error;
+
+  return ((data || []) as { media_path: string | null; thumbnail_path: string | null }[])
+    .flatMap((row) => [row.media_path, row.thumbnail_path])
+    .flatMap((path) => (path ? [decodeURIComponent(path)] : []));
+}
+
+// Hide messages from the current user's view only
+export async function hideMessages(messageIds: string[], userId: string) {
+  const { error } = await supabase
+    .from('hidden_messages')
+    .upsert(
+      messageIds.map((messageId) => ({ message_id: messageId, user_id: userId })),
+      { onConflict: 'message_id,user_id', ignoreDuplicates: true }
+    );
+
+  if (error) throw error;
+}
+
+// Previous versions of a message, oldest first
+export async function fetchMessageEdits(messageId: string) {
+  const { data, error } = await supabase
+    .from('message_edits')
+    .select('id, previous_content, edited_at')
+    .eq('message_id', messageId)
+    .order('edited_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as MessageEdit[];
+}
+
+// Messages in a chat that mention the user, newest first
+export async function fetchMentions(chatId: string, userId: string, limit = MESSAGE_PAGE_SIZE) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .contains('mentions', [userId])
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage);
+}
+
+export type SharedTab = 'media' | 'files' | 'links';
+
+// Number of items loaded per page in the shared media gallery
+export const SHARED_PAGE_SIZE = 60;
+
+function sharedMessagesQuery(chatId: string, tab: SharedTab) {
+  const query = supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .eq('chat_id', chatId)
+    .is('deleted_at', null);
+
+  if (tab === 'media') return query.in('type', ['image', 'video']);
+  if (tab === 'files') return query.eq('type', 'file');
+  return query.eq('has_link', true);
+}
+
+// Page through a chat's images and videos, files, or messages containing
+// links, newest first. Continue from the oldest item of the previous page.
+export async function fetchSharedMessages(
+  chatId: string,
+  tab: SharedTab,
+  cursor?: MessageCursor,
+  limit = SHARED_PAGE_SIZE
+) {
+  let query = sharedMessagesQuery(chatId, tab);
+
+  if (cursor) {
+    query = query.or(`created_at.lt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.lt.${cursor.id})`);
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage);
+}
+
+// The shared items right after the cursor, oldest first
+export async function fetchSharedMessagesAfter(
+  chatId: string,
+  tab: SharedTab,
+  cursor: MessageCursor,
+  limit = SHARED_PAGE_SIZE
+) {
+  const { data, error } = await sharedMessagesQuery(chatId, tab)
+    .or(`created_at.gt."${cursor.created_at}",and(created_at.eq."${cursor.created_at}",id.gt.${cursor.id})`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(limit);
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage);
+}
+
+// The root message and every reply in its thread, oldest first
+export async function fetchThreadMessages(rootId: string) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select(MESSAGE_SELECT)
+    .or(`id.eq.${rootId},thread_root_id.eq.${rootId}`)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true });
+
+  if (error) throw error;
+
+  return (data as unknown as MessageRow[]).map(toMessage);
+}
@@ -0,0 +1,52 @@
+import { supabase } from './supabase';
+
+// A new message the user should hear about. Rows are created by the
+// notify_chat_members trigger: mentions always, other messages only for
+// chats the user hasn't muted.
+export interface ChatNotification {
+  id: string;
+  user_id: string;
+  chat_id: string;
+  message_id: string;
+  kind: 'message' | 'mention';
+  created_at: string;
+}
+
+export async function setChatMuted(chatId: string, muted: boolean) {
+  const { error } = await supabase.rpc('set_chat_muted', {
+    p_chat_id: chatId,
+    p_muted: muted,
+  });
+
+  if (error) throw error;
+}
+
+// Notifications are only shown live, so they are removed once handled.
+// Without an id this clears everything left over from while the user was away.
+export async function dismissNotifications(userId: string, notificationId?: string) {
+  let query = supabase.from('notifications').delete().eq('user_id', userId);
+  if (notificationId) query = query.eq('id', notificationId);
+
+  const { error } = await query;
+
+  if (error) throw error;
+}
+
+export function requestNotificationPermission() {
+  if (!('Notification' in window) || Notification.permission !== 'default') return;
+  Notification.requestPermission().catch((error) => {
+    console.error('Error requesting notification permission:', error);
+  });
+}
+
+// System notification for when the app is in the background
+export function showSystemNotification(title: string, body: string, tag: string, onClick: () => void) {
+  if (!('Notification' in window) || Notification.permission !== 'granted') return;
+
+  const notification = new Notification(title, { body, tag });
+  notification.onclick = () => {
+    window.focus();
+    onClick();
+    notification.close();
+  };
+}
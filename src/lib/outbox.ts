@@ -0,0 +1,120 @@
+import { supabase } from './supabase';
+import { Message } from '../types/chat';
+
+// Messages waiting to be sent. They are persisted in IndexedDB so nothing
+// typed while offline is lost on reload, and carry a client-generated id
+// that becomes the message's primary key, so a retry after a lost response
+// can't create a duplicate.
+export interface OutboxEntry {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  // Only text and /me actions are queued; entries from before have no type
+  type?: 'text' | 'action';
+  reply_to: string | null;
+  reply: Message['reply'];
+  mentions: string[];
+  created_at: string;
+  status: 'pending' | 'failed';
+  attempts: number;
+  next_attempt_at: number;
+}
+
+const DB_NAME = 'chathub-outbox';
+const STORE = 'messages';
+
+// Automatic retries before a message is marked failed
+export const MAX_SEND_ATTEMPTS = 8;
+
+export function getRetryDelay(attempts: number) {
+  return Math.min(1000 * 2 ** attempts, 60000);
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('sender_id', 'sender_id');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runRequest<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction(STORE, mode).objectStore(STORE));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getOutboxEntries(senderId: string) {
+  const entries = await runRequest<OutboxEntry[]>('readonly', (store) =>
+    store.index('sender_id').getAll(senderId)
+  );
+  return entries.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function putOutboxEntry(entry: OutboxEntry) {
+  await runRequest('readwrite', (store) => store.put(entry));
+}
+
+export async function deleteOutboxEntry(id: string) {
+  await runRequest('readwrite', (store) => store.delete(id));
+}
+
+export type SendResult = 'sent' | 'retry' | 'failed';
+
+export async function sendOutboxEntry(entry: OutboxEntry): Promise<SendResult> {
+  const { error } = await supabase.from('messages').insert([
+    {
+      id: entry.id,
+      chat_id: entry.chat_id,
+      sender_id: entry.sender_id,
+      content: entry.content,
+      type: entry.type ?? 'text',
+      // Entries queued before mentions existed don't have the field
+      mentions: entry.mentions ?? [],
+      ...(entry.reply_to ? { reply_to: entry.reply_to } : {}),
+    },
+  ]);
+
+  if (!error) return 'sent';
+  // An earlier attempt reached the server but its response never came back
+  if (error.code === '23505') return 'sent';
+  // Postgres errors (RLS, constraints, trigger exceptions) won't go away on
+  // their own; anything else is treated as a connectivity problem
+  if (error.code && /^[0-9A-Z]{5}$/.test(error.code)) {
+    console.error('Error sending message:', error);
+    return 'failed';
+  }
+  return 'retry';
+}
+
+export function toPendingMessage(entry: OutboxEntry, sender: Message['sender']): Message {
+  return {
+    id: entry.id,
+    chat_id: entry.chat_id,
+    sender_id: entry.sender_id,
+    content: entry.content,
+    created_at: entry.created_at,
+    type: entry.type ?? 'text',
+    reply_to: entry.reply_to,
+    reply: entry.reply,
+    mentions: entry.mentions ?? [],
+    sender,
+    status: entry.status,
+  };
+}
@@ -0,0 +1,158 @@
+import { supabase } from './supabase';
+
+export const MIN_POLL_OPTIONS = 2;
+export const MAX_POLL_OPTIONS = 12;
+
+export interface PollOption {
+  id: string;
+  poll_id: string;
+  chat_id: string;
+  position: number;
+  text: string;
+  vote_count: number;
+}
+
+// A poll attached to a 'poll' message. Tallies are kept on the rows by the
+// vote_poll function so they are available for anonymous polls too.
+export interface Poll {
+  id: string;
+  message_id: string;
+  chat_id: string;
+  created_by: string;
+  question: string;
+  multiple_choice: boolean;
+  anonymous: boolean;
+  closes_at: string | null;
+  closed_at: string | null;
+  voter_count: number;
+  created_at: string;
+  options: PollOption[];
+  // Options the current user voted for
+  my_votes: string[];
+}
+
+export type PollRow = Omit<Poll, 'options' | 'my_votes'>;
+
+export interface NewPoll {
+  question: string;
+  options: string[];
+  multiple_choice: boolean;
+  anonymous: boolean;
+  closes_at: string | null;
+}
+
+export interface PollVoter {
+  option_id: string;
+  user: {
+    id: string;
+    full_name: string;
+    username: string;
+    avatar_url: string | null;
+  };
+}
+
+const POLL_SELECT = `
+  id,
+  message_id,
+  chat_id,
+  created_by,
+  question,
+  multiple_choice,
+  anonymous,
+  closes_at,
+  closed_at,
+  voter_count,
+  created_at,
+  poll_options (
+    id,
+    poll_id,
+    chat_id,
+    position,
+    text,
+    vote_count
+  )
+`;
+
+export function isPollClosed(poll: Pick<Poll, 'closed_at' | 'closes_at'>, now = Date.now()) {
+  return !!poll.closed_at || (!!poll.closes_at && new Date(poll.closes_at).getTime() <= now);
+}
+
+// Polls for the given messages, with the user's own votes
+export async function fetchPolls(messageIds: string[], userId: string) {
+  const { data, error } = await supabase
+    .from('polls')
+    .select(POLL_SELECT)
+    .in('message_id', messageIds);
+
+  if (error) throw error;
+
+  const rows = (data || []) as unknown as (PollRow & { poll_options: PollOption[] })[];
+  if (rows.length === 0) return [];
+
+  const { data: votes, error: votesError } = await supabase
+    .from('poll_votes')
+    .select('poll_id, option_id')
+    .eq('user_id', userId)
+    .in('poll_id', rows.map((row) => row.id));
+
+  if (votesError) throw votesError;
+
+  return rows.map(({ poll_options, ...row }): Poll => ({
+    ...row,
+    options: [...poll_options].sort((a, b) => a.position - b.position),
+    my_votes: (votes || []).filter((vote) => vote.poll_id === row.id).map((vote) => vote.option_id),
+  }));
+}
+
+export async function createPoll(chatId: string, poll: NewPoll) {
+  const { data, error } = await supabase.rpc('create_poll', {
+    p_chat_id: chatId,
+    p_question: poll.question,
+    p_options: poll.options,
+    p_multiple_choice: poll.multiple_choice,
+    p_anonymous: poll.anonymous,
+    p_closes_at: poll.closes_at,
+  });
+
+  if (error) throw error;
+
+  return data as string;
+}
+
+// Replaces the user's votes; an empty list retracts them
+export async function votePoll(pollId: string, optionIds: string[]) {
+  const { error } = await supabase.rpc('vote_poll', {
+    p_poll_id: pollId,
+    p_option_ids: optionIds,
+  });
+
+  if (error) throw error;
+}
+
+export async function closePoll(pollId: string) {
+  const { error } = await supabase.rpc('close_poll', { p_poll_id: pollId });
+
+  if (error) throw error;
+}
+
+// Who voted for each option. Only returns other members' votes for named
+// polls; for anonymous polls the policies leave just the user's own.
+export async function fetchPollVoters(pollId: string) {
+  const { data, error } = await supabase
+    .from('poll_votes')
+    .select(`
+      option_id,
+      user:profiles!inner (
+        id,
+        full_name,
+        username,
+        avatar_url
+      )
+    `)
+    .eq('poll_id', pollId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as unknown as PollVoter[];
+}
@@ -0,0 +1,66 @@
+import { supabase } from './supabase';
+
+// Shown in the reaction bar before falling back to the full emoji picker
+export const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+export interface Reaction {
+  id: string;
+  message_id: string;
+  chat_id: string;
+  user_id: string;
+  emoji: string;
+  created_at: string;
+}
+
+// Reactions to one message grouped by emoji, in the order they were first used
+export interface ReactionSummary {
+  emoji: string;
+  userIds: string[];
+  reacted: boolean;
+}
+
+export function summarizeReactions(reactions: Reaction[], userId?: string): ReactionSummary[] {
+  const byEmoji = new Map<string, ReactionSummary>();
+  const sorted = [...reactions].sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const reaction of sorted) {
+    const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, userIds: [], reacted: false };
+    summary.userIds.push(reaction.user_id);
+    summary.reacted = summary.reacted || reaction.user_id === userId;
+    byEmoji.set(reaction.emoji, summary);
+  }
+  return Array.from(byEmoji.values());
+}
+
+export async function fetchReactions(messageIds: string[]) {
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .select('id, message_id, chat_id, user_id, emoji, created_at')
+    .in('message_id', messageIds);
+
+  if (error) throw error;
+
+  return (data || []) as Reaction[];
+}
+
+export async function addReaction(reaction: Pick<Reaction, 'message_id' | 'chat_id' | 'user_id' | 'emoji'>) {
+  const { data, error } = await supabase
+    .from('message_reactions')
+    .insert([reaction])
+    .select('id, message_id, chat_id, user_id, emoji, created_at')
+    .single();
+
+  if (error) throw error;
+
+  return data as Reaction;
+}
+
+export async function removeReaction(messageId: string, userId: string, emoji: string) {
+  const { error } = await supabase
+    .from('message_reactions')
+    .delete()
+    .eq('message_id', messageId)
+    .eq('user_id', userId)
+    .eq('emoji', emoji);
+
+  if (error) throw error;
+}
@@ -0,0 +1,60 @@
+import { supabase } from './supabase';
+import { Message } from '../types/chat';
+import { compareTimestamps } from './timestamps';
+
+export type ReceiptStatus = 'sent' | 'delivered' | 'read';
+
+// A member's delivery and read cursors in one chat (see chat_members)
+export interface ReceiptPosition {
+  user_id: string;
+  last_read_message_at: string;
+  last_delivered_message_at: string;
+}
+
+export interface MessageReceipt {
+  user_id: string;
+  delivered: boolean;
+  delivered_at: string | null;
+  read: boolean;
+  read_at: string | null;
+}
+
+// Derive a message's state from the other members' cursors. A message only
+// counts as delivered/read once every other member has got that far.
+export function getReceiptStatus(
+  message: Pick<Message, 'sender_id' | 'created_at'>,
+  positions: ReceiptPosition[]
+): { status: ReceiptStatus; readBy: string[] } {
+  const recipients = positions.filter((position) => position.user_id !== message.sender_id);
+  const readBy = recipients
+    .filter((position) => compareTimestamps(position.last_read_message_at, message.created_at) >= 0)
+    .map((position) => position.user_id);
+  const deliveredCount = recipients.filter(
+    (position) => compareTimestamps(position.last_delivered_message_at, message.created_at) >= 0
+  ).length;
+
+  if (recipients.length === 0) return { status: 'sent', readBy };
+  if (readBy.length === recipients.length) return { status: 'read', readBy };
+  if (deliveredCount === recipients.length) return { status: 'delivered', readBy };
+  return { status: 'sent', readBy };
+}
+
+// Tell the server this client has received everything currently in its chats
+export async function markChatsDelivered() {
+  try {
+    const { error } = await supabase.rpc('mark_chats_delivered');
+    if (error) throw error;
+  } catch (error) {
+    console.error('Error marking messages as delivered:', error);
+  }
+}
+
+export async function fetchMessageReceipts(messageId: string) {
+  const { data, error } = await supabase.rpc('get_message_receipts', {
+    p_message_id: messageId,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as MessageReceipt[];
+}
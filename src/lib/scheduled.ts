@@ -0,0 +1,67 @@
+import { supabase } from './supabase';
+
+// A message waiting to be posted by the send_due_scheduled_messages job
+export interface ScheduledMessage {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  content: string;
+  mentions: string[];
+  send_at: string;
+  created_at: string;
+}
+
+export type NewScheduledMessage = Pick<ScheduledMessage, 'chat_id' | 'sender_id' | 'content' | 'mentions' | 'send_at'>;
+
+// The job runs once a minute, so earlier times can't be honoured exactly
+export const MIN_SCHEDULE_DELAY_MS = 60 * 1000;
+
+// The sender's pending scheduled messages in a chat, soonest first
+export async function fetchScheduledMessages(chatId: string) {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select('*')
+    .eq('chat_id', chatId)
+    .order('send_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []) as ScheduledMessage[];
+}
+
+export async function scheduleMessage(message: NewScheduledMessage) {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .insert([message])
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as ScheduledMessage;
+}
+
+export async function updateScheduledMessage(
+  id: string,
+  changes: Pick<ScheduledMessage, 'content' | 'mentions' | 'send_at'>
+) {
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .update(changes)
+    .eq('id', id)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+
+  return data as ScheduledMessage;
+}
+
+export async function cancelScheduledMessage(id: string) {
+  const { error } = await supabase
+    .from('scheduled_messages')
+    .delete()
+    .eq('id', id);
+
+  if (error) throw error;
+}
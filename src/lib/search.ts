@@ -0,0 +1,111 @@
+import { supabase } from './supabase';
+import { MessageCursor } from './messages';
+import { markdownToPlainText } from './markdown';
+
+// Queries shorter than this aren't sent to the server
+export const MIN_SEARCH_LENGTH = 2;
+
+export interface MessageSearchResult {
+  id: string;
+  chat_id: string;
+  sender_id: string;
+  sender_name: string;
+  created_at: string;
+  snippet: string;
+  rank: number;
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+// Full-text search across all of the user's chats, best matches first
+export async function searchMessages(query: string, limit = 50) {
+  const { data, error } = await supabase.rpc('search_messages', {
+    p_query: query,
+    p_limit: limit,
+  });
+
+  if (error) throw error;
+
+  return (data || []) as MessageSearchResult[];
+}
+
+// Group results by chat, ordering the chats by their best match
+export function groupSearchResults(results: MessageSearchResult[]) {
+  const groups = new Map<string, MessageSearchResult[]>();
+  for (const result of results) {
+    const group = groups.get(result.chat_id);
+    if (group) {
+      group.push(result);
+    } else {
+      groups.set(result.chat_id, [result]);
+    }
+  }
+  return Array.from(groups, ([chatId, chatResults]) => ({ chatId, results: chatResults }));
+}
+
+const unescapeHtml = (text: string) =>
+  text.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+
+// Split a search_messages snippet into plain text and highlighted matches.
+// The server escapes the content, so <mark> tags are the only markup.
+export function parseSnippet(snippet: string): SnippetPart[] {
+  return snippet
+    .split(/<\/?mark>/)
+    .map((text, index) => ({ text: unescapeHtml(text), match: index % 2 === 1 }))
+    .filter((part) => part.text.length > 0);
+}
+
+// Upper bound on matches fetched for the in-chat find bar
+export const FIND_LIMIT = 500;
+
+// Escape LIKE wildcards so the query is matched literally. PostgREST reads
+// "*" as "%" whatever precedes it, so it becomes "_" instead, which still
+// matches a literal "*"; findInChat drops anything else it lets through.
+const escapeLikePattern = (text: string) => text.replace(/[\\%_]/g, '\\$&').replace(/\*/g, '_');
+
+// Ids of every text message in one chat containing the query, newest first.
+// Messages are matched on their rendered text, as the find bar highlights
+// it, so formatting markers neither match nor get in the way. Only the
+// cursor is returned; the messages themselves are loaded on demand when the
+// find bar steps to them.
+export async function findInChat(chatId: string, query: string, limit = FIND_LIMIT) {
+  const { data, error } = await supabase
+    .from('messages')
+    .select('id, created_at, content')
+    .eq('chat_id', chatId)
+    .eq('type', 'text')
+    .is('deleted_at', null)
+    .ilike('content', `%${escapeLikePattern(query)}%`)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+
+  const needle = query.toLowerCase();
+  return (data || [])
+    .filter((message) => markdownToPlainText(message.content).toLowerCase().includes(needle))
+    .map(({ id, created_at }): MessageCursor => ({ id, created_at }));
+}
+
+// Split text into case-insensitive matches of the query and the text between
+export function splitMatches(text: string, query: string): SnippetPart[] {
+  if (!query) return [{ text, match: false }];
+
+  const parts: SnippetPart[] = [];
+  const haystack = text.toLowerCase();
+  const needle = query.toLowerCase();
+  let start = 0;
+  let index = haystack.indexOf(needle);
+  while (index !== -1) {
+    if (index > start) parts.push({ text: text.slice(start, index), match: false });
+    parts.push({ text: text.slice(index, index + needle.length), match: true });
+    start = index + needle.length;
+    index = haystack.indexOf(needle, start);
+  }
+  if (start < text.length) parts.push({ text: text.slice(start), match: false });
+  return parts;
+}
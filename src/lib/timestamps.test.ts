@@ -0,0 +1,20 @@
+// deno test src/lib/timestamps.test.ts
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { compareTimestamps } from './timestamps.ts';
+
+test('orders timestamps a microsecond apart', () => {
+  assert.ok(compareTimestamps('2025-06-14T12:00:00.123456+00:00', '2025-06-14T12:00:00.123457+00:00') < 0);
+  assert.ok(compareTimestamps('2025-06-14T12:00:00.123457+00:00', '2025-06-14T12:00:00.123456+00:00') > 0);
+});
+
+test('treats missing and trimmed fractions as zeros', () => {
+  assert.equal(compareTimestamps('2025-06-14T12:00:00+00:00', '2025-06-14T12:00:00.000Z'), 0);
+  assert.equal(compareTimestamps('2025-06-14T12:00:00.12+00:00', '2025-06-14T12:00:00.120000+00:00'), 0);
+  assert.ok(compareTimestamps('2025-06-14T12:00:00.1234+00:00', '2025-06-14T12:00:00.12341+00:00') < 0);
+});
+
+test('compares across time zones', () => {
+  assert.ok(compareTimestamps('2025-06-14T14:00:00.000001+02:00', '2025-06-14T12:00:00.000002Z') < 0);
+  assert.ok(compareTimestamps('2025-06-14T12:00:01Z', '2025-06-14T12:00:00.999999+00:00') > 0);
+});
@@ -0,0 +1,16 @@
+// Postgres timestamps carry microseconds, but Date only keeps milliseconds.
+// Rows written in the same millisecond (scheduled sends, forwarded batches)
+// would otherwise compare equal and fall back to id order.
+
+// Split a timestamp into epoch milliseconds and the microseconds Date drops
+function parseTimestamp(value: string): [number, number] {
+  const fraction = /T[\d:]+\.(\d+)/.exec(value)?.[1] ?? '';
+  return [Date.parse(value), Number(fraction.padEnd(6, '0').slice(3, 6))];
+}
+
+export function compareTimestamps(a: string, b: string): number {
+  if (a === b) return 0;
+  const [aMs, aMicros] = parseTimestamp(a);
+  const [bMs, bMicros] = parseTimestamp(b);
+  return aMs - bMs || aMicros - bMicros;
+}
@@ -1,16 +1,60 @@
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  site_name: string | null;
+}
+
 export interface Message {
   id: string;
   chat_id: string;
   sender_id: string;
   content: string;
   created_at: string;
-  type?: 'text' | 'image' | 'video';
+  type?: 'text' | 'image' | 'video' | 'file' | 'system' | 'poll' | 'action';
+  edited_at?: string | null;
+  reply_to?: string | null;
+  thread_root_id?: string | null;
+  reply_count?: number;
+  deleted_at?: string | null;
+  mentions?: string[];
+  // Set while the chat has disappearing messages on
+  expires_at?: string | null;
+  // Attachment metadata for image, video and file messages
+  file_name?: string | null;
+  file_size?: number | null;
+  mime_type?: string | null;
+  // Set for images resized before upload
+  thumbnail_url?: string | null;
+  placeholder?: string | null;
+  width?: number | null;
+  height?: number | null;
+  // Media and file messages only; images and videos sent together share an album
+  caption?: string | null;
+  album_id?: string | null;
+  // Built by the link-preview edge function shortly after sending
+  link_preview?: LinkPreview | null;
+  // Set on forwarded copies: the original author and how often it was passed on
+  forwarded_from?: string | null;
+  forward_count?: number;
+  // Quoted preview of the message this one replies to
+  reply?: {
+    id: string;
+    content: string;
+    type?: 'text' | 'image' | 'video' | 'file' | 'system' | 'poll' | 'action';
+    sender_id: string;
+    sender_name: string;
+    deleted_at?: string | null;
+  } | null;
   sender: {
     id: string;
     name: string;
     username: string;
     avatar_url: string | null;
   };
+  // Client-side only: set while the message is still in the outbox
+  status?: 'pending' | 'failed';
 }
 
 export interface ChatMember {
@@ -35,6 +79,10 @@ export interface Chat {
   last_message?: {
     id: string;
     content: string;
+    type?: Message['type'];
+    file_name?: string | null;
+    caption?: string | null;
+    deleted_at?: string | null;
     created_at: string;
     sender_id: string;
     sender?: {
@@ -53,4 +101,5 @@ export interface Chat {
     last_seen: string;
   };
   unread_count: number;
+  marked_unread?: boolean;
 } 
\ No newline at end of file
@@ -16,6 +16,12 @@ export interface Database {
           user_id: string;
           role: 'admin' | 'member';
           created_at: string;
+          last_read_message_id: string | null;
+          last_read_message_at: string;
+          last_read_at: string;
+          last_delivered_message_at: string;
+          marked_unread: boolean;
+          muted: boolean;
         };
         Insert: {
           id?: string;
@@ -23,6 +29,12 @@ export interface Database {
           user_id: string;
           role?: 'admin' | 'member';
           created_at?: string;
+          last_read_message_id?: string | null;
+          last_read_message_at?: string;
+          last_read_at?: string;
+          last_delivered_message_at?: string;
+          marked_unread?: boolean;
+          muted?: boolean;
         };
         Update: {
           id?: string;
@@ -30,6 +42,12 @@ export interface Database {
           user_id?: string;
           role?: 'admin' | 'member';
           created_at?: string;
+          last_read_message_id?: string | null;
+          last_read_message_at?: string;
+          last_read_at?: string;
+          last_delivered_message_at?: string;
+          marked_unread?: boolean;
+          muted?: boolean;
         };
       };
       chats: {
@@ -39,6 +57,8 @@ export interface Database {
           name: string | null;
           avatar_url: string | null;
           created_at: string;
+          message_ttl: number | null;
+          description: string | null;
         };
         Insert: {
           id?: string;
@@ -46,6 +66,8 @@ export interface Database {
           name?: string | null;
           avatar_url?: string | null;
           created_at?: string;
+          message_ttl?: number | null;
+          description?: string | null;
         };
         Update: {
           id?: string;
@@ -53,6 +75,8 @@ export interface Database {
           name?: string | null;
           avatar_url?: string | null;
           created_at?: string;
+          message_ttl?: number | null;
+          description?: string | null;
         };
       };
       messages: {
@@ -61,21 +85,316 @@ export interface Database {
           chat_id: string;
           sender_id: string;
           content: string;
+          type: 'text' | 'image' | 'video' | 'file' | 'system' | 'poll' | 'action';
           created_at: string;
+          updated_at: string;
+          edited_at: string | null;
+          reply_to: string | null;
+          thread_root_id: string | null;
+          reply_count: number;
+          deleted_at: string | null;
+          mentions: string[];
+          expires_at: string | null;
+          file_name: string | null;
+          file_size: number | null;
+          mime_type: string | null;
+          thumbnail_url: string | null;
+          placeholder: string | null;
+          width: number | null;
+          height: number | null;
+          caption: string | null;
+          album_id: string | null;
+          has_link: boolean;
+          link_preview: Json | null;
+          forwarded_from: string | null;
+          forward_count: number;
         };
         Insert: {
           id?: string;
           chat_id: string;
           sender_id: string;
           content: string;
+          type?: 'text' | 'image' | 'video' | 'file' | 'system' | 'poll' | 'action';
           created_at?: string;
+          updated_at?: string;
+          edited_at?: string | null;
+          reply_to?: string | null;
+          thread_root_id?: string | null;
+          reply_count?: number;
+          deleted_at?: string | null;
+          mentions?: string[];
+          expires_at?: string | null;
+          file_name?: string | null;
+          file_size?: number | null;
+          mime_type?: string | null;
+          thumbnail_url?: string | null;
+          placeholder?: string | null;
+          width?: number | null;
+          height?: number | null;
+          caption?: string | null;
+          album_id?: string | null;
+          link_preview?: Json | null;
+          forwarded_from?: string | null;
+          forward_count?: number;
         };
         Update: {
           id?: string;
           chat_id?: string;
           sender_id?: string;
           content?: string;
+          type?: 'text' | 'image' | 'video' | 'file' | 'system' | 'poll' | 'action';
           created_at?: string;
+          updated_at?: string;
+          edited_at?: string | null;
+          reply_to?: string | null;
+          thread_root_id?: string | null;
+          reply_count?: number;
+          deleted_at?: string | null;
+          mentions?: string[];
+          expires_at?: string | null;
+          file_name?: string | null;
+          file_size?: number | null;
+          mime_type?: string | null;
+          thumbnail_url?: string | null;
+          placeholder?: string | null;
+          width?: number | null;
+          height?: number | null;
+          caption?: string | null;
+          album_id?: string | null;
+          link_preview?: Json | null;
+          forwarded_from?: string | null;
+          forward_count?: number;
+        };
+      };
+      message_edits: {
+        Row: {
+          id: string;
+          message_id: string;
+          chat_id: string;
+          previous_content: string;
+          edited_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          chat_id: string;
+          previous_content: string;
+          edited_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          chat_id?: string;
+          previous_content?: string;
+          edited_at?: string;
+        };
+      };
+      message_reactions: {
+        Row: {
+          id: string;
+          message_id: string;
+          chat_id: string;
+          user_id: string;
+          emoji: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          chat_id: string;
+          user_id: string;
+          emoji: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          chat_id?: string;
+          user_id?: string;
+          emoji?: string;
+          created_at?: string;
+        };
+      };
+      hidden_messages: {
+        Row: {
+          message_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          message_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          message_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      notifications: {
+        Row: {
+          id: string;
+          user_id: string;
+          chat_id: string;
+          message_id: string;
+          kind: 'message' | 'mention';
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          chat_id: string;
+          message_id: string;
+          kind: 'message' | 'mention';
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          chat_id?: string;
+          message_id?: string;
+          kind?: 'message' | 'mention';
+          created_at?: string;
+        };
+      };
+      scheduled_messages: {
+        Row: {
+          id: string;
+          chat_id: string;
+          sender_id: string;
+          content: string;
+          mentions: string[];
+          send_at: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          chat_id: string;
+          sender_id: string;
+          content: string;
+          mentions?: string[];
+          send_at: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          chat_id?: string;
+          sender_id?: string;
+          content?: string;
+          mentions?: string[];
+          send_at?: string;
+          created_at?: string;
+        };
+      };
+      polls: {
+        Row: {
+          id: string;
+          message_id: string;
+          chat_id: string;
+          created_by: string;
+          question: string;
+          multiple_choice: boolean;
+          anonymous: boolean;
+          closes_at: string | null;
+          closed_at: string | null;
+          voter_count: number;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          message_id: string;
+          chat_id: string;
+          created_by: string;
+          question: string;
+          multiple_choice?: boolean;
+          anonymous?: boolean;
+          closes_at?: string | null;
+          closed_at?: string | null;
+          voter_count?: number;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          message_id?: string;
+          chat_id?: string;
+          created_by?: string;
+          question?: string;
+          multiple_choice?: boolean;
+          anonymous?: boolean;
+          closes_at?: string | null;
+          closed_at?: string | null;
+          voter_count?: number;
+          created_at?: string;
+        };
+      };
+      poll_options: {
+        Row: {
+          id: string;
+          poll_id: string;
+          chat_id: string;
+          position: number;
+          text: string;
+          vote_count: number;
+        };
+        Insert: {
+          id?: string;
+          poll_id: string;
+          chat_id: string;
+          position: number;
+          text: string;
+          vote_count?: number;
+        };
+        Update: {
+          id?: string;
+          poll_id?: string;
+          chat_id?: string;
+          position?: number;
+          text?: string;
+          vote_count?: number;
+        };
+      };
+      poll_votes: {
+        Row: {
+          poll_id: string;
+          option_id: string;
+          chat_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          poll_id: string;
+          option_id: string;
+          chat_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          poll_id?: string;
+          option_id?: string;
+          chat_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      message_drafts: {
+        Row: {
+          user_id: string;
+          chat_id: string;
+          content: string;
+          updated_at: string;
+        };
+        Insert: {
+          user_id: string;
+          chat_id: string;
+          content?: string;
+          updated_at?: string;
+        };
+        Update: {
+          user_id?: string;
+          chat_id?: string;
+          content?: string;
+          updated_at?: string;
         };
       };
       profiles: {
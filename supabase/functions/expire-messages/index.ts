@@ -0,0 +1,57 @@
+// Deletes expired disappearing messages together with their chat-media
+// files. Called every few minutes by the expire-messages cron job.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+
+const CHAT_MEDIA_BUCKET = 'chat-media';
+const BATCH_SIZE = 500;
+// Stop after this many batches; the next run picks up the rest
+const MAX_BATCHES = 20;
+
+interface ExpiredMessage {
+  message_id: string;
+  media_path: string | null;
+  thumbnail_path: string | null;
+}
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  let deleted = 0;
+  let removedFiles = 0;
+
+  for (let batch = 0; batch < MAX_BATCHES; batch++) {
+    const { data, error } = await supabase.rpc('delete_expired_messages', { p_limit: BATCH_SIZE });
+    if (error) {
+      console.error('Error deleting expired messages:', error);
+      return Response.json({ error: error.message, deleted, removedFiles }, { status: 500 });
+    }
+
+    const rows = (data || []) as ExpiredMessage[];
+    deleted += rows.length;
+
+    // The messages are already gone, so a failed removal only leaves an
+    // orphaned file behind; log it and carry on
+    const paths = rows
+      .flatMap((row) => [row.media_path, row.thumbnail_path])
+      .flatMap((path) => (path ? [decodeURIComponent(path)] : []));
+    if (paths.length > 0) {
+      const { error: storageError } = await supabase.storage.from(CHAT_MEDIA_BUCKET).remove(paths);
+      if (storageError) {
+        console.error('Error removing expired media:', storageError);
+      } else {
+        removedFiles += paths.length;
+      }
+    }
+
+    if (rows.length < BATCH_SIZE) break;
+  }
+
+  return Response.json({ deleted, removedFiles });
+});
@@ -0,0 +1,132 @@
+// Builds the link preview for a message and stores it on the message, so
+// every reader gets it with the message itself. The preview image is copied
+// into chat-media, so readers' browsers never contact the linked site.
+// Called by the on_message_link_* triggers with the id of a new or edited
+// text message.
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { LinkPreview, fetchLinkPreview, fetchPreviewImage } from './preview.ts';
+
+const CHAT_MEDIA_BUCKET = 'chat-media';
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
+
+// Successful previews are refetched after a week, failures after a day
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Same bare-link rule as the client's markdown parser
+const URL_PATTERN = /(?:^|[^\p{L}\p{N}_])((?:https?:\/\/|www\.)[\w-]+(?:\.[\w-]+)+(?:[/?#][^\s<>"]*)?)/iu;
+const TRAILING_PUNCTUATION = /[.,;:!?)\]'"]+$/;
+
+// Lets the function reach a local fixture server when testing
+const allowPrivateHosts = Deno.env.get('LINK_PREVIEW_ALLOW_PRIVATE_HOSTS') === 'true';
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey, {
+  auth: { persistSession: false },
+});
+
+function findFirstLink(content: string) {
+  const match = content.match(URL_PATTERN);
+  if (!match) return null;
+  const url = match[1].replace(TRAILING_PUNCTUATION, '');
+  return /^https?:\/\//i.test(url) ? url : `https://${url}`;
+}
+
+const storedImagePrefix = supabase.storage.from(CHAT_MEDIA_BUCKET).getPublicUrl('link-previews/').data.publicUrl;
+
+// Copies the image into link-previews/, named after a hash of its URL so
+// previews sharing an image share the copy. Returns the public URL, or null
+// if the image couldn't be fetched; the preview is shown without it then.
+async function storeImage(imageUrl: string) {
+  try {
+    const image = await fetchPreviewImage(imageUrl, { allowPrivateHosts });
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(imageUrl));
+    const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('');
+    const path = `link-previews/${hash}.${IMAGE_EXTENSIONS[image.contentType]}`;
+    const { error } = await supabase.storage
+      .from(CHAT_MEDIA_BUCKET)
+      .upload(path, image.bytes, { contentType: image.contentType, upsert: true });
+    if (error) throw error;
+    return supabase.storage.from(CHAT_MEDIA_BUCKET).getPublicUrl(path).data.publicUrl;
+  } catch (error) {
+    console.error(`Error storing preview image ${imageUrl}:`, error);
+    return null;
+  }
+}
+
+async function getPreview(url: string): Promise<LinkPreview | null> {
+  const { data: cached } = await supabase
+    .from('link_previews')
+    .select('preview, fetched_at')
+    .eq('url', url)
+    .maybeSingle();
+  if (cached) {
+    const age = Date.now() - new Date(cached.fetched_at).getTime();
+    // Previews cached before images were stored still point at the site
+    const imageStored = !cached.preview?.image || cached.preview.image.startsWith(storedImagePrefix);
+    if (imageStored && age < (cached.preview ? CACHE_TTL_MS : FAILED_CACHE_TTL_MS)) return cached.preview;
+  }
+
+  let preview: LinkPreview | null = null;
+  try {
+    preview = await fetchLinkPreview(url, { allowPrivateHosts });
+    if (preview?.image) preview = { ...preview, image: await storeImage(preview.image) };
+  } catch (error) {
+    console.error(`Error fetching preview for ${url}:`, error);
+  }
+
+  const { error } = await supabase
+    .from('link_previews')
+    .upsert({ url, preview, fetched_at: new Date().toISOString() });
+  if (error) console.error('Error caching link preview:', error);
+
+  return preview;
+}
+
+Deno.serve(async (req) => {
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  const { message_id: messageId } = await req.json().catch(() => ({}));
+  if (typeof messageId !== 'string') {
+    return Response.json({ error: 'message_id is required' }, { status: 400 });
+  }
+
+  const { data: message, error } = await supabase
+    .from('messages')
+    .select('id, type, content, deleted_at')
+    .eq('id', messageId)
+    .maybeSingle();
+  if (error) {
+    console.error('Error loading message:', error);
+    return Response.json({ error: error.message }, { status: 500 });
+  }
+  if (!message || message.type !== 'text' || message.deleted_at) {
+    return Response.json({ preview: null });
+  }
+
+  const url = findFirstLink(message.content);
+  const preview = url ? await getPreview(url) : null;
+  if (!preview) return Response.json({ preview: null });
+
+  // Only store it if the message wasn't edited meanwhile; the edit has
+  // requested its own preview
+  const { error: updateError } = await supabase
+    .from('messages')
+    .update({ link_preview: preview })
+    .eq('id', message.id)
+    .eq('content', message.content);
+  if (updateError) {
+    console.error('Error saving link preview:', updateError);
+    return Response.json({ error: updateError.message }, { status: 500 });
+  }
+
+  return Response.json({ preview });
+});
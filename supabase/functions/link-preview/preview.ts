@@ -0,0 +1,328 @@
+// Fetches a page and extracts its Open Graph / Twitter card metadata, and
+// downloads preview images so they can be served from our own storage.
+// Nothing here depends on Supabase, so it can be pointed at a local fixture
+// server (see preview_test.ts) to check parsing, redirects and the limits.
+
+export interface LinkPreview {
+  url: string;
+  title: string | null;
+  description: string | null;
+  image: string | null;
+  site_name: string | null;
+}
+
+export interface FetchPreviewOptions {
+  timeoutMs?: number;
+  // Bytes of the page read at most; metadata lives in the <head>
+  maxBytes?: number;
+  // Larger images are dropped rather than cut off
+  maxImageBytes?: number;
+  maxRedirects?: number;
+  // Off in production so links can't reach internal services
+  allowPrivateHosts?: boolean;
+  // Origins exempt from the private host check, such as a test's fixture
+  // server; redirects from them are still checked
+  trustedOrigins?: string[];
+}
+
+export interface PreviewImage {
+  bytes: Uint8Array;
+  contentType: string;
+}
+
+export class PreviewError extends Error {}
+
+const DEFAULT_OPTIONS: Required<FetchPreviewOptions> = {
+  timeoutMs: 5000,
+  maxBytes: 512 * 1024,
+  maxImageBytes: 2 * 1024 * 1024,
+  maxRedirects: 3,
+  allowPrivateHosts: false,
+  trustedOrigins: [],
+};
+
+// SVG is left out as it can carry scripts
+const IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; ChatLinkPreview/1.0)';
+const MAX_TITLE_LENGTH = 300;
+const MAX_DESCRIPTION_LENGTH = 500;
+
+function isPrivateIPv4([a, b]: number[]) {
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 0) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) ||
+    a >= 224
+  );
+}
+
+function parseIPv4(address: string) {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every((part) => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+}
+
+// The eight 16-bit groups of an IPv6 address in any of its spellings
+// (compressed, or with a dotted IPv4 tail), or null if it isn't one
+function parseIPv6(address: string) {
+  let text = address;
+  const tail = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (tail) {
+    const ipv4 = parseIPv4(tail[2]);
+    if (!ipv4) return null;
+    text = `${tail[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split('::');
+  if (halves.length > 2) return null;
+  const toGroups = (part: string) => (part ? part.split(':') : []);
+  const head = toGroups(halves[0]);
+  const rest = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - rest.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...rest];
+  if (!groups.every((group) => /^[\da-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+}
+
+function isPrivateIPv6(groups: number[]) {
+  const embeddedIPv4 = (high: number, low: number) => [high >> 8, high & 0xff, low >> 8, low & 0xff];
+  // IPv4-mapped (::ffff:0:0/96); new URL() writes these in hex, e.g.
+  // [::ffff:a9fe:a9fe] for 169.254.169.254
+  if (groups.slice(0, 5).every((group) => group === 0) && groups[5] === 0xffff) {
+    return isPrivateIPv4(embeddedIPv4(groups[6], groups[7]));
+  }
+  // 6to4 (2002::/16) carries an IPv4 address in its prefix
+  if (groups[0] === 0x2002) return isPrivateIPv4(embeddedIPv4(groups[1], groups[2]));
+  return (
+    // ::, ::1 and the deprecated IPv4-compatible ::/96
+    groups.slice(0, 6).every((group) => group === 0) ||
+    // NAT64 (64:ff9b::/96 and 64:ff9b:1::/48) reaches IPv4 hosts through a gateway
+    (groups[0] === 0x64 && groups[1] === 0xff9b) ||
+    // Teredo
+    (groups[0] === 0x2001 && groups[1] === 0) ||
+    // Unique local, link-local, site-local and multicast
+    (groups[0] & 0xfe00) === 0xfc00 ||
+    (groups[0] & 0xffc0) === 0xfe80 ||
+    (groups[0] & 0xffc0) === 0xfec0 ||
+    (groups[0] & 0xff00) === 0xff00
+  );
+}
+
+// Anything that isn't a well-formed public address counts as private
+export function isPrivateAddress(ip: string) {
+  const address = ip.toLowerCase().replace(/^\[|\]$/g, '').replace(/%.*$/, '');
+  const ipv4 = parseIPv4(address);
+  if (ipv4) return isPrivateIPv4(ipv4);
+  const ipv6 = parseIPv6(address);
+  return ipv6 ? isPrivateIPv6(ipv6) : true;
+}
+
+// Checks where the host resolves before connecting, on every redirect hop. A
+// host could still re-resolve between this check and the fetch; the timeout
+// and size limit bound what that can do.
+async function assertPublicHost(url: URL) {
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) {
+    throw new PreviewError('Private host');
+  }
+  const isAddress = /^[\d.]+$/.test(host) || host.includes(':');
+  const addresses = isAddress
+    ? [host]
+    : [
+        ...(await Deno.resolveDns(host, 'A').catch(() => [])),
+        ...(await Deno.resolveDns(host, 'AAAA').catch(() => [])),
+      ];
+  if (addresses.length === 0) throw new PreviewError('Host not found');
+  if (addresses.some(isPrivateAddress)) throw new PreviewError('Private host');
+}
+
+// Reads at most maxBytes of the body; truncated is set if there was more
+async function readBytes(response: Response, maxBytes: number) {
+  const reader = response.body?.getReader();
+  if (!reader) return { bytes: new Uint8Array(), truncated: false };
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  let truncated = false;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+    if (size > maxBytes) {
+      truncated = true;
+      break;
+    }
+  }
+  await reader.cancel().catch(() => {});
+
+  const bytes = new Uint8Array(Math.min(size, maxBytes));
+  let offset = 0;
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset);
+    bytes.set(part, offset);
+    offset += part.length;
+  }
+  return { bytes, truncated };
+}
+
+async function readText(response: Response, maxBytes: number) {
+  const { bytes } = await readBytes(response, maxBytes);
+  const charset = response.headers.get('content-type')?.match(/charset=([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+// Follows redirects by hand so every hop gets the host check, and returns
+// the first successful response
+async function fetchChecked(url: string, accept: string, options: Required<FetchPreviewOptions>) {
+  const signal = AbortSignal.timeout(options.timeoutMs);
+  let current = new URL(url);
+
+  for (let redirects = 0; ; redirects++) {
+    if (current.protocol !== 'http:' && current.protocol !== 'https:') {
+      throw new PreviewError('Unsupported protocol');
+    }
+    if (!options.allowPrivateHosts && !options.trustedOrigins.includes(current.origin)) {
+      await assertPublicHost(current);
+    }
+
+    const response = await fetch(current, {
+      redirect: 'manual',
+      signal,
+      headers: { 'User-Agent': USER_AGENT, Accept: accept },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (redirects >= options.maxRedirects) throw new PreviewError('Too many redirects');
+      current = new URL(location, current);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new PreviewError(`HTTP ${response.status}`);
+    }
+
+    return { url: current.toString(), response };
+  }
+}
+
+async function fetchPage(url: string, options: Required<FetchPreviewOptions>) {
+  const { url: pageUrl, response } = await fetchChecked(url, 'text/html,application/xhtml+xml', options);
+  const contentType = response.headers.get('content-type') || '';
+  if (!/text\/html|application\/xhtml\+xml/i.test(contentType)) {
+    await response.body?.cancel();
+    throw new PreviewError('Not an HTML page');
+  }
+  return { url: pageUrl, html: await readText(response, options.maxBytes) };
+}
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      try {
+        return String.fromCodePoint(point);
+      } catch {
+        return entity;
+      }
+    }
+    return ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function clean(text: string | undefined, maxLength: number) {
+  if (!text) return null;
+  const value = decodeEntities(text).replace(/\s+/g, ' ').trim();
+  if (!value) return null;
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}…` : value;
+}
+
+function resolveUrl(value: string | undefined, base: string) {
+  if (!value) return null;
+  try {
+    const url = new URL(decodeEntities(value.trim()), base);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+// Reads <meta property|name=... content=...> and <title> from the page head
+export function parseMetadata(html: string, pageUrl: string): LinkPreview | null {
+  const headEnd = html.search(/<\/head>/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+
+  const meta: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes: Record<string, string> = {};
+    for (const match of tag.matchAll(/([\w:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g)) {
+      attributes[match[1].toLowerCase()] = match[2] ?? match[3] ?? match[4] ?? '';
+    }
+    const key = (attributes.property || attributes.name || '').toLowerCase();
+    if (key && attributes.content !== undefined && !(key in meta)) meta[key] = attributes.content;
+  }
+  const titleTag = head.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+
+  const title = clean(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE_LENGTH);
+  const description = clean(
+    meta['og:description'] || meta['twitter:description'] || meta.description,
+    MAX_DESCRIPTION_LENGTH
+  );
+  const image = resolveUrl(
+    meta['og:image:secure_url'] || meta['og:image'] || meta['twitter:image'] || meta['twitter:image:src'],
+    pageUrl
+  );
+  if (!title && !description && !image) return null;
+
+  return {
+    url: pageUrl,
+    title,
+    description,
+    image,
+    site_name: clean(meta['og:site_name'], MAX_TITLE_LENGTH) || new URL(pageUrl).hostname.replace(/^www\./, ''),
+  };
+}
+
+export async function fetchLinkPreview(url: string, options: FetchPreviewOptions = {}) {
+  const page = await fetchPage(url, { ...DEFAULT_OPTIONS, ...options });
+  return parseMetadata(page.html, page.url);
+}
+
+// Downloads a preview's image with the same checks as the page, so it can be
+// stored and readers never load it from the linked site
+export async function fetchPreviewImage(url: string, options: FetchPreviewOptions = {}): Promise<PreviewImage> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const { response } = await fetchChecked(url, IMAGE_TYPES.join(','), settings);
+  const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  if (!IMAGE_TYPES.includes(contentType)) {
+    await response.body?.cancel();
+    throw new PreviewError('Not a supported image');
+  }
+  const { bytes, truncated } = await readBytes(response, settings.maxImageBytes);
+  if (truncated) throw new PreviewError('Image too large');
+  return { bytes, contentType };
+}
@@ -0,0 +1,118 @@
+// Runs preview building against a local fixture server:
+//   deno test --allow-net supabase/functions/link-preview/preview_test.ts
+import assert from 'node:assert/strict';
+import { PreviewError, fetchLinkPreview, fetchPreviewImage, isPrivateAddress } from './preview.ts';
+
+const PAGE = `<!doctype html>
+<html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Fixture &amp; friends">
+  <meta property="og:description" content="A page served by the test">
+  <meta property="og:image" content="/image.png">
+</head><body></body></html>`;
+
+// A valid 1×1 PNG
+const PNG = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='),
+  (char) => char.charCodeAt(0)
+);
+
+const routes: Record<string, () => Response> = {
+  '/page': () => new Response(PAGE, { headers: { 'content-type': 'text/html; charset=utf-8' } }),
+  '/redirect': () => Response.redirect(`${origin}/page`, 302),
+  '/redirect-mapped': () => Response.redirect('http://[::ffff:169.254.169.254]/latest/meta-data/', 302),
+  '/redirect-nat64': () => Response.redirect('http://[64:ff9b::a9fe:a9fe]/', 302),
+  '/redirect-localhost': () => Response.redirect(`http://localhost:${port}/page`, 302),
+  '/redirect-loop': () => Response.redirect(`${origin}/redirect-loop`, 302),
+  // The metadata only starts after the first kilobyte
+  '/large': () =>
+    new Response(`<html><head><!-- ${'x'.repeat(4096)} --><meta property="og:title" content="Too late"></head></html>`, {
+      headers: { 'content-type': 'text/html' },
+    }),
+  '/json': () => Response.json({ title: 'Not a page' }),
+  '/image.png': () => new Response(PNG, { headers: { 'content-type': 'image/png' } }),
+  '/large.png': () => new Response(new Uint8Array(4096), { headers: { 'content-type': 'image/png' } }),
+  '/image.svg': () => new Response('<svg xmlns="http://www.w3.org/2000/svg"/>', { headers: { 'content-type': 'image/svg+xml' } }),
+};
+
+const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen: () => {} }, (req) => {
+  const route = routes[new URL(req.url).pathname];
+  return route ? route() : new Response('Not found', { status: 404 });
+});
+const port = server.addr.port;
+const origin = `http://127.0.0.1:${port}`;
+// Only the fixture itself is exempt from the private host check
+const options = { trustedOrigins: [origin] };
+
+const rejectsWith = (promise: Promise<unknown>, message: string) =>
+  assert.rejects(promise, (error) => error instanceof PreviewError && error.message === message);
+
+Deno.test('builds a preview from Open Graph tags', async () => {
+  assert.deepEqual(await fetchLinkPreview(`${origin}/page`, options), {
+    url: `${origin}/page`,
+    title: 'Fixture & friends',
+    description: 'A page served by the test',
+    image: `${origin}/image.png`,
+    site_name: '127.0.0.1',
+  });
+});
+
+Deno.test('follows redirects to the final page', async () => {
+  const preview = await fetchLinkPreview(`${origin}/redirect`, options);
+  assert.equal(preview?.url, `${origin}/page`);
+});
+
+Deno.test('refuses redirects to IPv4-mapped and NAT64 addresses', async () => {
+  await rejectsWith(fetchLinkPreview(`${origin}/redirect-mapped`, options), 'Private host');
+  await rejectsWith(fetchLinkPreview(`${origin}/redirect-nat64`, options), 'Private host');
+});
+
+Deno.test('checks the host on every redirect hop', async () => {
+  await rejectsWith(fetchLinkPreview(`${origin}/redirect-localhost`, options), 'Private host');
+});
+
+Deno.test('refuses private hosts without a trusted origin', async () => {
+  await rejectsWith(fetchLinkPreview(`${origin}/page`), 'Private host');
+});
+
+Deno.test('stops after too many redirects', async () => {
+  await rejectsWith(fetchLinkPreview(`${origin}/redirect-loop`, options), 'Too many redirects');
+});
+
+Deno.test('reads no further than the size limit', async () => {
+  assert.equal(await fetchLinkPreview(`${origin}/large`, { ...options, maxBytes: 1024 }), null);
+  assert.equal((await fetchLinkPreview(`${origin}/large`, options))?.title, 'Too late');
+});
+
+Deno.test('refuses content that is not HTML', async () => {
+  await rejectsWith(fetchLinkPreview(`${origin}/json`, options), 'Not an HTML page');
+});
+
+Deno.test('downloads preview images within the limits', async () => {
+  assert.deepEqual(await fetchPreviewImage(`${origin}/image.png`, options), { bytes: PNG, contentType: 'image/png' });
+  await rejectsWith(fetchPreviewImage(`${origin}/large.png`, { ...options, maxImageBytes: 1024 }), 'Image too large');
+  await rejectsWith(fetchPreviewImage(`${origin}/image.svg`, options), 'Not a supported image');
+});
+
+Deno.test('classifies addresses', () => {
+  const cases: Record<string, boolean> = {
+    '8.8.8.8': false,
+    '2606:4700:4700::1111': false,
+    '::ffff:808:808': false,
+    '127.0.0.1': true,
+    '169.254.169.254': true,
+    '198.18.0.1': true,
+    '::1': true,
+    '::ffff:a9fe:a9fe': true,
+    '::ffff:169.254.169.254': true,
+    '64:ff9b::808:808': true,
+    'fd00::1': true,
+    'fe80::1%eth0': true,
+    'not an address': true,
+  };
+  for (const [address, isPrivate] of Object.entries(cases)) {
+    assert.equal(isPrivateAddress(address), isPrivate, address);
+  }
+});
+
+globalThis.addEventListener('unload', () => server.shutdown());
@@ -0,0 +1,10 @@
+-- Composite index backing keyset pagination of messages.
+-- ChatWindow loads the newest page with
+--   ORDER BY created_at DESC, id DESC LIMIT n
+-- and pages backwards with (created_at, id) < (cursor_created_at, cursor_id),
+-- so both the filter and the sort can be served from this index.
+CREATE INDEX IF NOT EXISTS idx_messages_chat_created_at_id
+  ON messages(chat_id, created_at DESC, id DESC);
+
+-- Superseded by the composite index above
+DROP INDEX IF EXISTS idx_messages_chat_id;
@@ -0,0 +1,107 @@
+-- Track how far each member has read in every chat they belong to.
+--   last_read_message_id / last_read_message_at: the newest message the member
+--     has seen and its created_at, used as the unread cursor
+--   last_read_at: when the member last advanced their read position
+--   marked_unread: set by "mark as unread", cleared the next time the chat is read
+ALTER TABLE chat_members
+  ADD COLUMN IF NOT EXISTS last_read_message_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS last_read_message_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS last_read_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  ADD COLUMN IF NOT EXISTS marked_unread BOOLEAN NOT NULL DEFAULT false;
+
+-- Advance the caller's read position in a chat. Passing no message marks the
+-- whole chat as read. The position never moves backwards.
+CREATE OR REPLACE FUNCTION mark_chat_read(p_chat_id UUID, p_message_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_message_id UUID;
+    v_created_at TIMESTAMPTZ;
+BEGIN
+    IF p_message_id IS NULL THEN
+        SELECT id, created_at INTO v_message_id, v_created_at
+        FROM messages
+        WHERE chat_id = p_chat_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1;
+    ELSE
+        SELECT id, created_at INTO v_message_id, v_created_at
+        FROM messages
+        WHERE id = p_message_id
+        AND chat_id = p_chat_id;
+    END IF;
+
+    UPDATE chat_members
+    SET
+        last_read_message_id = CASE
+            WHEN v_created_at IS NOT NULL AND v_created_at >= last_read_message_at THEN v_message_id
+            ELSE last_read_message_id
+        END,
+        last_read_message_at = GREATEST(last_read_message_at, v_created_at),
+        last_read_at = CASE
+            WHEN v_created_at IS NOT NULL AND v_created_at > last_read_message_at THEN NOW()
+            ELSE last_read_at
+        END,
+        marked_unread = false
+    WHERE chat_id = p_chat_id
+    AND user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_chat_unread(p_chat_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE chat_members
+    SET marked_unread = true
+    WHERE chat_id = p_chat_id
+    AND user_id = auth.uid();
+END;
+$$;
+
+-- Unread counts for every chat the caller belongs to. Messages the caller
+-- sent are never counted as unread.
+CREATE OR REPLACE FUNCTION get_unread_counts()
+RETURNS TABLE (chat_id UUID, unread_count BIGINT, marked_unread BOOLEAN)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        cm.chat_id,
+        (
+            SELECT count(*)
+            FROM messages m
+            WHERE m.chat_id = cm.chat_id
+            AND m.sender_id <> cm.user_id
+            AND m.created_at > cm.last_read_message_at
+        ) AS unread_count,
+        cm.marked_unread
+    FROM chat_members cm
+    WHERE cm.user_id = auth.uid();
+$$;
+
+GRANT EXECUTE ON FUNCTION mark_chat_read TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_chat_unread TO authenticated;
+GRANT EXECUTE ON FUNCTION get_unread_counts TO authenticated;
+
+-- The sidebar listens for chat_members changes to refresh badges
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'chat_members'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE chat_members;
+    END IF;
+END;
+$$;
@@ -0,0 +1,167 @@
+-- Delivery cursor alongside the read cursor from 20250614000001:
+-- every message created at or before last_delivered_message_at has reached
+-- one of the member's clients
+ALTER TABLE chat_members
+  ADD COLUMN IF NOT EXISTS last_delivered_message_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+-- Append-only log of cursor advances. The cursors on chat_members only say how
+-- far a member has got; this log records when each advance happened so the
+-- message info sheet can show per-member delivered/read times.
+CREATE TABLE IF NOT EXISTS receipt_events (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('delivered', 'read')),
+  through_message_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_receipt_events_chat_user
+  ON receipt_events(chat_id, user_id, through_message_at);
+
+ALTER TABLE receipt_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view receipts in their chats"
+  ON receipt_events FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = receipt_events.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+-- Mark everything currently in the caller's chats as delivered
+CREATE OR REPLACE FUNCTION mark_chats_delivered()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    WITH latest AS (
+        SELECT cm.id AS member_id, newest.created_at
+        FROM chat_members cm
+        CROSS JOIN LATERAL (
+            SELECT m.created_at
+            FROM messages m
+            WHERE m.chat_id = cm.chat_id
+            ORDER BY m.created_at DESC, m.id DESC
+            LIMIT 1
+        ) newest
+        WHERE cm.user_id = auth.uid()
+    ),
+    advanced AS (
+        UPDATE chat_members cm
+        SET last_delivered_message_at = latest.created_at
+        FROM latest
+        WHERE cm.id = latest.member_id
+        AND latest.created_at > cm.last_delivered_message_at
+        RETURNING cm.chat_id, cm.user_id, cm.last_delivered_message_at
+    )
+    INSERT INTO receipt_events (chat_id, user_id, kind, through_message_at)
+    SELECT chat_id, user_id, 'delivered', last_delivered_message_at
+    FROM advanced;
+END;
+$$;
+
+-- Same as 20250614000001 but reading a message also counts as delivering it,
+-- and every advance is logged to receipt_events
+CREATE OR REPLACE FUNCTION mark_chat_read(p_chat_id UUID, p_message_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_message_id UUID;
+    v_created_at TIMESTAMPTZ;
+    v_advanced BOOLEAN;
+BEGIN
+    IF p_message_id IS NULL THEN
+        SELECT id, created_at INTO v_message_id, v_created_at
+        FROM messages
+        WHERE chat_id = p_chat_id
+        ORDER BY created_at DESC, id DESC
+        LIMIT 1;
+    ELSE
+        SELECT id, created_at INTO v_message_id, v_created_at
+        FROM messages
+        WHERE id = p_message_id
+        AND chat_id = p_chat_id;
+    END IF;
+
+    SELECT v_created_at > last_read_message_at INTO v_advanced
+    FROM chat_members
+    WHERE chat_id = p_chat_id
+    AND user_id = auth.uid();
+
+    UPDATE chat_members
+    SET
+        last_read_message_id = CASE
+            WHEN v_created_at IS NOT NULL AND v_created_at >= last_read_message_at THEN v_message_id
+            ELSE last_read_message_id
+        END,
+        last_read_message_at = GREATEST(last_read_message_at, v_created_at),
+        last_delivered_message_at = GREATEST(last_delivered_message_at, v_created_at),
+        last_read_at = CASE WHEN v_advanced THEN NOW() ELSE last_read_at END,
+        marked_unread = false
+    WHERE chat_id = p_chat_id
+    AND user_id = auth.uid();
+
+    IF v_advanced THEN
+        INSERT INTO receipt_events (chat_id, user_id, kind, through_message_at)
+        VALUES (p_chat_id, auth.uid(), 'read', v_created_at);
+    END IF;
+END;
+$$;
+
+-- Per-member delivered/read times for a single message. Members whose
+-- cursors passed the message before receipts were logged get a NULL time.
+CREATE OR REPLACE FUNCTION get_message_receipts(p_message_id UUID)
+RETURNS TABLE (
+    user_id UUID,
+    delivered BOOLEAN,
+    delivered_at TIMESTAMPTZ,
+    read BOOLEAN,
+    read_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    SELECT
+        cm.user_id,
+        cm.last_delivered_message_at >= m.created_at AS delivered,
+        (
+            SELECT min(e.created_at)
+            FROM receipt_events e
+            WHERE e.chat_id = m.chat_id
+            AND e.user_id = cm.user_id
+            AND e.through_message_at >= m.created_at
+        ) AS delivered_at,
+        cm.last_read_message_at >= m.created_at AS read,
+        (
+            SELECT min(e.created_at)
+            FROM receipt_events e
+            WHERE e.chat_id = m.chat_id
+            AND e.user_id = cm.user_id
+            AND e.kind = 'read'
+            AND e.through_message_at >= m.created_at
+        ) AS read_at
+    FROM messages m
+    JOIN chat_members cm ON cm.chat_id = m.chat_id
+    WHERE m.id = p_message_id
+    AND cm.user_id <> m.sender_id
+    AND EXISTS (
+        SELECT 1 FROM chat_members me
+        WHERE me.chat_id = m.chat_id
+        AND me.user_id = auth.uid()
+    );
+$$;
+
+GRANT SELECT ON receipt_events TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_chats_delivered TO authenticated;
+GRANT EXECUTE ON FUNCTION mark_chat_read TO authenticated;
+GRANT EXECUTE ON FUNCTION get_message_receipts TO authenticated;
@@ -0,0 +1,75 @@
+-- The client has always sent a message type ('text', 'image', 'video') but the
+-- recreated table in 20240321000026 never declared it
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS type TEXT NOT NULL DEFAULT 'text',
+  ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ;
+
+-- Previous versions of edited messages, newest last
+CREATE TABLE IF NOT EXISTS message_edits (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  previous_content TEXT NOT NULL,
+  edited_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_edits_message_id ON message_edits(message_id, edited_at);
+
+ALTER TABLE message_edits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view edit history in their chats"
+  ON message_edits FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = message_edits.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+-- Validate edits and record the replaced content.
+-- The edit window is optional and configured per database, e.g.
+--   ALTER DATABASE postgres SET app.message_edit_window = '15 minutes';
+-- Leave it unset to allow editing at any time.
+CREATE OR REPLACE FUNCTION handle_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_edit_window TEXT := NULLIF(current_setting('app.message_edit_window', true), '');
+BEGIN
+    IF NEW.chat_id <> OLD.chat_id
+        OR NEW.sender_id <> OLD.sender_id
+        OR NEW.created_at <> OLD.created_at
+        OR NEW.type <> OLD.type THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        IF OLD.type <> 'text' THEN
+            RAISE EXCEPTION 'Only text messages can be edited';
+        END IF;
+
+        IF v_edit_window IS NOT NULL AND OLD.created_at + v_edit_window::interval < NOW() THEN
+            RAISE EXCEPTION 'Messages can only be edited within %', v_edit_window;
+        END IF;
+
+        INSERT INTO message_edits (message_id, chat_id, previous_content)
+        VALUES (OLD.id, OLD.chat_id, OLD.content);
+
+        NEW.edited_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_edit ON messages;
+CREATE TRIGGER on_message_edit
+  BEFORE UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_message_edit();
+
+GRANT SELECT ON message_edits TO authenticated;
@@ -0,0 +1,119 @@
+-- Restore replies, which the original schema documented but the recreated
+-- messages table in 20240321000026 dropped.
+--   reply_to: the message being quoted
+--   thread_root_id: the first message of the reply chain, set by trigger
+--   reply_count: number of messages whose thread_root_id is this message
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS reply_to UUID REFERENCES messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS thread_root_id UUID REFERENCES messages(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS reply_count INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_messages_thread_root_id
+  ON messages(thread_root_id, created_at)
+  WHERE thread_root_id IS NOT NULL;
+
+-- Resolve the thread a new reply belongs to
+CREATE OR REPLACE FUNCTION set_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_id UUID;
+    v_root_id UUID;
+BEGIN
+    NEW.reply_count = 0;
+    NEW.thread_root_id = NULL;
+
+    IF NEW.reply_to IS NOT NULL THEN
+        SELECT chat_id, COALESCE(thread_root_id, id) INTO v_chat_id, v_root_id
+        FROM messages
+        WHERE id = NEW.reply_to;
+
+        IF v_chat_id IS NULL OR v_chat_id <> NEW.chat_id THEN
+            RAISE EXCEPTION 'Replies must be in the same chat as the original message';
+        END IF;
+
+        NEW.thread_root_id = v_root_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_thread ON messages;
+CREATE TRIGGER on_message_thread
+  BEFORE INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_thread();
+
+-- Keep reply_count on the thread root in sync
+CREATE OR REPLACE FUNCTION update_thread_reply_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' AND NEW.thread_root_id IS NOT NULL THEN
+        UPDATE messages SET reply_count = reply_count + 1 WHERE id = NEW.thread_root_id;
+    ELSIF TG_OP = 'DELETE' AND OLD.thread_root_id IS NOT NULL THEN
+        UPDATE messages SET reply_count = GREATEST(reply_count - 1, 0) WHERE id = OLD.thread_root_id;
+    END IF;
+
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_reply_count ON messages;
+CREATE TRIGGER on_message_reply_count
+  AFTER INSERT OR DELETE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_thread_reply_count();
+
+-- Same as 20250614000003, but reply columns are maintained by triggers and
+-- cannot be changed directly by the sender
+CREATE OR REPLACE FUNCTION handle_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_edit_window TEXT := NULLIF(current_setting('app.message_edit_window', true), '');
+BEGIN
+    IF NEW.chat_id <> OLD.chat_id
+        OR NEW.sender_id <> OLD.sender_id
+        OR NEW.created_at <> OLD.created_at
+        OR NEW.type <> OLD.type THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    -- Nested updates come from the reply count trigger or ON DELETE SET NULL
+    IF pg_trigger_depth() = 1 AND (
+        NEW.reply_to IS DISTINCT FROM OLD.reply_to
+        OR NEW.thread_root_id IS DISTINCT FROM OLD.thread_root_id
+        OR NEW.reply_count <> OLD.reply_count
+    ) THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        IF OLD.type <> 'text' THEN
+            RAISE EXCEPTION 'Only text messages can be edited';
+        END IF;
+
+        IF v_edit_window IS NOT NULL AND OLD.created_at + v_edit_window::interval < NOW() THEN
+            RAISE EXCEPTION 'Messages can only be edited within %', v_edit_window;
+        END IF;
+
+        INSERT INTO message_edits (message_id, chat_id, previous_content)
+        VALUES (OLD.id, OLD.chat_id, OLD.content);
+
+        NEW.edited_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
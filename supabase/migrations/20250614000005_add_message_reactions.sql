@@ -0,0 +1,60 @@
+-- One row per (message, user, emoji). chat_id is copied from the message so
+-- policies and realtime filters don't need to join messages.
+CREATE TABLE IF NOT EXISTS message_reactions (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 32),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (message_id, user_id, emoji)
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_reactions_chat_id ON message_reactions(chat_id);
+
+ALTER TABLE message_reactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view reactions in their chats"
+  ON message_reactions FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = message_reactions.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can react to messages in their chats"
+  ON message_reactions FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = message_reactions.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      WHERE m.id = message_reactions.message_id
+      AND m.chat_id = message_reactions.chat_id
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions"
+  ON message_reactions FOR DELETE
+  USING (user_id = auth.uid());
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'message_reactions'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE message_reactions;
+    END IF;
+END;
+$$;
+
+GRANT SELECT, INSERT, DELETE ON message_reactions TO authenticated;
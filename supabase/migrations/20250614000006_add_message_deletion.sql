@@ -0,0 +1,130 @@
+-- Messages deleted for everyone stay as tombstones so replies, threads and
+-- receipts still line up; the trigger below wipes their content
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Messages a member has deleted for themselves only
+CREATE TABLE IF NOT EXISTS hidden_messages (
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (message_id, user_id)
+);
+
+ALTER TABLE hidden_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their hidden messages"
+  ON hidden_messages FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can hide messages in their chats"
+  ON hidden_messages FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM messages m
+      JOIN chat_membership_cache cmc ON cmc.chat_id = m.chat_id
+      WHERE m.id = hidden_messages.message_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can unhide their messages"
+  ON hidden_messages FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Hidden messages disappear for the member who hid them
+DROP POLICY IF EXISTS "Users can view messages in their chats" ON messages;
+CREATE POLICY "Users can view messages in their chats"
+  ON messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = messages.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM hidden_messages hm
+      WHERE hm.message_id = messages.id
+      AND hm.user_id = auth.uid()
+    )
+  );
+
+-- Hard deletes left no trace for the other members; deleting for everyone
+-- now means setting deleted_at
+DROP POLICY IF EXISTS "Users can delete their own messages" ON messages;
+
+-- Same as 20250614000004, plus tombstones: setting deleted_at clears the
+-- content, edit history and reactions, and a tombstone can't be changed
+-- afterwards (other than by the nested reply count update)
+CREATE OR REPLACE FUNCTION handle_message_edit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_edit_window TEXT := NULLIF(current_setting('app.message_edit_window', true), '');
+BEGIN
+    IF NEW.chat_id <> OLD.chat_id
+        OR NEW.sender_id <> OLD.sender_id
+        OR NEW.created_at <> OLD.created_at
+        OR NEW.type <> OLD.type THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    -- Nested updates come from the reply count trigger or ON DELETE SET NULL
+    IF pg_trigger_depth() = 1 AND (
+        NEW.reply_to IS DISTINCT FROM OLD.reply_to
+        OR NEW.thread_root_id IS DISTINCT FROM OLD.thread_root_id
+        OR NEW.reply_count <> OLD.reply_count
+    ) THEN
+        RAISE EXCEPTION 'Only the content of a message can be edited';
+    END IF;
+
+    IF OLD.deleted_at IS NOT NULL THEN
+        IF pg_trigger_depth() = 1 THEN
+            RAISE EXCEPTION 'Deleted messages cannot be changed';
+        END IF;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.deleted_at IS NOT NULL THEN
+        NEW.deleted_at = NOW();
+        NEW.content = '';
+        DELETE FROM message_edits WHERE message_id = OLD.id;
+        DELETE FROM message_reactions WHERE message_id = OLD.id;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.content IS DISTINCT FROM OLD.content THEN
+        IF OLD.type <> 'text' THEN
+            RAISE EXCEPTION 'Only text messages can be edited';
+        END IF;
+
+        IF v_edit_window IS NOT NULL AND OLD.created_at + v_edit_window::interval < NOW() THEN
+            RAISE EXCEPTION 'Messages can only be edited within %', v_edit_window;
+        END IF;
+
+        INSERT INTO message_edits (message_id, chat_id, previous_content)
+        VALUES (OLD.id, OLD.chat_id, OLD.content);
+
+        NEW.edited_at = NOW();
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Media is uploaded to chat-media under {chat_id}/{user_id}/; let senders
+-- remove their own files when a media message is deleted for everyone
+DROP POLICY IF EXISTS "Users can delete their own chat media" ON storage.objects;
+CREATE POLICY "Users can delete their own chat media"
+  ON storage.objects FOR DELETE
+  TO authenticated
+  USING (
+    bucket_id = 'chat-media'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+  );
+
+GRANT SELECT, INSERT, DELETE ON hidden_messages TO authenticated;
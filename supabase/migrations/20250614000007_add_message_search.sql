@@ -0,0 +1,57 @@
+-- Full-text index over message text. The 'simple' configuration doesn't stem
+-- or drop stop words, so it behaves the same for every language people chat
+-- in. Media messages store a URL as content and are left out.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+  GENERATED ALWAYS AS (
+    to_tsvector('simple', CASE WHEN type = 'text' THEN content ELSE '' END)
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_messages_search_vector
+  ON messages USING GIN (search_vector);
+
+-- Ranked search across every chat the caller can see. Runs with the caller's
+-- privileges so the messages policies decide what is visible: chats they are
+-- a member of, minus anything they deleted for themselves.
+--
+-- Snippets mark matches with <mark></mark>. The content is HTML-escaped
+-- first so those are the only tags the client ever has to look for.
+CREATE OR REPLACE FUNCTION search_messages(p_query TEXT, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+    id UUID,
+    chat_id UUID,
+    sender_id UUID,
+    sender_name TEXT,
+    created_at TIMESTAMPTZ,
+    snippet TEXT,
+    rank REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+    WITH search AS (
+        SELECT websearch_to_tsquery('simple', p_query) AS query
+    )
+    SELECT
+        m.id,
+        m.chat_id,
+        m.sender_id,
+        p.full_name AS sender_name,
+        m.created_at,
+        ts_headline(
+            'simple',
+            replace(replace(replace(m.content, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+            search.query,
+            'StartSel=<mark>, StopSel=</mark>, MinWords=8, MaxWords=24, MaxFragments=2, FragmentDelimiter=" ... "'
+        ) AS snippet,
+        ts_rank(m.search_vector, search.query) AS rank
+    FROM search
+    JOIN messages m ON m.search_vector @@ search.query
+    JOIN profiles p ON p.id = m.sender_id
+    WHERE m.deleted_at IS NULL
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT LEAST(GREATEST(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION search_messages TO authenticated;
@@ -0,0 +1,123 @@
+-- Members mentioned by a message. The content keeps the readable @username
+-- text; this array is what notifications, highlighting and the mentions
+-- filter go by.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS mentions UUID[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_messages_mentions
+  ON messages USING GIN (mentions);
+
+-- Muted chats don't notify, except when the member is mentioned
+ALTER TABLE chat_members
+  ADD COLUMN IF NOT EXISTS muted BOOLEAN NOT NULL DEFAULT false;
+
+-- Only other members of the chat can be mentioned, and mentions are fixed
+-- once the message is sent (editing only changes the text)
+CREATE OR REPLACE FUNCTION sanitize_message_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.mentions := OLD.mentions;
+        RETURN NEW;
+    END IF;
+
+    NEW.mentions := ARRAY(
+        SELECT DISTINCT cm.user_id
+        FROM chat_members cm
+        WHERE cm.chat_id = NEW.chat_id
+        AND cm.user_id = ANY(NEW.mentions)
+        AND cm.user_id <> NEW.sender_id
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_mentions ON messages;
+CREATE TRIGGER on_message_mentions
+  BEFORE INSERT OR UPDATE OF mentions ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION sanitize_message_mentions();
+
+-- One row per member to notify about a new message
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  message_id UUID NOT NULL REFERENCES messages(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('message', 'mention')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_id
+  ON notifications(user_id, created_at);
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can dismiss their own notifications"
+  ON notifications FOR DELETE
+  USING (user_id = auth.uid());
+
+CREATE OR REPLACE FUNCTION notify_chat_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    INSERT INTO notifications (user_id, chat_id, message_id, kind)
+    SELECT
+        cm.user_id,
+        NEW.chat_id,
+        NEW.id,
+        CASE WHEN cm.user_id = ANY(NEW.mentions) THEN 'mention' ELSE 'message' END
+    FROM chat_members cm
+    WHERE cm.chat_id = NEW.chat_id
+    AND cm.user_id <> NEW.sender_id
+    AND (NOT cm.muted OR cm.user_id = ANY(NEW.mentions));
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_notify ON messages;
+CREATE TRIGGER on_message_notify
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION notify_chat_members();
+
+CREATE OR REPLACE FUNCTION set_chat_muted(p_chat_id UUID, p_muted BOOLEAN)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE chat_members
+    SET muted = p_muted
+    WHERE chat_id = p_chat_id
+    AND user_id = auth.uid();
+END;
+$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'notifications'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE notifications;
+    END IF;
+END;
+$$;
+
+GRANT SELECT, DELETE ON notifications TO authenticated;
+GRANT EXECUTE ON FUNCTION set_chat_muted TO authenticated;
@@ -0,0 +1,111 @@
+-- Messages written now and posted into the chat at send_at. Only the sender
+-- can see them until then.
+CREATE TABLE IF NOT EXISTS scheduled_messages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  content TEXT NOT NULL CHECK (char_length(trim(content)) > 0),
+  mentions UUID[] NOT NULL DEFAULT '{}',
+  send_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_send_at ON scheduled_messages(send_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_messages_chat_sender ON scheduled_messages(chat_id, sender_id);
+
+ALTER TABLE scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their scheduled messages"
+  ON scheduled_messages FOR SELECT
+  USING (sender_id = auth.uid());
+
+CREATE POLICY "Users can schedule messages in their chats"
+  ON scheduled_messages FOR INSERT
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND send_at > now()
+    AND EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = scheduled_messages.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can edit their scheduled messages"
+  ON scheduled_messages FOR UPDATE
+  USING (sender_id = auth.uid())
+  WITH CHECK (
+    sender_id = auth.uid()
+    AND send_at > now()
+    AND EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = scheduled_messages.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can cancel their scheduled messages"
+  ON scheduled_messages FOR DELETE
+  USING (sender_id = auth.uid());
+
+-- Post everything that is due. Rows are claimed with SKIP LOCKED so
+-- overlapping runs never send a message twice. Messages from senders who
+-- have since left the chat are dropped.
+CREATE OR REPLACE FUNCTION send_due_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_sent INTEGER;
+BEGIN
+    WITH due AS (
+        DELETE FROM scheduled_messages
+        WHERE id IN (
+            SELECT id FROM scheduled_messages
+            WHERE send_at <= now()
+            ORDER BY send_at
+            LIMIT 500
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING chat_id, sender_id, content, mentions, send_at
+    ),
+    inserted AS (
+        INSERT INTO messages (chat_id, sender_id, content, mentions)
+        SELECT due.chat_id, due.sender_id, due.content, due.mentions
+        FROM due
+        WHERE EXISTS (
+            SELECT 1 FROM chat_members cm
+            WHERE cm.chat_id = due.chat_id
+            AND cm.user_id = due.sender_id
+        )
+        ORDER BY due.send_at
+        RETURNING id
+    )
+    SELECT count(*) INTO v_sent FROM inserted;
+
+    RETURN v_sent;
+END;
+$$;
+
+-- Only the scheduler runs this
+REVOKE EXECUTE ON FUNCTION send_due_scheduled_messages FROM PUBLIC, anon, authenticated;
+
+-- Run every minute with pg_cron
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-scheduled-messages') THEN
+        PERFORM cron.unschedule('send-scheduled-messages');
+    END IF;
+    PERFORM cron.schedule(
+        'send-scheduled-messages',
+        '* * * * *',
+        'SELECT public.send_due_scheduled_messages()'
+    );
+END;
+$$;
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON scheduled_messages TO authenticated;
@@ -0,0 +1,225 @@
+-- Disappearing messages: while a chat has a timer (in seconds), messages sent
+-- to it expire that long after they were sent. NULL means off.
+ALTER TABLE chats
+  ADD COLUMN IF NOT EXISTS message_ttl INTEGER
+    CHECK (message_ttl IN (86400, 604800, 7776000));
+
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS expires_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_messages_expires_at
+  ON messages(expires_at)
+  WHERE expires_at IS NOT NULL;
+
+-- The timer applies to messages sent after it was set, and expires_at can't
+-- be changed afterwards. System notices ('system') never expire and can only
+-- be posted by other triggers, not inserted directly by clients.
+CREATE OR REPLACE FUNCTION set_message_expiry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'UPDATE' THEN
+        NEW.expires_at = OLD.expires_at;
+        RETURN NEW;
+    END IF;
+
+    IF NEW.type = 'system' THEN
+        IF pg_trigger_depth() = 1 THEN
+            RAISE EXCEPTION 'System messages cannot be sent directly';
+        END IF;
+        NEW.expires_at = NULL;
+        RETURN NEW;
+    END IF;
+
+    SELECT NEW.created_at + make_interval(secs => c.message_ttl)
+    INTO NEW.expires_at
+    FROM chats c
+    WHERE c.id = NEW.chat_id;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_expiry ON messages;
+CREATE TRIGGER on_message_expiry
+  BEFORE INSERT OR UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION set_message_expiry();
+
+-- Same as 20250614000006, plus expired messages are hidden straight away
+-- rather than when the expire-messages job next runs
+DROP POLICY IF EXISTS "Users can view messages in their chats" ON messages;
+CREATE POLICY "Users can view messages in their chats"
+  ON messages FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = messages.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+    AND NOT EXISTS (
+      SELECT 1 FROM hidden_messages hm
+      WHERE hm.message_id = messages.id
+      AND hm.user_id = auth.uid()
+    )
+    AND (expires_at IS NULL OR expires_at > now())
+  );
+
+-- Post a notice in the chat whenever the timer changes. The content is JSON
+-- so the client can word it for each reader.
+CREATE OR REPLACE FUNCTION post_message_ttl_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.message_ttl IS DISTINCT FROM OLD.message_ttl AND auth.uid() IS NOT NULL THEN
+        INSERT INTO messages (chat_id, sender_id, type, content)
+        VALUES (
+            NEW.id,
+            auth.uid(),
+            'system',
+            jsonb_build_object('event', 'message_ttl', 'ttl', NEW.message_ttl)::text
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_chat_message_ttl_change ON chats;
+CREATE TRIGGER on_chat_message_ttl_change
+  AFTER UPDATE OF message_ttl ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION post_message_ttl_notice();
+
+-- Same as 20250614000008, but system notices don't notify anyone
+CREATE OR REPLACE FUNCTION notify_chat_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.type = 'system' THEN
+        RETURN NEW;
+    END IF;
+
+    INSERT INTO notifications (user_id, chat_id, message_id, kind)
+    SELECT
+        cm.user_id,
+        NEW.chat_id,
+        NEW.id,
+        CASE WHEN cm.user_id = ANY(NEW.mentions) THEN 'mention' ELSE 'message' END
+    FROM chat_members cm
+    WHERE cm.chat_id = NEW.chat_id
+    AND cm.user_id <> NEW.sender_id
+    AND (NOT cm.muted OR cm.user_id = ANY(NEW.mentions));
+    RETURN NEW;
+END;
+$$;
+
+-- Group admins can change the timer, and either member of a direct chat.
+-- p_ttl is NULL or 0 to turn it off.
+CREATE OR REPLACE FUNCTION set_message_ttl(p_chat_id UUID, p_ttl INTEGER)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_type TEXT;
+    v_role TEXT;
+BEGIN
+    SELECT c.type, cm.role
+    INTO v_chat_type, v_role
+    FROM chats c
+    JOIN chat_members cm ON cm.chat_id = c.id AND cm.user_id = auth.uid()
+    WHERE c.id = p_chat_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF v_chat_type = 'group' AND v_role <> 'admin' THEN
+        RAISE EXCEPTION 'Only group admins can change disappearing messages';
+    END IF;
+
+    UPDATE chats
+    SET message_ttl = NULLIF(p_ttl, 0)
+    WHERE id = p_chat_id
+    AND message_ttl IS DISTINCT FROM NULLIF(p_ttl, 0);
+END;
+$$;
+
+-- Delete a batch of expired messages. Rows are claimed with SKIP LOCKED so
+-- overlapping runs don't collide. Returns the chat-media object path of each
+-- deleted image or video so the caller can remove the files through the
+-- storage API.
+CREATE OR REPLACE FUNCTION delete_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (message_id UUID, media_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        DELETE FROM messages
+        WHERE id IN (
+            SELECT id FROM messages
+            WHERE expires_at <= now()
+            ORDER BY expires_at
+            LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, type, content
+    )
+    SELECT
+        expired.id,
+        CASE
+            WHEN expired.type IN ('image', 'video')
+            THEN substring(expired.content FROM '/object/public/chat-media/([^?]+)')
+        END
+    FROM expired;
+END;
+$$;
+
+-- Only the expire-messages edge function runs this
+REVOKE EXECUTE ON FUNCTION delete_expired_messages FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_expired_messages TO service_role;
+
+-- Call the expire-messages edge function every five minutes. The project URL
+-- and service role key are read from Vault (secrets 'project_url' and
+-- 'service_role_key').
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-messages') THEN
+        PERFORM cron.unschedule('expire-messages');
+    END IF;
+    PERFORM cron.schedule(
+        'expire-messages',
+        '*/5 * * * *',
+        $job$
+        SELECT net.http_post(
+            url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+                || '/functions/v1/expire-messages',
+            headers := jsonb_build_object(
+                'Content-Type', 'application/json',
+                'Authorization', 'Bearer ' || (
+                    SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+                )
+            ),
+            body := '{}'::jsonb
+        )
+        $job$
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_message_ttl TO authenticated;
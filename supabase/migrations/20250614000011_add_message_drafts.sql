@@ -0,0 +1,38 @@
+-- Unsent composer text per user and chat, synced so drafts follow the user
+-- across devices. Cleared drafts are kept with empty content so the newest
+-- change wins when a device merges its local drafts.
+CREATE TABLE IF NOT EXISTS message_drafts (
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  content TEXT NOT NULL DEFAULT '',
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, chat_id)
+);
+
+ALTER TABLE message_drafts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their drafts"
+  ON message_drafts FOR SELECT
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Users can save drafts in their chats"
+  ON message_drafts FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = message_drafts.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can update their drafts"
+  ON message_drafts FOR UPDATE
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their drafts"
+  ON message_drafts FOR DELETE
+  USING (user_id = auth.uid());
+
+GRANT SELECT, INSERT, UPDATE, DELETE ON message_drafts TO authenticated;
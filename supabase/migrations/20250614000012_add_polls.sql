@@ -0,0 +1,236 @@
+-- Polls are messages of type 'poll' whose content is the question, so chat
+-- previews and replies work unchanged. The poll itself lives in the tables
+-- below; chat_id is copied everywhere so policies and realtime filters don't
+-- need to join messages.
+CREATE TABLE IF NOT EXISTS polls (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID NOT NULL UNIQUE REFERENCES messages(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  question TEXT NOT NULL CHECK (char_length(trim(question)) BETWEEN 1 AND 300),
+  multiple_choice BOOLEAN NOT NULL DEFAULT false,
+  anonymous BOOLEAN NOT NULL DEFAULT false,
+  closes_at TIMESTAMPTZ,
+  closed_at TIMESTAMPTZ,
+  -- Number of members who voted, maintained by vote_poll
+  voter_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS poll_options (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  text TEXT NOT NULL CHECK (char_length(trim(text)) BETWEEN 1 AND 100),
+  -- Maintained by vote_poll so anonymous polls can show tallies
+  vote_count INTEGER NOT NULL DEFAULT 0,
+  UNIQUE (poll_id, position)
+);
+
+CREATE TABLE IF NOT EXISTS poll_votes (
+  poll_id UUID NOT NULL REFERENCES polls(id) ON DELETE CASCADE,
+  option_id UUID NOT NULL REFERENCES poll_options(id) ON DELETE CASCADE,
+  chat_id UUID NOT NULL REFERENCES chats(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (option_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_polls_chat_id ON polls(chat_id);
+CREATE INDEX IF NOT EXISTS idx_poll_options_chat_id ON poll_options(chat_id);
+CREATE INDEX IF NOT EXISTS idx_poll_votes_poll_user ON poll_votes(poll_id, user_id);
+
+ALTER TABLE polls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE poll_votes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view polls in their chats"
+  ON polls FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = polls.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can view poll options in their chats"
+  ON poll_options FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id = poll_options.chat_id
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+-- Who voted for what is only visible in named polls; everyone can always
+-- see their own votes
+CREATE POLICY "Users can view votes in named polls"
+  ON poll_votes FOR SELECT
+  USING (
+    user_id = auth.uid()
+    OR (
+      EXISTS (
+        SELECT 1 FROM chat_membership_cache cmc
+        WHERE cmc.chat_id = poll_votes.chat_id
+        AND cmc.user_id = auth.uid()
+      )
+      AND EXISTS (
+        SELECT 1 FROM polls p
+        WHERE p.id = poll_votes.poll_id
+        AND NOT p.anonymous
+      )
+    )
+  );
+
+-- Post a poll message. Returns the new message id.
+CREATE OR REPLACE FUNCTION create_poll(
+  p_chat_id UUID,
+  p_question TEXT,
+  p_options TEXT[],
+  p_multiple_choice BOOLEAN DEFAULT false,
+  p_anonymous BOOLEAN DEFAULT false,
+  p_closes_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_message_id UUID;
+    v_poll_id UUID;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM chat_members
+        WHERE chat_id = p_chat_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF coalesce(array_length(p_options, 1), 0) NOT BETWEEN 2 AND 12 THEN
+        RAISE EXCEPTION 'A poll needs between 2 and 12 options';
+    END IF;
+
+    IF p_closes_at IS NOT NULL AND p_closes_at <= now() THEN
+        RAISE EXCEPTION 'The closing time must be in the future';
+    END IF;
+
+    INSERT INTO messages (chat_id, sender_id, type, content)
+    VALUES (p_chat_id, auth.uid(), 'poll', trim(p_question))
+    RETURNING id INTO v_message_id;
+
+    INSERT INTO polls (message_id, chat_id, created_by, question, multiple_choice, anonymous, closes_at)
+    VALUES (v_message_id, p_chat_id, auth.uid(), trim(p_question), p_multiple_choice, p_anonymous, p_closes_at)
+    RETURNING id INTO v_poll_id;
+
+    INSERT INTO poll_options (poll_id, chat_id, position, text)
+    SELECT v_poll_id, p_chat_id, opt.position, trim(opt.label)
+    FROM unnest(p_options) WITH ORDINALITY AS opt(label, position);
+
+    RETURN v_message_id;
+END;
+$$;
+
+-- Replace the caller's votes in a poll; an empty array retracts them. The
+-- poll row is locked so concurrent votes recount one at a time.
+CREATE OR REPLACE FUNCTION vote_poll(p_poll_id UUID, p_option_ids UUID[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_poll polls%ROWTYPE;
+BEGIN
+    SELECT * INTO v_poll FROM polls WHERE id = p_poll_id FOR UPDATE;
+
+    IF NOT FOUND OR NOT EXISTS (
+        SELECT 1 FROM chat_members
+        WHERE chat_id = v_poll.chat_id AND user_id = auth.uid()
+    ) THEN
+        RAISE EXCEPTION 'Poll not found';
+    END IF;
+
+    IF v_poll.closed_at IS NOT NULL OR v_poll.closes_at <= now() THEN
+        RAISE EXCEPTION 'This poll is closed';
+    END IF;
+
+    IF NOT v_poll.multiple_choice AND coalesce(array_length(p_option_ids, 1), 0) > 1 THEN
+        RAISE EXCEPTION 'This poll allows only one choice';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(p_option_ids) AS chosen(id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM poll_options po
+            WHERE po.id = chosen.id AND po.poll_id = p_poll_id
+        )
+    ) THEN
+        RAISE EXCEPTION 'Unknown poll option';
+    END IF;
+
+    DELETE FROM poll_votes WHERE poll_id = p_poll_id AND user_id = auth.uid();
+
+    INSERT INTO poll_votes (poll_id, option_id, chat_id, user_id)
+    SELECT DISTINCT p_poll_id, chosen.id, v_poll.chat_id, auth.uid()
+    FROM unnest(p_option_ids) AS chosen(id);
+
+    UPDATE poll_options po
+    SET vote_count = (SELECT count(*) FROM poll_votes pv WHERE pv.option_id = po.id)
+    WHERE po.poll_id = p_poll_id;
+
+    UPDATE polls
+    SET voter_count = (SELECT count(DISTINCT user_id) FROM poll_votes WHERE poll_id = p_poll_id)
+    WHERE id = p_poll_id;
+END;
+$$;
+
+-- Only the member who created the poll can close it early
+CREATE OR REPLACE FUNCTION close_poll(p_poll_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE polls
+    SET closed_at = now()
+    WHERE id = p_poll_id
+    AND created_by = auth.uid()
+    AND closed_at IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can close this poll';
+    END IF;
+END;
+$$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'polls'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE polls;
+    END IF;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = 'poll_options'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE poll_options;
+    END IF;
+END;
+$$;
+
+GRANT SELECT ON polls, poll_options, poll_votes TO authenticated;
+GRANT EXECUTE ON FUNCTION create_poll TO authenticated;
+GRANT EXECUTE ON FUNCTION vote_poll TO authenticated;
+GRANT EXECUTE ON FUNCTION close_poll TO authenticated;
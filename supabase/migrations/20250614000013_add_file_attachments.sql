@@ -0,0 +1,111 @@
+-- Attachment metadata for media and file messages. Messages of type 'file'
+-- hold any other allowed attachment (documents, archives, audio); like
+-- images and videos, their content is the chat-media public URL.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS file_name TEXT,
+  ADD COLUMN IF NOT EXISTS file_size BIGINT CHECK (file_size >= 0),
+  ADD COLUMN IF NOT EXISTS mime_type TEXT;
+
+-- Size and type limits for attachments, enforced by the storage API on
+-- upload. Keep in sync with VITE_MAX_ATTACHMENT_MB and
+-- VITE_ALLOWED_ATTACHMENT_TYPES.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'chat-media',
+  'chat-media',
+  true,
+  52428800,
+  ARRAY[
+    'image/*',
+    'video/*',
+    'audio/*',
+    'text/plain',
+    'text/csv',
+    'text/markdown',
+    'application/pdf',
+    'application/rtf',
+    'application/json',
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/x-7z-compressed',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+    'application/gzip',
+    'application/x-gzip',
+    'application/x-tar',
+    'application/msword',
+    'application/vnd.ms-excel',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'application/vnd.oasis.opendocument.text',
+    'application/vnd.oasis.opendocument.spreadsheet',
+    'application/vnd.oasis.opendocument.presentation'
+  ]
+)
+ON CONFLICT (id) DO UPDATE
+SET file_size_limit = EXCLUDED.file_size_limit,
+    allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Uploads go to {chat_id}/{user_id}/ in chats the user is a member of
+DROP POLICY IF EXISTS "Users can upload chat media" ON storage.objects;
+CREATE POLICY "Users can upload chat media"
+  ON storage.objects FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id = 'chat-media'
+    AND (storage.foldername(name))[2] = auth.uid()::text
+    AND EXISTS (
+      SELECT 1 FROM chat_membership_cache cmc
+      WHERE cmc.chat_id::text = (storage.foldername(name))[1]
+      AND cmc.user_id = auth.uid()
+    )
+  );
+
+-- Restrictive, so it also applies on top of any policy created in the
+-- dashboard: no executables or scripts, and nothing over the size limit
+-- when the upload reports its size
+DROP POLICY IF EXISTS "Chat media uploads must be allowed files" ON storage.objects;
+CREATE POLICY "Chat media uploads must be allowed files"
+  ON storage.objects AS RESTRICTIVE FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    bucket_id <> 'chat-media'
+    OR (
+      lower(coalesce(storage.extension(name), '')) NOT IN (
+        'exe', 'msi', 'bat', 'cmd', 'com', 'scr', 'ps1', 'vbs', 'js', 'jar', 'apk', 'sh', 'app', 'dmg'
+      )
+      AND coalesce((metadata->>'size')::BIGINT, 0) <= 52428800
+    )
+  );
+
+-- Same as 20250614000010, but file attachments are removed too
+CREATE OR REPLACE FUNCTION delete_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (message_id UUID, media_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        DELETE FROM messages
+        WHERE id IN (
+            SELECT id FROM messages
+            WHERE expires_at <= now()
+            ORDER BY expires_at
+            LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, type, content
+    )
+    SELECT
+        expired.id,
+        CASE
+            WHEN expired.type IN ('image', 'video', 'file')
+            THEN substring(expired.content FROM '/object/public/chat-media/([^?]+)')
+        END
+    FROM expired;
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Images are resized in the browser before upload and sent with a small
+-- thumbnail (also in chat-media) and a tiny data URL placeholder, so bubbles
+-- can load progressively. width and height are the uploaded image's, for
+-- reserving space before anything has loaded.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS thumbnail_url TEXT,
+  ADD COLUMN IF NOT EXISTS placeholder TEXT CHECK (char_length(placeholder) <= 4096),
+  ADD COLUMN IF NOT EXISTS width INTEGER CHECK (width > 0),
+  ADD COLUMN IF NOT EXISTS height INTEGER CHECK (height > 0);
+
+-- Same as 20250614000013, plus the thumbnail path. The return type changes,
+-- so the function has to be dropped first.
+DROP FUNCTION IF EXISTS delete_expired_messages(INTEGER);
+
+CREATE FUNCTION delete_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (message_id UUID, media_path TEXT, thumbnail_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        DELETE FROM messages
+        WHERE id IN (
+            SELECT id FROM messages
+            WHERE expires_at <= now()
+            ORDER BY expires_at
+            LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, type, content, thumbnail_url
+    )
+    SELECT
+        expired.id,
+        CASE
+            WHEN expired.type IN ('image', 'video', 'file')
+            THEN substring(expired.content FROM '/object/public/chat-media/([^?]+)')
+        END,
+        substring(expired.thumbnail_url FROM '/object/public/chat-media/([^?]+)')
+    FROM expired;
+END;
+$$;
+
+-- Only the expire-messages edge function runs this
+REVOKE EXECUTE ON FUNCTION delete_expired_messages FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_expired_messages TO service_role;
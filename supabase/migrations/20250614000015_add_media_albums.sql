@@ -0,0 +1,6 @@
+-- Media and file messages can carry a caption, and images or videos sent
+-- together share an album_id so they render as a single grid. Each file is
+-- still its own message, so deleting and expiring work per file.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS caption TEXT CHECK (char_length(caption) <= 1024),
+  ADD COLUMN IF NOT EXISTS album_id UUID;
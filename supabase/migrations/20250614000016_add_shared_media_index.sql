@@ -0,0 +1,20 @@
+-- Backs the per-chat Media / Files / Links gallery. has_link marks text
+-- messages that contain a URL so the links tab can be filtered in the
+-- database instead of scanning every message on the client.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS has_link BOOLEAN
+  GENERATED ALWAYS AS (type = 'text' AND content ~* 'https?://') STORED;
+
+-- Each tab pages with the same keyset as the chat itself; these partial
+-- indexes keep that cheap in chats where shared items are sparse.
+CREATE INDEX IF NOT EXISTS idx_messages_chat_media
+  ON messages(chat_id, created_at DESC, id DESC)
+  WHERE type IN ('image', 'video') AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_files
+  ON messages(chat_id, created_at DESC, id DESC)
+  WHERE type = 'file' AND deleted_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_messages_chat_links
+  ON messages(chat_id, created_at DESC, id DESC)
+  WHERE has_link AND deleted_at IS NULL;
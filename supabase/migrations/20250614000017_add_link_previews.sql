@@ -0,0 +1,91 @@
+-- Link previews are built once per message by the link-preview edge function
+-- and stored on the message, so readers never fetch third-party pages
+-- themselves. Fetched metadata is cached per URL in link_previews.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS link_preview JSONB;
+
+-- preview is NULL when the page had no usable metadata or couldn't be
+-- fetched; those are retried sooner than successful ones are refreshed
+CREATE TABLE IF NOT EXISTS link_previews (
+  url TEXT PRIMARY KEY,
+  preview JSONB,
+  fetched_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Only the edge function (service role) reads and writes the cache
+ALTER TABLE link_previews ENABLE ROW LEVEL SECURITY;
+
+-- link_preview is only ever set by the edge function. Anything else keeps the
+-- current value, except that changing the content (which deleting does too)
+-- drops the preview until the new one arrives.
+CREATE OR REPLACE FUNCTION guard_link_preview()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF auth.role() IS NOT DISTINCT FROM 'service_role' THEN
+        RETURN NEW;
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.content IS DISTINCT FROM OLD.content OR NEW.deleted_at IS NOT NULL THEN
+        NEW.link_preview = NULL;
+    ELSE
+        NEW.link_preview = OLD.link_preview;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+-- Named to run after on_message_edit, which clears the content on delete
+DROP TRIGGER IF EXISTS on_message_link_preview_guard ON messages;
+CREATE TRIGGER on_message_link_preview_guard
+  BEFORE INSERT OR UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_link_preview();
+
+-- Ask the edge function for a preview. pg_net sends the request after the
+-- transaction commits and doesn't wait for it. The project URL and service
+-- role key are read from Vault, as for the expire-messages job.
+CREATE OR REPLACE FUNCTION request_link_preview()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    PERFORM net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/link-preview',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (
+                SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key'
+            )
+        ),
+        body := jsonb_build_object('message_id', NEW.id)
+    );
+    RETURN NULL;
+END;
+$$;
+
+-- Same URL test as the client's link detection
+DROP TRIGGER IF EXISTS on_message_link_insert ON messages;
+CREATE TRIGGER on_message_link_insert
+  AFTER INSERT ON messages
+  FOR EACH ROW
+  WHEN (NEW.type = 'text' AND NEW.content ~* '(https?://|www\.)')
+  EXECUTE FUNCTION request_link_preview();
+
+DROP TRIGGER IF EXISTS on_message_link_update ON messages;
+CREATE TRIGGER on_message_link_update
+  AFTER UPDATE OF content ON messages
+  FOR EACH ROW
+  WHEN (
+    NEW.type = 'text'
+    AND NEW.deleted_at IS NULL
+    AND NEW.content IS DISTINCT FROM OLD.content
+    AND NEW.content ~* '(https?://|www\.)'
+  )
+  EXECUTE FUNCTION request_link_preview();
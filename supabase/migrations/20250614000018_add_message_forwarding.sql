@@ -0,0 +1,190 @@
+-- Forwarded copies remember who originally wrote the message and how many
+-- times it has been passed on. forwarded_from is the author's name when the
+-- message was first forwarded, so it survives the original being deleted.
+ALTER TABLE messages
+  ADD COLUMN IF NOT EXISTS forwarded_from TEXT,
+  ADD COLUMN IF NOT EXISTS forward_count INTEGER NOT NULL DEFAULT 0;
+
+-- Forwarded copies share the original's file; used to tell whether a file
+-- is still in use when a message expires
+CREATE INDEX IF NOT EXISTS idx_messages_media_content
+  ON messages(content)
+  WHERE type IN ('image', 'video', 'file');
+
+-- Attribution is only set by forward_messages. Direct inserts can't claim
+-- to be forwarded and updates keep it as it was.
+CREATE OR REPLACE FUNCTION guard_message_forward()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        IF current_setting('app.forwarding', true) IS DISTINCT FROM 'on' THEN
+            NEW.forwarded_from = NULL;
+            NEW.forward_count = 0;
+        END IF;
+    ELSE
+        NEW.forwarded_from = OLD.forwarded_from;
+        NEW.forward_count = OLD.forward_count;
+    END IF;
+
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_message_forward_guard ON messages;
+CREATE TRIGGER on_message_forward_guard
+  BEFORE INSERT OR UPDATE ON messages
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_message_forward();
+
+-- Copy messages into each of the given chats, followed by an optional
+-- comment. Content and attachments are copied from the originals, so a
+-- forwarded message can't be altered on the way. Images and videos that
+-- shared an album share a new one in each destination.
+CREATE OR REPLACE FUNCTION forward_messages(
+  p_message_ids UUID[],
+  p_chat_ids UUID[],
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_chat_ids));
+    v_chat_id UUID;
+    v_source RECORD;
+    v_albums JSONB;
+    v_album_id UUID;
+BEGIN
+    IF coalesce(array_length(p_message_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'Nothing to forward';
+    END IF;
+
+    IF coalesce(array_length(v_chat_ids, 1), 0) NOT BETWEEN 1 AND 20 THEN
+        RAISE EXCEPTION 'Messages can be forwarded to between 1 and 20 chats';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_chat_ids) AS target(chat_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM chat_members
+            WHERE chat_id = target.chat_id AND user_id = auth.uid()
+        )
+    ) THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM messages m
+        WHERE m.id = ANY(p_message_ids)
+          AND m.deleted_at IS NULL
+          AND m.type IN ('text', 'image', 'video', 'file')
+          AND EXISTS (
+              SELECT 1 FROM chat_members
+              WHERE chat_id = m.chat_id AND user_id = auth.uid()
+          )
+    ) <> (SELECT count(DISTINCT id) FROM unnest(p_message_ids) AS id) THEN
+        RAISE EXCEPTION 'These messages can''t be forwarded';
+    END IF;
+
+    PERFORM set_config('app.forwarding', 'on', true);
+
+    FOREACH v_chat_id IN ARRAY v_chat_ids LOOP
+        v_albums := '{}';
+
+        FOR v_source IN
+            SELECT m.*, COALESCE(m.forwarded_from, p.full_name) AS author
+            FROM messages m
+            LEFT JOIN profiles p ON p.id = m.sender_id
+            WHERE m.id = ANY(p_message_ids)
+            ORDER BY m.created_at, m.id
+        LOOP
+            v_album_id := NULL;
+            IF v_source.album_id IS NOT NULL THEN
+                IF NOT v_albums ? v_source.album_id::text THEN
+                    v_albums := v_albums || jsonb_build_object(v_source.album_id::text, gen_random_uuid());
+                END IF;
+                v_album_id := (v_albums ->> v_source.album_id::text)::UUID;
+            END IF;
+
+            -- clock_timestamp keeps the copies in their original order
+            INSERT INTO messages (
+                chat_id, sender_id, type, content, created_at,
+                file_name, file_size, mime_type,
+                thumbnail_url, placeholder, width, height,
+                caption, album_id,
+                forwarded_from, forward_count
+            )
+            VALUES (
+                v_chat_id, auth.uid(), v_source.type, v_source.content, clock_timestamp(),
+                v_source.file_name, v_source.file_size, v_source.mime_type,
+                v_source.thumbnail_url, v_source.placeholder, v_source.width, v_source.height,
+                v_source.caption, v_album_id,
+                COALESCE(v_source.author, 'Unknown User'), v_source.forward_count + 1
+            );
+        END LOOP;
+
+        IF nullif(trim(p_comment), '') IS NOT NULL THEN
+            INSERT INTO messages (chat_id, sender_id, type, content, created_at)
+            VALUES (v_chat_id, auth.uid(), 'text', trim(p_comment), clock_timestamp());
+        END IF;
+    END LOOP;
+
+    PERFORM set_config('app.forwarding', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION forward_messages TO authenticated;
+
+-- Same as 20250614000014, except that files still used by another message
+-- (forwarded copies share them) are kept
+DROP FUNCTION IF EXISTS delete_expired_messages(INTEGER);
+
+CREATE FUNCTION delete_expired_messages(p_limit INTEGER DEFAULT 500)
+RETURNS TABLE (message_id UUID, media_path TEXT, thumbnail_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    RETURN QUERY
+    WITH expired AS (
+        DELETE FROM messages
+        WHERE id IN (
+            SELECT id FROM messages
+            WHERE expires_at <= now()
+            ORDER BY expires_at
+            LIMIT LEAST(GREATEST(p_limit, 1), 1000)
+            FOR UPDATE SKIP LOCKED
+        )
+        RETURNING id, type, content, thumbnail_url
+    ),
+    -- The DELETE isn't visible to the rest of the statement yet, so the
+    -- expired rows are excluded by hand
+    unused AS (
+        SELECT expired.*
+        FROM expired
+        WHERE expired.type IN ('image', 'video', 'file')
+          AND NOT EXISTS (
+              SELECT 1 FROM messages m
+              WHERE m.content = expired.content
+                AND m.type IN ('image', 'video', 'file')
+                AND m.id NOT IN (SELECT id FROM expired)
+          )
+    )
+    SELECT
+        expired.id,
+        substring(unused.content FROM '/object/public/chat-media/([^?]+)'),
+        substring(unused.thumbnail_url FROM '/object/public/chat-media/([^?]+)')
+    FROM expired
+    LEFT JOIN unused ON unused.id = expired.id;
+END;
+$$;
+
+-- Only the expire-messages edge function runs this
+REVOKE EXECUTE ON FUNCTION delete_expired_messages FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION delete_expired_messages TO service_role;
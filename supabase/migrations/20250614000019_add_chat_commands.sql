@@ -0,0 +1,126 @@
+-- Server side of the composer's slash commands. /me posts messages of type
+-- 'action', which need nothing here: like other non-text messages they can't
+-- be edited. /topic and /leave go through the functions below.
+
+-- Group topic, shown under the group name. Set when the group is created
+-- and changed with /topic.
+ALTER TABLE chats
+  ADD COLUMN IF NOT EXISTS description TEXT DEFAULT '';
+
+-- Group admins only, like the chats update policy. An empty topic clears it.
+CREATE OR REPLACE FUNCTION set_chat_topic(p_chat_id UUID, p_topic TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_type TEXT;
+    v_role TEXT;
+BEGIN
+    SELECT c.type, cm.role
+    INTO v_chat_type, v_role
+    FROM chats c
+    JOIN chat_members cm ON cm.chat_id = c.id AND cm.user_id = auth.uid()
+    WHERE c.id = p_chat_id;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF v_chat_type <> 'group' THEN
+        RAISE EXCEPTION 'Only groups have a topic';
+    END IF;
+
+    IF v_role <> 'admin' THEN
+        RAISE EXCEPTION 'Only group admins can change the topic';
+    END IF;
+
+    IF char_length(trim(coalesce(p_topic, ''))) > 160 THEN
+        RAISE EXCEPTION 'Topics can be at most 160 characters';
+    END IF;
+
+    UPDATE chats
+    SET description = trim(coalesce(p_topic, ''))
+    WHERE id = p_chat_id
+    AND description IS DISTINCT FROM trim(coalesce(p_topic, ''));
+END;
+$$;
+
+-- Post a notice whenever the topic changes, as for the message timer
+CREATE OR REPLACE FUNCTION post_chat_topic_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.description IS DISTINCT FROM OLD.description AND auth.uid() IS NOT NULL THEN
+        INSERT INTO messages (chat_id, sender_id, type, content)
+        VALUES (
+            NEW.id,
+            auth.uid(),
+            'system',
+            jsonb_build_object('event', 'topic', 'topic', NULLIF(NEW.description, ''))::text
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_chat_topic_change ON chats;
+CREATE TRIGGER on_chat_topic_change
+  AFTER UPDATE OF description ON chats
+  FOR EACH ROW
+  EXECUTE FUNCTION post_chat_topic_notice();
+
+-- Leave a group, posting a notice for the members who stay. When the last
+-- admin leaves, the longest-standing remaining member takes over.
+CREATE OR REPLACE FUNCTION leave_chat(p_chat_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_type TEXT;
+    v_role TEXT;
+BEGIN
+    SELECT c.type, cm.role
+    INTO v_chat_type, v_role
+    FROM chats c
+    JOIN chat_members cm ON cm.chat_id = c.id AND cm.user_id = auth.uid()
+    WHERE c.id = p_chat_id
+    FOR UPDATE OF c;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF v_chat_type <> 'group' THEN
+        RAISE EXCEPTION 'Direct chats can''t be left';
+    END IF;
+
+    INSERT INTO messages (chat_id, sender_id, type, content)
+    VALUES (p_chat_id, auth.uid(), 'system', jsonb_build_object('event', 'member_left')::text);
+
+    DELETE FROM chat_members
+    WHERE chat_id = p_chat_id AND user_id = auth.uid();
+
+    IF v_role = 'admin' AND NOT EXISTS (
+        SELECT 1 FROM chat_members WHERE chat_id = p_chat_id AND role = 'admin'
+    ) THEN
+        UPDATE chat_members
+        SET role = 'admin'
+        WHERE id = (
+            SELECT id FROM chat_members
+            WHERE chat_id = p_chat_id
+            ORDER BY created_at, id
+            LIMIT 1
+        );
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION set_chat_topic TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_chat TO authenticated;
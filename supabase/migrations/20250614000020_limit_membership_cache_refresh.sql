@@ -0,0 +1,8 @@
+-- chat_members is now updated on every chat open, scroll and delivery (read
+-- positions, receipts, muting). The membership cache only holds chat_id and
+-- user_id, so only refresh it when membership itself can have changed.
+DROP TRIGGER IF EXISTS refresh_chat_membership_cache_trigger ON chat_members;
+CREATE TRIGGER refresh_chat_membership_cache_trigger
+AFTER INSERT OR DELETE OR UPDATE OF chat_id, user_id ON chat_members
+FOR EACH STATEMENT
+EXECUTE FUNCTION refresh_chat_membership_cache();
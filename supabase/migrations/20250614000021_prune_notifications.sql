@@ -0,0 +1,42 @@
+-- Notifications are only useful while they are recent. Without pruning the
+-- table grows forever for members who never open the app to dismiss them.
+-- Keep 30 days, and at most the newest 500 per member.
+CREATE OR REPLACE FUNCTION prune_notifications()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    DELETE FROM notifications
+    WHERE created_at < now() - INTERVAL '30 days';
+
+    DELETE FROM notifications n
+    USING (
+        SELECT id
+        FROM (
+            SELECT id, row_number() OVER (PARTITION BY user_id ORDER BY created_at DESC, id DESC) AS position
+            FROM notifications
+        ) ranked
+        WHERE ranked.position > 500
+    ) excess
+    WHERE n.id = excess.id;
+END;
+$$;
+
+-- Only the scheduler runs this
+REVOKE EXECUTE ON FUNCTION prune_notifications FROM PUBLIC, anon, authenticated;
+
+-- Run hourly with pg_cron
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'prune-notifications') THEN
+        PERFORM cron.unschedule('prune-notifications');
+    END IF;
+    PERFORM cron.schedule(
+        'prune-notifications',
+        '17 * * * *',
+        'SELECT public.prune_notifications()'
+    );
+END;
+$$;
@@ -0,0 +1,47 @@
+-- Same as 20250614000009, except that messages are inserted one at a time
+-- in send_at order with clock_timestamp(), kept at least a microsecond apart.
+-- With now() every message in a batch got the same created_at, and messages
+-- due in the same minute were then ordered by their random ids.
+CREATE OR REPLACE FUNCTION send_due_scheduled_messages()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_due RECORD;
+    v_sent INTEGER := 0;
+    v_created_at TIMESTAMPTZ := '-infinity';
+BEGIN
+    FOR v_due IN
+        WITH due AS (
+            DELETE FROM scheduled_messages
+            WHERE id IN (
+                SELECT id FROM scheduled_messages
+                WHERE send_at <= now()
+                ORDER BY send_at, id
+                LIMIT 500
+                FOR UPDATE SKIP LOCKED
+            )
+            RETURNING id, chat_id, sender_id, content, mentions, send_at
+        )
+        SELECT * FROM due
+        ORDER BY due.send_at, due.id
+    LOOP
+        IF EXISTS (
+            SELECT 1 FROM chat_members cm
+            WHERE cm.chat_id = v_due.chat_id
+            AND cm.user_id = v_due.sender_id
+        ) THEN
+            v_created_at := GREATEST(clock_timestamp(), v_created_at + INTERVAL '1 microsecond');
+            INSERT INTO messages (chat_id, sender_id, content, mentions, created_at)
+            VALUES (v_due.chat_id, v_due.sender_id, v_due.content, v_due.mentions, v_created_at);
+            v_sent := v_sent + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_sent;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_due_scheduled_messages FROM PUBLIC, anon, authenticated;
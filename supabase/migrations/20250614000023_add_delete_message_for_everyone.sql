@@ -0,0 +1,44 @@
+-- Deleting a message for everyone, returning the paths of its files that no
+-- other message uses so the client can remove them from chat-media.
+-- Forwarded copies share the original's file, so the file stays while any
+-- copy (or the original) still points at it. Same check as
+-- delete_expired_messages in 20250614000018.
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id UUID)
+RETURNS TABLE (media_path TEXT, thumbnail_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_message messages%ROWTYPE;
+BEGIN
+    -- Same rule as the messages update policy
+    SELECT * INTO v_message
+    FROM messages
+    WHERE id = p_message_id
+    AND sender_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    -- handle_message_edit wipes the content and refuses tombstones
+    UPDATE messages
+    SET deleted_at = now()
+    WHERE id = p_message_id;
+
+    IF v_message.type IN ('image', 'video', 'file') AND NOT EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.content = v_message.content
+        AND m.type IN ('image', 'video', 'file')
+        AND m.id <> p_message_id
+    ) THEN
+        RETURN QUERY SELECT
+            substring(v_message.content FROM '/object/public/chat-media/([^?]+)'),
+            substring(v_message.thumbnail_url FROM '/object/public/chat-media/([^?]+)');
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_message_for_everyone TO authenticated;
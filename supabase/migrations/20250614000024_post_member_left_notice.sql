@@ -0,0 +1,70 @@
+-- System notices can only be posted by triggers (see set_message_expiry), so
+-- the notice for a member leaving a group is posted when their membership row
+-- goes rather than by leave_chat itself. Only members removing themselves
+-- count as leaving, and nothing is posted when the whole chat is deleted.
+CREATE OR REPLACE FUNCTION post_member_left_notice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF OLD.user_id = auth.uid() AND EXISTS (
+        SELECT 1 FROM chats WHERE id = OLD.chat_id AND type = 'group'
+    ) THEN
+        INSERT INTO messages (chat_id, sender_id, type, content)
+        VALUES (OLD.chat_id, OLD.user_id, 'system', jsonb_build_object('event', 'member_left')::text);
+    END IF;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_chat_member_left ON chat_members;
+CREATE TRIGGER on_chat_member_left
+  AFTER DELETE ON chat_members
+  FOR EACH ROW
+  EXECUTE FUNCTION post_member_left_notice();
+
+-- Same as 20250614000019, except that the notice comes from the trigger above
+CREATE OR REPLACE FUNCTION leave_chat(p_chat_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_type TEXT;
+    v_role TEXT;
+BEGIN
+    SELECT c.type, cm.role
+    INTO v_chat_type, v_role
+    FROM chats c
+    JOIN chat_members cm ON cm.chat_id = c.id AND cm.user_id = auth.uid()
+    WHERE c.id = p_chat_id
+    FOR UPDATE OF c;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF v_chat_type <> 'group' THEN
+        RAISE EXCEPTION 'Direct chats can''t be left';
+    END IF;
+
+    DELETE FROM chat_members
+    WHERE chat_id = p_chat_id AND user_id = auth.uid();
+
+    IF v_role = 'admin' AND NOT EXISTS (
+        SELECT 1 FROM chat_members WHERE chat_id = p_chat_id AND role = 'admin'
+    ) THEN
+        UPDATE chat_members
+        SET role = 'admin'
+        WHERE id = (
+            SELECT id FROM chat_members
+            WHERE chat_id = p_chat_id
+            ORDER BY created_at, id
+            LIMIT 1
+        );
+    END IF;
+END;
+$$;
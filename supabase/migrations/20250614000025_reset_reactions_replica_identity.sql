@@ -0,0 +1,4 @@
+-- 20250614000005 used to log full rows for realtime DELETEs, but with RLS
+-- enabled the payload only carries the primary key anyway. Clients remove
+-- reactions by id, so the default is enough.
+ALTER TABLE message_reactions REPLICA IDENTITY DEFAULT;
@@ -0,0 +1,101 @@
+-- Same as 20250614000018, except that the copies are kept at least a
+-- microsecond apart. clock_timestamp() alone can return the same value for
+-- copies inserted in quick succession, which left their order to their ids.
+CREATE OR REPLACE FUNCTION forward_messages(
+  p_message_ids UUID[],
+  p_chat_ids UUID[],
+  p_comment TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_chat_ids UUID[] := ARRAY(SELECT DISTINCT unnest(p_chat_ids));
+    v_chat_id UUID;
+    v_source RECORD;
+    v_albums JSONB;
+    v_album_id UUID;
+    v_created_at TIMESTAMPTZ := '-infinity';
+BEGIN
+    IF coalesce(array_length(p_message_ids, 1), 0) = 0 THEN
+        RAISE EXCEPTION 'Nothing to forward';
+    END IF;
+
+    IF coalesce(array_length(v_chat_ids, 1), 0) NOT BETWEEN 1 AND 20 THEN
+        RAISE EXCEPTION 'Messages can be forwarded to between 1 and 20 chats';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM unnest(v_chat_ids) AS target(chat_id)
+        WHERE NOT EXISTS (
+            SELECT 1 FROM chat_members
+            WHERE chat_id = target.chat_id AND user_id = auth.uid()
+        )
+    ) THEN
+        RAISE EXCEPTION 'Not a member of this chat';
+    END IF;
+
+    IF (
+        SELECT count(*) FROM messages m
+        WHERE m.id = ANY(p_message_ids)
+          AND m.deleted_at IS NULL
+          AND m.type IN ('text', 'image', 'video', 'file')
+          AND EXISTS (
+              SELECT 1 FROM chat_members
+              WHERE chat_id = m.chat_id AND user_id = auth.uid()
+          )
+    ) <> (SELECT count(DISTINCT id) FROM unnest(p_message_ids) AS id) THEN
+        RAISE EXCEPTION 'These messages can''t be forwarded';
+    END IF;
+
+    PERFORM set_config('app.forwarding', 'on', true);
+
+    FOREACH v_chat_id IN ARRAY v_chat_ids LOOP
+        v_albums := '{}';
+
+        FOR v_source IN
+            SELECT m.*, COALESCE(m.forwarded_from, p.full_name) AS author
+            FROM messages m
+            LEFT JOIN profiles p ON p.id = m.sender_id
+            WHERE m.id = ANY(p_message_ids)
+            ORDER BY m.created_at, m.id
+        LOOP
+            v_album_id := NULL;
+            IF v_source.album_id IS NOT NULL THEN
+                IF NOT v_albums ? v_source.album_id::text THEN
+                    v_albums := v_albums || jsonb_build_object(v_source.album_id::text, gen_random_uuid());
+                END IF;
+                v_album_id := (v_albums ->> v_source.album_id::text)::UUID;
+            END IF;
+
+            v_created_at := GREATEST(clock_timestamp(), v_created_at + INTERVAL '1 microsecond');
+            INSERT INTO messages (
+                chat_id, sender_id, type, content, created_at,
+                file_name, file_size, mime_type,
+                thumbnail_url, placeholder, width, height,
+                caption, album_id,
+                forwarded_from, forward_count
+            )
+            VALUES (
+                v_chat_id, auth.uid(), v_source.type, v_source.content, v_created_at,
+                v_source.file_name, v_source.file_size, v_source.mime_type,
+                v_source.thumbnail_url, v_source.placeholder, v_source.width, v_source.height,
+                v_source.caption, v_album_id,
+                COALESCE(v_source.author, 'Unknown User'), v_source.forward_count + 1
+            );
+        END LOOP;
+
+        IF nullif(trim(p_comment), '') IS NOT NULL THEN
+            v_created_at := GREATEST(clock_timestamp(), v_created_at + INTERVAL '1 microsecond');
+            INSERT INTO messages (chat_id, sender_id, type, content, created_at)
+            VALUES (v_chat_id, auth.uid(), 'text', trim(p_comment), v_created_at);
+        END IF;
+    END LOOP;
+
+    PERFORM set_config('app.forwarding', 'off', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION forward_messages TO authenticated;
@@ -0,0 +1,49 @@
+-- Same as 20250614000023, except that only paths in the caller's own folder
+-- are returned. A forwarded copy points at the original sender's file, which
+-- the caller isn't allowed to remove, so that file is left in place.
+CREATE OR REPLACE FUNCTION delete_message_for_everyone(p_message_id UUID)
+RETURNS TABLE (media_path TEXT, thumbnail_path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    v_message messages%ROWTYPE;
+    v_media_path TEXT;
+    v_thumbnail_path TEXT;
+BEGIN
+    -- Same rule as the messages update policy
+    SELECT * INTO v_message
+    FROM messages
+    WHERE id = p_message_id
+    AND sender_id = auth.uid()
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Message not found';
+    END IF;
+
+    -- handle_message_edit wipes the content and refuses tombstones
+    UPDATE messages
+    SET deleted_at = now()
+    WHERE id = p_message_id;
+
+    IF v_message.type IN ('image', 'video', 'file') AND NOT EXISTS (
+        SELECT 1 FROM messages m
+        WHERE m.content = v_message.content
+        AND m.type IN ('image', 'video', 'file')
+        AND m.id <> p_message_id
+    ) THEN
+        v_media_path := substring(v_message.content FROM '/object/public/chat-media/([^?]+)');
+        v_thumbnail_path := substring(v_message.thumbnail_url FROM '/object/public/chat-media/([^?]+)');
+
+        -- The storage delete policy only lets users remove files in their own
+        -- folder ({chat_id}/{user_id}/...)
+        RETURN QUERY SELECT
+            CASE WHEN (storage.foldername(v_media_path))[2] = auth.uid()::text THEN v_media_path END,
+            CASE WHEN (storage.foldername(v_thumbnail_path))[2] = auth.uid()::text THEN v_thumbnail_path END;
+    END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION delete_message_for_everyone TO authenticated;
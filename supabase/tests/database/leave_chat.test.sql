@@ -0,0 +1,103 @@
+-- Leaving groups with /leave. Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(10);
+
+-- Ann is the group's admin; Bob joined before Cat
+INSERT INTO auth.users (id, email, raw_user_meta_data) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'ann@example.com', '{"username": "ann", "full_name": "Ann"}'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', '{"username": "bob", "full_name": "Bob"}'),
+  ('00000000-0000-0000-0000-00000000000c', 'cat@example.com', '{"username": "cat", "full_name": "Cat"}');
+
+INSERT INTO chats (id, type, name) VALUES
+  ('00000000-0000-0000-0000-000000000001', 'group', 'Group'),
+  ('00000000-0000-0000-0000-000000000002', 'direct', NULL);
+
+INSERT INTO chat_members (chat_id, user_id, role, created_at) VALUES
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000a', 'admin', now() - INTERVAL '3 days'),
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', 'member', now() - INTERVAL '2 days'),
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000c', 'member', now() - INTERVAL '1 day'),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000a', 'member', now()),
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000c', 'member', now());
+
+-- Act as Ann
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$SELECT leave_chat('00000000-0000-0000-0000-000000000001')$$,
+  'a member can leave a group'
+);
+
+SELECT throws_ok(
+  $$SELECT leave_chat('00000000-0000-0000-0000-000000000001')$$,
+  'Not a member of this chat',
+  'a group can only be left once'
+);
+
+SELECT throws_ok(
+  $$SELECT leave_chat('00000000-0000-0000-0000-000000000002')$$,
+  'Direct chats can''t be left',
+  'direct chats can''t be left'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*)::INT FROM chat_members
+   WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-00000000000a'),
+  0,
+  'the membership is gone'
+);
+
+SELECT is(
+  (SELECT count(*)::INT FROM chat_membership_cache
+   WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-00000000000a'),
+  0,
+  'the membership cache is refreshed'
+);
+
+SELECT is(
+  (SELECT content::jsonb FROM messages
+   WHERE chat_id = '00000000-0000-0000-0000-000000000001'
+   AND sender_id = '00000000-0000-0000-0000-00000000000a'
+   AND type = 'system'),
+  '{"event": "member_left"}'::jsonb,
+  'a notice is posted for the members who stay'
+);
+
+SELECT is(
+  (SELECT role FROM chat_members
+   WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-00000000000b'),
+  'admin',
+  'the longest-standing member takes over from the last admin'
+);
+
+SELECT is(
+  (SELECT role FROM chat_members
+   WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-00000000000c'),
+  'member',
+  'nobody else is promoted'
+);
+
+-- Removing someone else isn't leaving
+DELETE FROM chat_members
+WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND user_id = '00000000-0000-0000-0000-00000000000c';
+
+SELECT is(
+  (SELECT count(*)::INT FROM messages WHERE chat_id = '00000000-0000-0000-0000-000000000001' AND type = 'system'),
+  1,
+  'no notice when a member is removed by someone else'
+);
+
+-- Deleting the group removes Bob's membership too
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000b", "role": "authenticated"}', true);
+
+SELECT lives_ok(
+  $$DELETE FROM chats WHERE id = '00000000-0000-0000-0000-000000000001'$$,
+  'deleting a group doesn''t post notices into it'
+);
+
+SELECT * FROM finish();
+ROLLBACK;